@@ -0,0 +1,364 @@
+/**
+ * Bulk Mode Module
+ *
+ * Saves several videos to playlists at once on grid pages (results, channel, home, playlist)
+ * - Checkboxes on video thumbnails collect video IDs into a tray
+ * - One enhanced playlist picker (the first video's save sheet) picks the add/remove diff;
+ *   it starts unchecked, since the diff must not depend on the first video's playlists
+ * - The diff is applied to every collected video in turn, with progress and per-video results
+ */
+
+import type { BatchSaveResult, SaveDiff } from '../types';
+import { detectPageType, type YouTubePageType } from './observer';
+import { applyDiffToVideo, cancelBulkPicker, openBulkPicker } from './enhancer';
+import { formatSaveSummary } from './multiselect';
+import { recordUsage } from './usage';
+import { getRendererVideoId } from './video';
+import { getSiteProfile } from './profiles';
+import { SELECTORS, findAllElements, getSelectorCandidates } from './selectors';
+import type { MutationDispatcher } from './mutations';
+import { showProgressToast, showToast } from './toast';
+import { debounce } from '../utils/debounce';
+import { logger } from '../utils/logger';
+
+/** Page types whose video grids support bulk mode */
+const BULK_PAGE_TYPES: YouTubePageType[] = ['results', 'channel', 'home', 'playlist'];
+
+/** Debounce for adding checkboxes to lazily loaded videos (ms) */
+const RENDERER_SCAN_DEBOUNCE_MS = 200;
+
+/**
+ * Outcome of applying the diff to one video
+ */
+interface VideoSaveResult {
+  videoId: string;
+  title: string;
+  /** Null when the video's save sheet couldn't be opened */
+  result: BatchSaveResult | null;
+}
+
+/**
+ * Get the displayed title of a video renderer
+ */
+function getRendererTitle(renderer: Element): string {
+  const title = renderer.querySelector('#video-title, a[title]');
+  return (title?.getAttribute('title') || title?.textContent || '').trim();
+}
+
+/**
+ * Manages bulk mode on the current grid page
+ */
+export class BulkModeManager {
+  private _isEnabled = false;
+  private _isRunning = false;
+  // Collected videos in selection order, with their titles
+  private _selected: Map<string, string> = new Map();
+  private _toggleButton: HTMLButtonElement | null = null;
+  private _tray: HTMLElement | null = null;
+  // Removes the renderer route from the page's MutationDispatcher
+  private _removeRendererRoute: (() => void) | null = null;
+  // AbortController for reliable event listener cleanup
+  private _abortController: AbortController | null = null;
+
+  constructor(private readonly _dispatcher: MutationDispatcher) {}
+
+  /**
+   * Whether bulk mode is supported on a page type (YouTube only, see SiteProfile)
+   */
+  static isSupportedPage(pageType: YouTubePageType = detectPageType()): boolean {
+    return getSiteProfile().supportsBulkMode && BULK_PAGE_TYPES.includes(pageType);
+  }
+
+  /**
+   * Show the bulk mode toggle on the current page
+   */
+  initialize(): void {
+    this._abortController = new AbortController();
+    this.injectToggleButton();
+    logger.info('BulkModeManager initialized', { pageType: detectPageType() });
+  }
+
+  /**
+   * Inject the floating "bulk mode" toggle button
+   */
+  private injectToggleButton(): void {
+    this._toggleButton = document.createElement('button');
+    this._toggleButton.className = 'ype-bulk-mode-toggle';
+    this._toggleButton.textContent = '批次儲存';
+    this._toggleButton.title = '勾選多部影片，一次儲存到播放清單';
+    this._toggleButton.addEventListener('click', () => this.setEnabled(!this._isEnabled), {
+      signal: this._abortController?.signal,
+    });
+    document.body.appendChild(this._toggleButton);
+  }
+
+  /**
+   * Turn bulk mode on or off
+   */
+  setEnabled(enabled: boolean): void {
+    if (this._isEnabled === enabled || this._isRunning) return;
+    this._isEnabled = enabled;
+    this._toggleButton?.classList.toggle('ype-bulk-mode-toggle--active', enabled);
+    this._toggleButton?.setAttribute('aria-pressed', String(enabled));
+
+    if (enabled) {
+      this.addCheckboxes();
+      this.observeRenderers();
+      this.renderTray();
+    } else {
+      this.removeBulkUi();
+    }
+  }
+
+  /**
+   * Remove checkboxes and the tray and forget the collected videos
+   */
+  private removeBulkUi(): void {
+    this._removeRendererRoute?.();
+    this._removeRendererRoute = null;
+    document.querySelectorAll('.ype-video-checkbox').forEach((checkbox) => checkbox.remove());
+    document
+      .querySelectorAll('.ype-bulk-target')
+      .forEach((renderer) => renderer.classList.remove('ype-bulk-target'));
+    this._selected.clear();
+    this._tray?.remove();
+    this._tray = null;
+    cancelBulkPicker();
+  }
+
+  /**
+   * Add a checkbox to every video renderer that doesn't have one yet
+   */
+  private addCheckboxes(): void {
+    const signal = this._abortController?.signal;
+
+    for (const renderer of findAllElements(document, SELECTORS.videoRenderer)) {
+      if (renderer.querySelector('.ype-video-checkbox')) continue;
+      const videoId = getRendererVideoId(renderer);
+      if (!videoId) continue;
+
+      const checkbox = document.createElement('button');
+      checkbox.className = 'ype-video-checkbox';
+      checkbox.setAttribute('role', 'checkbox');
+      checkbox.setAttribute('aria-label', `選取影片「${getRendererTitle(renderer)}」`);
+      this.updateCheckbox(checkbox, this._selected.has(videoId));
+
+      // Keep the click away from the thumbnail link underneath
+      checkbox.addEventListener(
+        'click',
+        (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          this.toggleVideo(videoId, getRendererTitle(renderer));
+          this.updateCheckbox(checkbox, this._selected.has(videoId));
+        },
+        { signal }
+      );
+
+      renderer.classList.add('ype-bulk-target');
+      renderer.appendChild(checkbox);
+    }
+  }
+
+  /**
+   * Watch the page for lazily loaded videos through the page's MutationDispatcher
+   */
+  private observeRenderers(): void {
+    const scan = debounce(() => this.addCheckboxes(), RENDERER_SCAN_DEBOUNCE_MS);
+    const removeRoute = this._dispatcher.addRoute({
+      getSelector: (): string => getSelectorCandidates(SELECTORS.videoRenderer).join(', '),
+      onAdded: (): void => scan(),
+    });
+    this._removeRendererRoute = (): void => {
+      removeRoute();
+      scan.cancel();
+    };
+  }
+
+  /**
+   * Update a video checkbox's checked state
+   */
+  private updateCheckbox(checkbox: HTMLElement, checked: boolean): void {
+    checkbox.classList.toggle('ype-video-checkbox--checked', checked);
+    checkbox.setAttribute('aria-checked', String(checked));
+    checkbox.textContent = checked ? '✓' : '';
+  }
+
+  /**
+   * Add or remove a video from the tray
+   */
+  private toggleVideo(videoId: string, title: string): void {
+    if (this._selected.has(videoId)) {
+      this._selected.delete(videoId);
+    } else {
+      this._selected.set(videoId, title);
+    }
+    this.renderTray();
+  }
+
+  /**
+   * Render the tray with the selection count, actions and last results
+   */
+  private renderTray(results: VideoSaveResult[] = []): void {
+    if (!this._tray) {
+      this._tray = document.createElement('div');
+      this._tray.className = 'ype-bulk-tray';
+      this._tray.setAttribute('role', 'region');
+      this._tray.setAttribute('aria-label', '批次儲存');
+      document.body.appendChild(this._tray);
+    }
+    const signal = this._abortController?.signal;
+    this._tray.replaceChildren();
+
+    const count = document.createElement('span');
+    count.className = 'ype-bulk-tray-count';
+    count.textContent = this._isRunning ? '正在批次儲存…' : `已選取 ${this._selected.size} 部影片`;
+
+    const pickButton = document.createElement('button');
+    pickButton.className = 'ype-btn ype-btn--save';
+    pickButton.textContent = '選擇播放清單';
+    pickButton.disabled = this._isRunning || this._selected.size === 0;
+    pickButton.addEventListener('click', () => void this.openPicker(), { signal });
+
+    const clearButton = document.createElement('button');
+    clearButton.className = 'ype-btn ype-btn--cancel';
+    clearButton.textContent = '清除';
+    clearButton.disabled = this._isRunning;
+    clearButton.addEventListener('click', () => this.clearSelection(), { signal });
+
+    const exitButton = document.createElement('button');
+    exitButton.className = 'ype-btn ype-btn--cancel';
+    exitButton.textContent = '結束';
+    exitButton.disabled = this._isRunning;
+    exitButton.addEventListener('click', () => this.setEnabled(false), { signal });
+
+    const actions = document.createElement('div');
+    actions.className = 'ype-actions';
+    actions.append(clearButton, exitButton, pickButton);
+    this._tray.append(count, actions);
+
+    if (results.length > 0) {
+      const list = document.createElement('ul');
+      list.className = 'ype-bulk-results';
+      for (const { videoId, title, result } of results) {
+        const failed = !result || result.failed.length > 0;
+        const row = document.createElement('li');
+        row.className = failed ? 'ype-bulk-result--failed' : 'ype-bulk-result--success';
+        const summary = result ? formatSaveSummary(result) || '不需變更' : '無法開啟儲存選單';
+        row.textContent = `${failed ? '✗' : '✓'} ${title || videoId}：${summary}`;
+        list.appendChild(row);
+      }
+      this._tray.appendChild(list);
+    }
+  }
+
+  /**
+   * Deselect all collected videos
+   */
+  private clearSelection(): void {
+    this._selected.clear();
+    document.querySelectorAll<HTMLElement>('.ype-video-checkbox').forEach((checkbox) => {
+      this.updateCheckbox(checkbox, false);
+    });
+    cancelBulkPicker();
+    this.renderTray();
+  }
+
+  /**
+   * Open the playlist picker for the collected videos
+   */
+  private async openPicker(): Promise<void> {
+    const [firstVideoId] = this._selected.keys();
+    if (!firstVideoId) return;
+
+    const opened = await openBulkPicker(firstVideoId, {
+      videoCount: this._selected.size,
+      onSave: (diff) => void this.applyToAll(diff),
+    });
+    if (!opened) {
+      showToast('無法開啟播放清單選單', 'error');
+    }
+  }
+
+  /**
+   * Apply the picked diff to every collected video, one after another
+   */
+  private async applyToAll(diff: SaveDiff): Promise<void> {
+    if (this._isRunning) return;
+    this._isRunning = true;
+    this.renderTray();
+
+    const videos = Array.from(this._selected);
+    const results: VideoSaveResult[] = [];
+    logger.info('Bulk save started', {
+      videos: videos.length,
+      added: diff.added.length,
+      removed: diff.removed.length,
+    });
+
+    try {
+      for (const [index, [videoId, title]] of videos.entries()) {
+        showProgressToast(`批次儲存 ${index + 1}/${videos.length}：${title || videoId}`);
+
+        let result: BatchSaveResult | null = null;
+        try {
+          result = await applyDiffToVideo(videoId, diff);
+        } catch (error) {
+          logger.error('Bulk save failed for video', {
+            videoId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        results.push({ videoId, title, result });
+
+        // Succeeded videos leave the tray so a retry only covers the failed ones
+        if (result && result.failed.length === 0) {
+          this._selected.delete(videoId);
+        }
+      }
+    } finally {
+      this._isRunning = false;
+    }
+
+    // One use of the added playlists per video that was saved without failures
+    const savedCount = results.filter(({ result }) => result && result.failed.length === 0).length;
+    void recordUsage(Array.from({ length: savedCount }, () => diff.added).flat());
+    document.querySelectorAll<HTMLElement>('.ype-video-checkbox').forEach((checkbox) => {
+      const renderer = checkbox.closest('.ype-bulk-target');
+      const videoId = renderer ? getRendererVideoId(renderer) : null;
+      this.updateCheckbox(checkbox, !!videoId && this._selected.has(videoId));
+    });
+    this.renderTray(results);
+
+    const failedCount = results.filter(({ result }) => !result || result.failed.length > 0).length;
+    if (failedCount > 0) {
+      showToast(`批次儲存完成：${failedCount}/${results.length} 部影片失敗，可重試`, 'error', 6000);
+    } else {
+      showToast(`已將變更套用到 ${results.length} 部影片`, 'success', 4000);
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.removeBulkUi();
+    this._isEnabled = false;
+    this._abortController?.abort();
+    this._abortController = null;
+    this._toggleButton?.remove();
+    this._toggleButton = null;
+  }
+}
+
+/**
+ * Set up bulk mode for the current page
+ * @param dispatcher The page's MutationDispatcher, used to spot lazily loaded videos
+ * @returns BulkModeManager instance, or null if the page has no video grid
+ */
+export function setupBulkMode(dispatcher: MutationDispatcher): BulkModeManager | null {
+  if (!BulkModeManager.isSupportedPage()) return null;
+  const manager = new BulkModeManager(dispatcher);
+  manager.initialize();
+  return manager;
+}
@@ -0,0 +1,157 @@
+/**
+ * Create Playlist Module
+ *
+ * Drives YouTube's own "New playlist" flow, so a playlist can be created
+ * straight from the search box without retyping its name
+ * - Opens the create dialog via the sheet's create button
+ * - Fills in the name and picks the privacy option
+ * - Submits; YouTube then adds the new playlist to the sheet
+ */
+
+import type { PlaylistPrivacy } from '../types';
+import {
+  SELECTORS,
+  CREATE_SUBMIT_PATTERNS,
+  PRIVACY_OPTION_LABELS,
+  findElement,
+  findAllElements,
+  getSelectorCandidates,
+} from './selectors';
+import { logger } from '../utils/logger';
+import { waitFor } from '../utils/debounce';
+
+/** Max time to wait for each step of the create dialog (ms) */
+const CREATE_STEP_TIMEOUT_MS = 3000;
+
+/**
+ * Labels shown for each privacy option in our UI
+ */
+export const PRIVACY_LABELS: Record<PlaylistPrivacy, string> = {
+  private: '私人',
+  unlisted: '不公開',
+  public: '公開',
+};
+
+/**
+ * Outcome of driving the create flow
+ * - 'created': submitted with the requested privacy
+ * - 'created-default-privacy': submitted, but the privacy option couldn't be picked
+ * - 'failed': the flow couldn't be completed
+ */
+export type CreatePlaylistResult = 'created' | 'created-default-privacy' | 'failed';
+
+/**
+ * Get the label of an option or button (first text line, else aria-label), lowercase
+ */
+function getLabel(element: Element): string {
+  const firstLine = (element.textContent || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line);
+  return (firstLine || element.getAttribute('aria-label') || '').toLowerCase();
+}
+
+/**
+ * Set an input's value the way typing would, so YouTube's form picks it up
+ */
+function fillInput(input: HTMLInputElement | HTMLTextAreaElement, value: string): void {
+  input.focus();
+  input.value = value;
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Pick a privacy option in the create dialog
+ * @returns Whether the option was found and clicked
+ */
+async function selectPrivacy(dialog: Element, privacy: PlaylistPrivacy): Promise<boolean> {
+  const trigger = findElement(dialog, SELECTORS.createPrivacyButton) as HTMLElement | null;
+  if (!trigger) return false;
+  trigger.click();
+
+  const labels = PRIVACY_OPTION_LABELS[privacy];
+  let option: HTMLElement | null = null;
+  await waitFor(() => {
+    for (const candidate of findAllElements(document, SELECTORS.createPrivacyOption)) {
+      if (labels.includes(getLabel(candidate))) {
+        option = candidate as HTMLElement;
+        return true;
+      }
+    }
+    return false;
+  }, CREATE_STEP_TIMEOUT_MS);
+
+  if (!option) return false;
+  (option as HTMLElement).click();
+  return true;
+}
+
+/**
+ * Find the enabled submit button of the create dialog
+ */
+function findSubmitButton(dialog: Element): HTMLButtonElement | null {
+  for (const button of dialog.querySelectorAll<HTMLButtonElement>('button')) {
+    const label = getLabel(button);
+    if (!button.disabled && CREATE_SUBMIT_PATTERNS.some((pattern) => label === pattern)) {
+      return button;
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a playlist through YouTube's create dialog
+ * @param sheet The save sheet holding the create button
+ * @param name Name of the new playlist
+ * @param privacy Privacy of the new playlist
+ */
+export async function createPlaylist(
+  sheet: Element,
+  name: string,
+  privacy: PlaylistPrivacy
+): Promise<CreatePlaylistResult> {
+  const createButton = (findElement(sheet, SELECTORS.createButton) ??
+    findElement(document, SELECTORS.createButton)) as HTMLElement | null;
+  if (!createButton) {
+    logger.selectorFailed('createButton', getSelectorCandidates(SELECTORS.createButton));
+    return 'failed';
+  }
+  createButton.click();
+
+  let dialog: Element | null = null;
+  let input: HTMLInputElement | HTMLTextAreaElement | null = null;
+  const opened = await waitFor(() => {
+    dialog = findElement(document, SELECTORS.createDialog);
+    input = dialog
+      ? (findElement(dialog, SELECTORS.createNameInput) as HTMLInputElement | null)
+      : null;
+    return !!input;
+  }, CREATE_STEP_TIMEOUT_MS);
+
+  if (!opened || !dialog || !input) {
+    logger.warn('Create playlist dialog did not open');
+    return 'failed';
+  }
+  fillInput(input, name);
+
+  const privacyApplied = await selectPrivacy(dialog, privacy);
+  if (!privacyApplied) {
+    logger.warn('Privacy option not found in create dialog', { privacy });
+  }
+
+  let submit: HTMLButtonElement | null = null;
+  await waitFor(() => {
+    submit = findSubmitButton(dialog as Element);
+    return !!submit;
+  }, CREATE_STEP_TIMEOUT_MS);
+
+  if (!submit) {
+    logger.warn('Create playlist submit button not found');
+    return 'failed';
+  }
+  (submit as HTMLButtonElement).click();
+
+  logger.info('Playlist create flow submitted', { privacy, privacyApplied });
+  return privacyApplied ? 'created' : 'created-default-privacy';
+}
@@ -0,0 +1,194 @@
+/**
+ * Playlist Sheet Detector
+ *
+ * Decides whether a sheet is the "Save to playlist" sheet from its structure,
+ * so detection works in every YouTube locale and survives wording changes:
+ * - A list of items (required; a sheet still loading its list is uncertain)
+ * - A toggle indicator in the items' trailing slot (bookmark icon, or the legacy checkbox)
+ * - The footer holding the "New playlist" button
+ * - No three-dot menu items (these rule the sheet out)
+ *
+ * The title patterns only break ties when the structure is inconclusive.
+ *
+ * YouTube Music's save dialog has its own element, so detectMusicSheet only checks
+ * that the sheet is that element and has loaded its list.
+ */
+
+import { SELECTORS, findAllElements, findElement, getPlaylistTitlePatterns } from './selectors';
+
+/** Score from which a sheet is a playlist sheet without looking at its title */
+const PLAYLIST_SCORE = 5;
+
+/** Score from which a sheet whose title doesn't settle it is still worth re-checking */
+const UNCERTAIN_SCORE = 4;
+
+/** Points per structural feature */
+const FEATURE_SCORES = {
+  list: 2,
+  toggleIndicators: 3,
+  createFooter: 2,
+} as const;
+
+/** Share of items that must carry a toggle indicator */
+const MIN_INDICATOR_SHARE = 0.5;
+
+/**
+ * Per-item toggle indicator: any icon in the trailing slot (the bookmark, even if redrawn),
+ * the legacy checkbox, or the legacy "playlist add" icon
+ */
+const TOGGLE_INDICATOR_SELECTOR =
+  '.yt-list-item-view-model__trailing svg, [role="checkbox"], [icon="yt-icons:playlist_add"]';
+
+/** Footer holding the "New playlist" button */
+const CREATE_FOOTER_SELECTOR = 'yt-panel-footer-view-model';
+
+/** Items of a video's three-dot menu */
+const MENU_ITEM_SELECTOR = 'ytd-menu-service-item-renderer';
+
+/** YouTube Music's save dialog, used for nothing else */
+const MUSIC_DIALOG_TAG = 'ytmusic-add-to-playlist-renderer';
+
+/**
+ * Detection outcome
+ * - 'playlist': Definitely a playlist sheet
+ * - 'not-playlist': Definitely NOT a playlist sheet
+ * - 'uncertain': Might still be loading, check again later
+ */
+export type SheetVerdict = 'playlist' | 'not-playlist' | 'uncertain';
+
+/**
+ * What decided the verdict
+ */
+export type SheetDetectionReason =
+  | 'context-menu'
+  | 'no-list'
+  | 'structure'
+  | 'title'
+  | 'weak-structure'
+  | 'no-playlist-features';
+
+/**
+ * Structural features found in a sheet
+ */
+export interface SheetFingerprint {
+  hasMenuItems: boolean;
+  hasList: boolean;
+  itemCount: number;
+  /** Items carrying a toggle indicator */
+  indicatorCount: number;
+  hasCreateFooter: boolean;
+  /** Title text (lowercase), or null if the sheet has no title */
+  titleText: string | null;
+  titleMatches: boolean;
+}
+
+/**
+ * Result of detectPlaylistSheet
+ */
+export interface SheetDetection {
+  verdict: SheetVerdict;
+  reason: SheetDetectionReason;
+  /** Structural score (the title is not part of it) */
+  score: number;
+  fingerprint: SheetFingerprint;
+}
+
+/**
+ * Collect the structural features of a sheet
+ */
+export function fingerprintSheet(sheet: Element): SheetFingerprint {
+  const items = Array.from(findAllElements(sheet, SELECTORS.listItem));
+  const titleElement = findElement(sheet, SELECTORS.title);
+  const titleText = titleElement ? (titleElement.textContent || '').toLowerCase().trim() : null;
+
+  return {
+    hasMenuItems: !!sheet.querySelector(MENU_ITEM_SELECTOR),
+    hasList: items.length > 0 || !!findElement(sheet, SELECTORS.listContainer),
+    itemCount: items.length,
+    indicatorCount: items.filter((item) => item.querySelector(TOGGLE_INDICATOR_SELECTOR)).length,
+    hasCreateFooter: !!sheet.querySelector(CREATE_FOOTER_SELECTOR),
+    titleText,
+    titleMatches:
+      titleText !== null &&
+      getPlaylistTitlePatterns().some((pattern) => titleText.includes(pattern.toLowerCase())),
+  };
+}
+
+/**
+ * Score the structural features of a sheet
+ */
+export function scoreFingerprint(fingerprint: SheetFingerprint): number {
+  let score = 0;
+  if (fingerprint.hasList) {
+    score += FEATURE_SCORES.list;
+  }
+  if (
+    fingerprint.itemCount > 0 &&
+    fingerprint.indicatorCount / fingerprint.itemCount >= MIN_INDICATOR_SHARE
+  ) {
+    score += FEATURE_SCORES.toggleIndicators;
+  }
+  if (fingerprint.hasCreateFooter) {
+    score += FEATURE_SCORES.createFooter;
+  }
+  return score;
+}
+
+/**
+ * Build a detection result from a fingerprint
+ */
+function toDetection(
+  fingerprint: SheetFingerprint,
+  verdict: SheetVerdict,
+  reason: SheetDetectionReason
+): SheetDetection {
+  return { verdict, reason, score: scoreFingerprint(fingerprint), fingerprint };
+}
+
+/**
+ * Decide whether a sheet is the playlist save sheet
+ */
+export function detectPlaylistSheet(sheet: Element): SheetDetection {
+  const fingerprint = fingerprintSheet(sheet);
+  const score = scoreFingerprint(fingerprint);
+  const result = (verdict: SheetVerdict, reason: SheetDetectionReason): SheetDetection =>
+    toDetection(fingerprint, verdict, reason);
+
+  // Three-dot menus are ruled out whatever else they contain
+  if (fingerprint.hasMenuItems) return result('not-playlist', 'context-menu');
+
+  // No list yet - DOM might still be loading
+  if (!fingerprint.hasList) return result('uncertain', 'no-list');
+
+  if (score >= PLAYLIST_SCORE) return result('playlist', 'structure');
+
+  // Tiebreaker: a known title settles an inconclusive structure
+  if (fingerprint.titleMatches) return result('playlist', 'title');
+
+  // Items or the footer may still be rendering
+  if (fingerprint.itemCount === 0 || score >= UNCERTAIN_SCORE) {
+    return result('uncertain', 'weak-structure');
+  }
+
+  return result('not-playlist', 'no-playlist-features');
+}
+
+/**
+ * Decide whether a YouTube Music sheet is the save dialog
+ * The dialog element is unique to it; other dialogs only pass with a known title
+ */
+export function detectMusicSheet(sheet: Element): SheetDetection {
+  const fingerprint = fingerprintSheet(sheet);
+  const result = (verdict: SheetVerdict, reason: SheetDetectionReason): SheetDetection =>
+    toDetection(fingerprint, verdict, reason);
+
+  const isSaveDialog = sheet.matches(MUSIC_DIALOG_TAG) || !!sheet.querySelector(MUSIC_DIALOG_TAG);
+  if (!isSaveDialog && !fingerprint.titleMatches) {
+    return result('not-playlist', 'no-playlist-features');
+  }
+
+  // The dialog is rendered before its playlists are loaded
+  if (fingerprint.itemCount === 0) return result('uncertain', 'no-list');
+
+  return result('playlist', isSaveDialog ? 'structure' : 'title');
+}
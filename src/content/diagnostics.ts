@@ -0,0 +1,417 @@
+/**
+ * Diagnostics Panel Module
+ *
+ * Shows why the extension did (or didn't) enhance a sheet, for when YouTube's DOM changes
+ * - Which candidate each selector lookup matched (see getSelectorHealth)
+ * - Outcomes of the sheet checks (quickPreCheck / checkPlaylistSheet)
+ * - Cost of the DOM mutation processing (see MutationDispatcher)
+ * - Opened with Alt+Shift+D; the report can be copied for bug reports
+ *
+ * The copied report leaves out everything personal: no URLs, sheet titles,
+ * playlist names or user-entered selectors, only names and counts.
+ */
+
+import type { SelectorHealth, SelectorMatch, SelectorName } from '../types';
+import { EXTENSION_VERSION } from '../types';
+import type { SheetDetection, SheetDetectionReason, SheetFingerprint } from './detector';
+import type { MutationStats } from './mutations';
+import { SELECTOR_LABELS, getSelectorHealth, resetSelectorHealth } from './selectors';
+import { CURRENT_SITE } from './site';
+import { showToast } from './toast';
+import { logger } from '../utils/logger';
+import { loadSelectorOverrides } from '../utils/selector-overrides';
+
+/** Number of sheet check outcomes kept for the panel */
+const MAX_SHEET_CHECKS = 20;
+
+/** Longest sheet title shown in the panel */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Sheet check functions whose outcomes are recorded
+ */
+export type SheetCheckName = 'quickPreCheck' | 'checkPlaylistSheet';
+
+const DETECTION_REASON_LABELS: Record<SheetDetectionReason, string> = {
+  'context-menu': '三點選單',
+  'no-list': '沒有清單結構',
+  structure: '結構相符',
+  title: '標題相符',
+  'weak-structure': '結構特徵不足，稍後再判斷',
+  'no-playlist-features': '沒有播放清單特徵',
+};
+
+/**
+ * One recorded sheet check outcome
+ */
+interface SheetCheckRecord {
+  check: SheetCheckName;
+  /** The function's result ('playlist', 'uncertain', 'true', …) */
+  result: string;
+  reason: SheetDetectionReason;
+  score: number;
+  fingerprint: SheetFingerprint;
+  timestamp: number;
+}
+
+/** Latest sheet check outcomes, newest last */
+const sheetChecks: SheetCheckRecord[] = [];
+
+/**
+ * Record the outcome of a sheet check
+ */
+export function recordSheetCheck(
+  check: SheetCheckName,
+  result: string,
+  detection: SheetDetection
+): void {
+  sheetChecks.push({
+    check,
+    result,
+    reason: detection.reason,
+    score: detection.score,
+    fingerprint: detection.fingerprint,
+    timestamp: Date.now(),
+  });
+  if (sheetChecks.length > MAX_SHEET_CHECKS) {
+    sheetChecks.shift();
+  }
+}
+
+/**
+ * Describe a lookup outcome, e.g. "備援 #2"
+ */
+function formatMatch(match: SelectorMatch): string {
+  switch (match.source) {
+    case 'primary':
+      return '主要';
+    case 'fallback':
+      return `備援 #${match.index + 1}`;
+    case 'override':
+      return `自訂 #${match.index + 1}`;
+    case 'none':
+      return '找不到';
+  }
+}
+
+/**
+ * Describe a lookup outcome for the report, e.g. "fallback#2"
+ */
+function formatMatchCode(match: SelectorMatch): string {
+  return match.source === 'fallback' || match.source === 'override'
+    ? `${match.source}#${match.index + 1}`
+    : match.source;
+}
+
+/**
+ * A selector is failing when none of its lookups matched anything
+ */
+function isFailing(health: SelectorHealth): boolean {
+  return health.none === health.lookups;
+}
+
+/**
+ * Describe a sheet check for the report: structure only, never the title text
+ */
+function formatFingerprint({ reason, score, fingerprint }: SheetCheckRecord): string {
+  return [
+    reason,
+    `score ${score}`,
+    `items ${fingerprint.indicatorCount}/${fingerprint.itemCount}`,
+    `list ${fingerprint.hasList}`,
+    `footer ${fingerprint.hasCreateFooter}`,
+    `menu ${fingerprint.hasMenuItems}`,
+    `title ${fingerprint.titleText === null ? 'none' : fingerprint.titleMatches ? 'match' : 'other'}`,
+  ].join(', ');
+}
+
+/**
+ * Format a time of day for the panel and report
+ */
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toTimeString().slice(0, 8);
+}
+
+/**
+ * Options for the diagnostics panel
+ */
+export interface DiagnosticsOptions {
+  /** Type of the current page, included in the report instead of the URL */
+  getPageType: () => string;
+  /** Cost of the mutation processing so far */
+  getMutationStats: () => MutationStats;
+}
+
+/**
+ * Manages the diagnostics overlay
+ */
+export class DiagnosticsManager {
+  private _panel: HTMLElement | null = null;
+  private _options: DiagnosticsOptions;
+  // AbortController for reliable event listener cleanup
+  private _abortController: AbortController | null = null;
+
+  constructor(options: DiagnosticsOptions) {
+    this._options = options;
+  }
+
+  /**
+   * Listen for the hotkey
+   */
+  initialize(): void {
+    this._abortController = new AbortController();
+    window.addEventListener('keydown', (e) => this.handleKeydown(e), {
+      capture: true,
+      signal: this._abortController.signal,
+    });
+    logger.debug('DiagnosticsManager initialized');
+  }
+
+  /**
+   * Alt+Shift+D toggles the panel; Escape inside it closes it
+   * Uses e.code since Alt changes e.key on macOS
+   */
+  private handleKeydown(e: KeyboardEvent): void {
+    if (e.altKey && e.shiftKey && !e.ctrlKey && !e.metaKey && e.code === 'KeyD') {
+      e.preventDefault();
+      e.stopPropagation();
+      this.toggle();
+      return;
+    }
+
+    if (e.key === 'Escape' && this._panel?.contains(document.activeElement)) {
+      e.preventDefault();
+      e.stopPropagation();
+      e.stopImmediatePropagation();
+      this.close();
+    }
+  }
+
+  /**
+   * Open the panel, or close it if open
+   */
+  toggle(): void {
+    if (this._panel) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Open the panel showing the current results
+   */
+  open(): void {
+    if (this._panel) return;
+
+    this._panel = document.createElement('div');
+    this._panel.className = 'ype-diagnostics';
+    this._panel.setAttribute('role', 'dialog');
+    this._panel.setAttribute('aria-label', '選擇器診斷');
+    document.body.appendChild(this._panel);
+    this.render();
+    this._panel.querySelector<HTMLButtonElement>('.ype-diagnostics-copy')?.focus();
+  }
+
+  /**
+   * Close the panel
+   */
+  close(): void {
+    this._panel?.remove();
+    this._panel = null;
+  }
+
+  /**
+   * Rebuild the panel content
+   */
+  private render(): void {
+    const panel = this._panel;
+    if (!panel) return;
+    panel.replaceChildren();
+
+    const header = document.createElement('div');
+    header.className = 'ype-diagnostics-header';
+    const title = document.createElement('strong');
+    title.textContent = `選擇器診斷（v${EXTENSION_VERSION}）`;
+    header.append(
+      title,
+      this.createButton('複製報告', 'ype-diagnostics-copy', () => void this.copyReport()),
+      this.createButton('重新整理', 'ype-diagnostics-refresh', () => this.render()),
+      this.createButton('清除紀錄', 'ype-diagnostics-reset', () => {
+        resetSelectorHealth();
+        sheetChecks.length = 0;
+        this.render();
+      }),
+      this.createButton('關閉', 'ype-diagnostics-close', () => this.close())
+    );
+    const { batches, mutations, totalMs, maxMs } = this._options.getMutationStats();
+    const cost = document.createElement('p');
+    cost.className = 'ype-diagnostics-cost';
+    cost.textContent = `DOM 監聽：${batches} 批次、${mutations} 筆變動，共 ${totalMs.toFixed(1)} ms，最長 ${maxMs.toFixed(1)} ms`;
+
+    panel.append(header, cost, this.renderSelectorTable(), this.renderSheetChecks());
+  }
+
+  /**
+   * Create a panel button
+   */
+  private createButton(label: string, className: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `ype-diagnostics-button ${className}`;
+    button.textContent = label;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  /**
+   * Table of lookup outcomes per selector, failing selectors highlighted
+   */
+  private renderSelectorTable(): HTMLElement {
+    const health = getSelectorHealth();
+    const table = document.createElement('table');
+    table.className = 'ype-diagnostics-table';
+
+    const headRow = table.createTHead().insertRow();
+    for (const heading of ['選擇器', '查詢', '主要', '備援', '自訂', '找不到', '最近']) {
+      const cell = document.createElement('th');
+      cell.textContent = heading;
+      headRow.appendChild(cell);
+    }
+
+    const body = table.createTBody();
+    for (const name of Object.keys(SELECTOR_LABELS) as SelectorName[]) {
+      const row = body.insertRow();
+      const entry = health.get(name);
+      const cells = entry
+        ? [
+            entry.lookups,
+            entry.primary,
+            entry.fallback.join(' / '),
+            entry.override,
+            entry.none,
+            formatMatch(entry.last),
+          ]
+        : ['0', '', '', '', '', '尚未使用'];
+
+      const nameCell = row.insertCell();
+      nameCell.textContent = SELECTOR_LABELS[name];
+      nameCell.title = name;
+      for (const value of cells) {
+        row.insertCell().textContent = String(value);
+      }
+      if (entry && isFailing(entry)) {
+        row.classList.add('ype-diagnostics-row--failing');
+      }
+    }
+    return table;
+  }
+
+  /**
+   * List of the latest sheet check outcomes, newest first
+   */
+  private renderSheetChecks(): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'ype-diagnostics-checks';
+    const heading = document.createElement('strong');
+    heading.textContent = '儲存選單判斷';
+    section.appendChild(heading);
+
+    if (sheetChecks.length === 0) {
+      const empty = document.createElement('p');
+      empty.textContent = '尚未偵測到任何選單，請開啟一次「儲存」選單後重新整理';
+      section.appendChild(empty);
+      return section;
+    }
+
+    const list = document.createElement('ol');
+    for (const record of [...sheetChecks].reverse()) {
+      const item = document.createElement('li');
+      const { fingerprint } = record;
+      const title =
+        fingerprint.titleText === null
+          ? ''
+          : `「${fingerprint.titleText.slice(0, MAX_TITLE_LENGTH)}」`;
+      item.textContent = `${formatTime(record.timestamp)} ${record.check} → ${record.result}（${
+        DETECTION_REASON_LABELS[record.reason]
+      }，分數 ${record.score}，${fingerprint.indicatorCount}/${fingerprint.itemCount} 個項目有圖示${
+        fingerprint.hasCreateFooter ? '，有新增按鈕列' : ''
+      }）${title}`;
+      list.appendChild(item);
+    }
+    section.appendChild(list);
+    return section;
+  }
+
+  /**
+   * Build the plain-text report: names, counts and outcomes only
+   */
+  private async buildReport(): Promise<string> {
+    const overrides = (await loadSelectorOverrides())[CURRENT_SITE];
+    const { batches, mutations, totalMs, maxMs } = this._options.getMutationStats();
+    const lines = [
+      'YouTube Playlist Enhancer 診斷報告',
+      `version: ${EXTENSION_VERSION}`,
+      `site: ${CURRENT_SITE}`,
+      `page: ${this._options.getPageType()}`,
+      `language: ${document.documentElement.lang || 'unknown'}`,
+      `userAgent: ${navigator.userAgent}`,
+      `overrides: ${Object.keys(overrides.selectors).join(', ') || 'none'}; title patterns: ${
+        overrides.titlePatterns.length
+      }`,
+      `mutations: ${batches} batches, ${mutations} records, ${totalMs.toFixed(1)} ms total, ${maxMs.toFixed(1)} ms max`,
+      '',
+      'selectors (lookups / primary / fallback / override / none / last):',
+    ];
+
+    for (const [name, entry] of getSelectorHealth()) {
+      lines.push(
+        `- ${name}: ${entry.lookups} / ${entry.primary} / [${entry.fallback.join(', ')}] / ${
+          entry.override
+        } / ${entry.none} / ${formatMatchCode(entry.last)}${isFailing(entry) ? ' FAILING' : ''}`
+      );
+    }
+
+    lines.push('', 'sheet checks (oldest first):');
+    for (const record of sheetChecks) {
+      lines.push(
+        `- ${formatTime(record.timestamp)} ${record.check}: ${record.result} (${formatFingerprint(record)})`
+      );
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Copy the report to the clipboard
+   */
+  private async copyReport(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(await this.buildReport());
+      showToast('已複製診斷報告', 'success');
+    } catch (error) {
+      logger.warn('Failed to copy diagnostics report', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      showToast('無法複製診斷報告', 'error');
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.close();
+    this._abortController?.abort();
+    this._abortController = null;
+  }
+}
+
+/**
+ * Set up the diagnostics hotkey for this page
+ * @returns DiagnosticsManager instance
+ */
+export function setupDiagnostics(options: DiagnosticsOptions): DiagnosticsManager {
+  const manager = new DiagnosticsManager(options);
+  manager.initialize();
+  return manager;
+}
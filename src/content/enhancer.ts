@@ -6,11 +6,33 @@
  * - T031: Integrate search (Phase 4)
  * - T032: Ensure search works with multiselect
  * - T039: Graceful degradation on selector failure
+ * - Undo of the last batch save per video
+ * - Bulk mode: one picker whose diff is applied to several videos
+ * - Resuming a save that a page teardown cut off
  */
 
-import { setupMultiSelect, SelectionManager } from './multiselect';
+import type { BatchSaveResult, SaveDiff } from '../types';
+import {
+  setupMultiSelect,
+  SelectionManager,
+  formatSaveSummary,
+  type BulkPickerOptions,
+} from './multiselect';
 import { setupSearch, SearchManager } from './search';
+import { setupKeyboard, KeyboardManager } from './keyboard';
+import { setupPresets, PresetManager } from './presets';
+import { clearLastSave, getLastSave, invertDiff } from './history';
+import { getCurrentVideoId, extractVideoId, openSaveSheet } from './video';
+import { finishPendingSave, getInterruptedSave, getRemainingDiff } from './queue';
+import { showToast } from './toast';
 import { logger } from '../utils/logger';
+import { waitFor } from '../utils/debounce';
+
+/** Max time to wait for a reopened save sheet to be enhanced (ms) */
+const REOPEN_SHEET_TIMEOUT_MS = 5000;
+
+/** How long the "Resume" action for an interrupted save stays available (ms) */
+const RESUME_TOAST_DURATION_MS = 10000;
 
 /** Current active selection manager */
 let currentSelectionManager: SelectionManager | null = null;
@@ -18,6 +40,18 @@ let currentSelectionManager: SelectionManager | null = null;
 /** Current active search manager */
 let currentSearchManager: SearchManager | null = null;
 
+/** Current active keyboard navigation manager */
+let currentKeyboardManager: KeyboardManager | null = null;
+
+/** Current active preset bar manager */
+let currentPresetManager: PresetManager | null = null;
+
+/** Bulk picker waiting for its save sheet, with the video it was opened for */
+let pendingBulkPicker: (BulkPickerOptions & { videoId: string }) | null = null;
+
+/** Video whose interrupted save was last offered, so one page visit offers it once */
+let resumeOfferedFor: string | null = null;
+
 /** AbortController for global interceptors - allows cleanup */
 let globalInterceptorController: AbortController | null = null;
 
@@ -60,6 +94,17 @@ function installGlobalClickInterceptor(): void {
   const keyboardInterceptor = (e: KeyboardEvent) => {
     // Only intercept Escape when our enhanced sheet is open
     if (e.key === 'Escape') {
+      // Escape while naming a preset or editing tags only cancels that
+      const activeElement = document.activeElement as HTMLElement | null;
+      if (activeElement?.closest('.ype-preset-bar, .ype-tag-menu')) {
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        activeElement.blur();
+        logger.debug('Intercepted Escape - cancelled preset input or tag menu');
+        return;
+      }
+
       const searchInput = document.querySelector('.ype-search-input') as HTMLInputElement;
       const isEnhancedSheetOpen = !!searchInput; // If search input exists, sheet is open
 
@@ -132,17 +177,28 @@ export function enhanceSheet(sheet: Element): void {
     // Install global click interceptor (only once)
     installGlobalClickInterceptor();
 
+    // A playlist creation started from the search box survives re-enhancement
+    const pendingCreate = currentSelectionManager?.takePendingCreate() ?? undefined;
+
     // Clean up any previous managers
     cleanup();
 
     // Remove any existing checkboxes from previous enhancement
     // This ensures fresh state when re-enhancing after new playlist creation
-    sheet.querySelectorAll('.ype-checkbox').forEach((checkbox) => checkbox.remove());
+    sheet
+      .querySelectorAll('.ype-checkbox, .ype-change-badge, .ype-playlist-meta, .ype-tag-button')
+      .forEach((element) => element.remove());
 
     // Set up multiselect (User Story 1)
     // T039: Wrapped in try-catch for graceful degradation
     try {
-      currentSelectionManager = setupMultiSelect(sheet);
+      currentSelectionManager = setupMultiSelect(sheet, {
+        onUndo: (videoId) => void undoLastSave(videoId),
+        bulk: getBulkPickerFor(getCurrentVideoId()),
+        pendingCreate,
+        // A #tag search depends on the tags just loaded or edited
+        onTagsChange: () => currentSearchManager?.filterPlaylists(),
+      });
     } catch (multiselectError) {
       logger.error('Multiselect setup failed - falling back to YouTube default', {
         error: multiselectError instanceof Error ? multiselectError.message : String(multiselectError),
@@ -154,7 +210,17 @@ export function enhanceSheet(sheet: Element): void {
     // T039: Only set up search if we have items to search
     if (currentSelectionManager && currentSelectionManager.items.size > 0) {
       try {
-        currentSearchManager = setupSearch(sheet, currentSelectionManager.items);
+        currentSearchManager = setupSearch(sheet, currentSelectionManager.items, {
+          // A Shift-click range across a changed filter would surprise the user
+          onFilterChange: () => {
+            currentSelectionManager?.resetRangeAnchor();
+            currentKeyboardManager?.handleFilterChange();
+          },
+          onCreatePlaylist: (name, privacy) =>
+            void currentSelectionManager?.createAndSelectPlaylist(name, privacy),
+          onSortChange: (mode) => currentSelectionManager?.setSortMode(mode),
+          onRankingChange: (scores) => currentSelectionManager?.setRanking(scores),
+        });
       } catch (searchError) {
         logger.error('Search setup failed - multiselect still functional', {
           error: searchError instanceof Error ? searchError.message : String(searchError),
@@ -163,9 +229,42 @@ export function enhanceSheet(sheet: Element): void {
       }
     }
 
+    // Set up preset bar (after search so it sits between the search box and the list)
+    // Presets select several playlists, which needs multi-select
+    if (
+      currentSelectionManager &&
+      currentSelectionManager.isMultiSelect &&
+      currentSelectionManager.items.size > 0
+    ) {
+      try {
+        currentPresetManager = setupPresets(sheet, currentSelectionManager);
+      } catch (presetError) {
+        logger.error('Preset setup failed - multiselect still functional', {
+          error: presetError instanceof Error ? presetError.message : String(presetError),
+        });
+      }
+    }
+
+    // Set up keyboard navigation on top of multiselect (and search, if available)
+    if (currentSelectionManager && currentSelectionManager.items.size > 0) {
+      try {
+        currentKeyboardManager = setupKeyboard(
+          sheet,
+          currentSelectionManager,
+          currentSearchManager
+        );
+      } catch (keyboardError) {
+        logger.error('Keyboard navigation setup failed - mouse interaction still functional', {
+          error: keyboardError instanceof Error ? keyboardError.message : String(keyboardError),
+        });
+      }
+    }
+
     const features = [];
     if (currentSelectionManager) features.push('multiselect');
     if (currentSearchManager) features.push('search');
+    if (currentPresetManager) features.push('presets');
+    if (currentKeyboardManager) features.push('keyboard');
 
     if (features.length > 0) {
       logger.info('Sheet enhanced successfully', { features });
@@ -181,6 +280,180 @@ export function enhanceSheet(sheet: Element): void {
   }
 }
 
+/**
+ * Get an open, enhanced save sheet for a video, reopening it if needed
+ * @returns The sheet's selection manager, or null if it couldn't be opened
+ */
+async function getSelectionManagerForVideo(videoId: string): Promise<SelectionManager | null> {
+  const isReady = (): boolean =>
+    !!currentSelectionManager &&
+    currentSelectionManager.videoId === videoId &&
+    // A bulk picker doesn't reflect the video's own playlists
+    !currentSelectionManager.isBulkPicker &&
+    currentSelectionManager.isOpen &&
+    currentSelectionManager.items.size > 0;
+
+  if (isReady()) return currentSelectionManager;
+
+  if (!(await openSaveSheet(videoId))) return null;
+
+  // The observer enhances the reopened sheet and replaces currentSelectionManager
+  if (!(await waitFor(isReady, REOPEN_SHEET_TIMEOUT_MS))) return null;
+  return currentSelectionManager;
+}
+
+/**
+ * Get the bulk picker options for a sheet opened for a video, if bulk mode opened it
+ */
+function getBulkPickerFor(videoId: string | null): BulkPickerOptions | undefined {
+  if (!pendingBulkPicker || pendingBulkPicker.videoId !== videoId) return undefined;
+
+  const { videoCount, onSave } = pendingBulkPicker;
+  return {
+    videoCount,
+    onSave: (diff): void => {
+      pendingBulkPicker = null;
+      onSave(diff);
+    },
+  };
+}
+
+/**
+ * Open the playlist picker for bulk mode
+ * The save sheet of the first video is used; its Save hands the diff to onSave
+ * instead of applying it
+ * @param videoId Video whose save sheet is used as the picker
+ * @returns Whether the save sheet could be opened
+ */
+export async function openBulkPicker(
+  videoId: string,
+  options: BulkPickerOptions
+): Promise<boolean> {
+  pendingBulkPicker = { ...options, videoId };
+  const opened = await openSaveSheet(videoId);
+  if (!opened) {
+    pendingBulkPicker = null;
+  }
+  return opened;
+}
+
+/**
+ * Forget a bulk picker that was opened but not saved
+ */
+export function cancelBulkPicker(): void {
+  pendingBulkPicker = null;
+}
+
+/**
+ * Apply a diff to one video's playlists through its save sheet
+ * @returns The save result, or null if the save sheet couldn't be opened
+ */
+export async function applyDiffToVideo(
+  videoId: string,
+  diff: SaveDiff
+): Promise<BatchSaveResult | null> {
+  const manager = await getSelectionManagerForVideo(videoId);
+  if (!manager) {
+    logger.warn('Could not open save sheet to apply diff', { videoId });
+    return null;
+  }
+
+  const result = await manager.applyChanges(diff);
+  manager.close();
+  return result;
+}
+
+/**
+ * Undo the last batch save of a video by applying the opposite diff
+ * Reopens the save sheet for that video when it has been closed
+ */
+export async function undoLastSave(videoId: string): Promise<void> {
+  const diff = getLastSave(videoId);
+  if (!diff) {
+    showToast('沒有可復原的變更', 'info');
+    return;
+  }
+
+  const manager = await getSelectionManagerForVideo(videoId);
+  if (!manager) {
+    logger.warn('Undo failed - could not open save sheet', { videoId });
+    showToast('無法開啟儲存選單，請手動復原', 'error');
+    return;
+  }
+
+  try {
+    const result = await manager.applyChanges(invertDiff(diff));
+
+    if (result.failed.length > 0) {
+      showToast(`部分復原失敗：${formatSaveSummary(result)}`, 'error', 6000);
+      return;
+    }
+
+    clearLastSave(videoId);
+    showToast(`已復原：${formatSaveSummary(result)}`, 'success');
+    manager.close();
+  } catch (error) {
+    logger.error('Undo failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    showToast('復原失敗，請重試', 'error');
+  }
+}
+
+/**
+ * Offer to resume an interrupted save of the video on the current page
+ * Called when a video page is opened; the save sheet is only opened if the user accepts
+ */
+export async function offerInterruptedSave(): Promise<void> {
+  const videoId = extractVideoId(window.location.href);
+  if (videoId === resumeOfferedFor) return;
+  resumeOfferedFor = videoId;
+  if (!videoId) return;
+
+  const pending = await getInterruptedSave(videoId);
+  if (!pending) return;
+
+  const remaining = getRemainingDiff(pending);
+  const total = pending.toAdd.length + pending.toRemove.length;
+  const remainingCount = remaining.added.length + remaining.removed.length;
+
+  if (remainingCount === 0) {
+    void finishPendingSave(videoId);
+    return;
+  }
+
+  logger.info('Interrupted save found', { videoId, remainingCount, total });
+  showToast(
+    `上次的儲存未完成（已完成 ${total - remainingCount}/${total}）`,
+    'warning',
+    RESUME_TOAST_DURATION_MS,
+    { label: '繼續', onClick: () => void resumeInterruptedSave(videoId, remaining) }
+  );
+}
+
+/**
+ * Finish the remaining part of an interrupted save through the video's save sheet
+ */
+async function resumeInterruptedSave(videoId: string, remaining: SaveDiff): Promise<void> {
+  try {
+    const result = await applyDiffToVideo(videoId, remaining);
+    if (!result) {
+      showToast('無法開啟儲存選單，請手動完成', 'error');
+      return;
+    }
+    showToast(
+      `已完成未完成的儲存：${formatSaveSummary(result) || '沒有需要變更的清單'}`,
+      result.failed.length > 0 ? 'error' : 'success',
+      result.failed.length > 0 ? 6000 : 4000
+    );
+  } catch (error) {
+    logger.error('Resume failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    showToast('繼續儲存失敗，請重試', 'error');
+  }
+}
+
 /**
  * Clean up current enhancement
  * Removes all event listeners and UI elements
@@ -195,12 +468,21 @@ export function cleanup(): void {
   }
 
   // Clean up managers
+  if (currentPresetManager) {
+    currentPresetManager.destroy();
+    currentPresetManager = null;
+  }
+  if (currentKeyboardManager) {
+    currentKeyboardManager.destroy();
+    currentKeyboardManager = null;
+  }
   if (currentSearchManager) {
     currentSearchManager.destroy();
     currentSearchManager = null;
   }
   if (currentSelectionManager) {
-    currentSelectionManager.destroy();
+    // A running batch save keeps going in the background and cleans up after itself
+    currentSelectionManager.destroyAfterSave();
     currentSelectionManager = null;
   }
 }
@@ -0,0 +1,119 @@
+/**
+ * Search Highlight Module
+ *
+ * Highlights the matched characters of each playlist name
+ * Uses the CSS Custom Highlight API, so YouTube's markup is never modified:
+ * ranges over the existing text nodes are registered and styled via ::highlight()
+ */
+
+import { logger } from '../utils/logger';
+
+/** Name of the highlight, styled as ::highlight(ype-search-match) */
+const HIGHLIGHT_NAME = 'ype-search-match';
+
+/**
+ * Matched characters of one item's name
+ */
+export interface HighlightTarget {
+  element: Element;
+  /** Playlist name as extracted from the item */
+  name: string;
+  /** Indices of the matched characters in the name */
+  indices: number[];
+}
+
+/**
+ * Check whether the browser supports the CSS Custom Highlight API
+ */
+function isSupported(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+}
+
+/**
+ * Collect the item's text nodes, ignoring our own injected UI
+ */
+function getTextNodes(element: Element): Text[] {
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.parentElement?.closest('[class*="ype-"]')) {
+      nodes.push(node as Text);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Group sorted indices into runs of consecutive indices ([start, end) pairs)
+ */
+function toRuns(indices: number[]): Array<[number, number]> {
+  const runs: Array<[number, number]> = [];
+  for (const index of indices) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === index) {
+      last[1] = index + 1;
+    } else {
+      runs.push([index, index + 1]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Build ranges covering the matched characters of an item's name
+ * The name is located in the item's text, then each run is mapped onto the text nodes
+ */
+function buildRanges({ element, name, indices }: HighlightTarget): Range[] {
+  const nodes = getTextNodes(element);
+  const text = nodes.map((node) => node.data).join('');
+  const nameOffset = text.indexOf(name);
+  if (nameOffset === -1 || indices.length === 0) return [];
+
+  const ranges: Range[] = [];
+  for (const [start, end] of toRuns(indices)) {
+    let runStart = nameOffset + start;
+    const runEnd = nameOffset + end;
+    let nodeOffset = 0;
+
+    // A run may span several text nodes; add one range per node it touches
+    for (const node of nodes) {
+      const nodeEnd = nodeOffset + node.length;
+      if (runStart < nodeEnd && runEnd > nodeOffset) {
+        const range = document.createRange();
+        range.setStart(node, runStart - nodeOffset);
+        range.setEnd(node, Math.min(runEnd, nodeEnd) - nodeOffset);
+        ranges.push(range);
+        runStart = Math.min(runEnd, nodeEnd);
+      }
+      nodeOffset = nodeEnd;
+      if (nodeOffset >= runEnd) break;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Highlight the matched characters of the given items, replacing any previous highlight
+ */
+export function setSearchHighlights(targets: HighlightTarget[]): void {
+  if (!isSupported()) {
+    logger.debug('CSS Custom Highlight API unavailable; matches not highlighted');
+    return;
+  }
+
+  const ranges = targets.flatMap(buildRanges);
+  if (ranges.length === 0) {
+    CSS.highlights.delete(HIGHLIGHT_NAME);
+    return;
+  }
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges));
+}
+
+/**
+ * Remove all search highlights
+ */
+export function clearSearchHighlights(): void {
+  if (isSupported()) {
+    CSS.highlights.delete(HIGHLIGHT_NAME);
+  }
+}
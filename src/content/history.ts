@@ -0,0 +1,65 @@
+/**
+ * Save History Module
+ *
+ * Keeps the last add/remove diff applied to each video so it can be undone
+ * after the save sheet has closed. History lives for the lifetime of the tab.
+ */
+
+import type { PlaylistItem, PlaylistRef, SaveDiff } from '../types';
+
+/** Last saved diff per video ID */
+const lastSaves = new Map<string, SaveDiff>();
+
+/**
+ * Create a persistent reference to a playlist item
+ */
+export function toPlaylistRef(item: PlaylistItem): PlaylistRef {
+  return item.id ? { id: item.id, name: item.name } : { name: item.name };
+}
+
+/**
+ * Check whether a playlist item is the playlist a reference points to
+ * IDs are compared when both sides have one, names otherwise
+ */
+export function matchesRef(item: PlaylistItem, ref: PlaylistRef): boolean {
+  if (item.id && ref.id) {
+    return item.id === ref.id;
+  }
+  return item.name === ref.name;
+}
+
+/**
+ * Build the diff that reverts a previously applied diff
+ */
+export function invertDiff(diff: SaveDiff): SaveDiff {
+  return { added: diff.removed, removed: diff.added };
+}
+
+/**
+ * Remember the last diff applied to a video
+ */
+export function recordSave(videoId: string, diff: SaveDiff): void {
+  lastSaves.set(videoId, diff);
+}
+
+/**
+ * Get the last diff applied to a video
+ */
+export function getLastSave(videoId: string): SaveDiff | null {
+  return lastSaves.get(videoId) ?? null;
+}
+
+/**
+ * Forget the last diff of a video (after it has been undone)
+ */
+export function clearLastSave(videoId: string): void {
+  lastSaves.delete(videoId);
+}
+
+/**
+ * Get a stable storage key for a playlist reference
+ * IDs are preferred; names are only used when no ID is known
+ */
+export function getRefKey(ref: PlaylistRef): string {
+  return ref.id ? `id:${ref.id}` : `name:${ref.name}`;
+}
@@ -14,9 +14,20 @@ import {
   observeNavigation,
   detectPageType,
 } from './observer';
-import { enhanceSheet, cleanup } from './enhancer';
+import { enhanceSheet, cleanup, offerInterruptedSave } from './enhancer';
+import { trackVideoContext } from './video';
+import { setupBulkMode, BulkModeManager } from './bulk';
+import { setupDiagnostics } from './diagnostics';
+import type { MutationDispatcher } from './mutations';
+import { CURRENT_SITE } from './site';
+import { setSelectorOverrides } from './selectors';
+import { resetInitialDataIndex } from './resolver';
+import { loadSelectorOverrides, watchSelectorOverrides } from '../utils/selector-overrides';
 import { logger } from '../utils/logger';
-import { EXTENSION_VERSION } from '../types';
+import { EXTENSION_VERSION, type SiteSelectorOverrides } from '../types';
+
+/** Bulk mode of the current page (null on pages without a video grid) */
+let bulkModeManager: BulkModeManager | null = null;
 
 /**
  * Enhance a detected playlist sheet
@@ -44,15 +55,26 @@ function enhancePlaylistSheet(sheet: Element): void {
 /**
  * Handle SPA navigation (T035)
  * Clean up previous enhancement and check for existing sheets
+ * @param dispatcher The page's MutationDispatcher (shared with bulk mode)
  */
-function handleNavigation(): void {
+function handleNavigation(dispatcher: MutationDispatcher): void {
   logger.debug('Handling navigation', { pageType: detectPageType() });
 
   // Clean up any existing enhancement (sheet might have been removed)
   cleanup();
 
+  // Re-read playlist IDs from the page the next time a sheet opens
+  resetInitialDataIndex();
+
   // Check if there's already a sheet open on the new page
   checkExistingSheet(enhancePlaylistSheet);
+
+  // Bulk mode is only offered on grid pages
+  bulkModeManager?.destroy();
+  bulkModeManager = setupBulkMode(dispatcher);
+
+  // Offer to finish a save of this video that was cut off by a page teardown
+  void offerInterruptedSave();
 }
 
 /**
@@ -81,7 +103,7 @@ function ensureCriticalStyles(): void {
       .ype-checkbox--checked { background: #3ea6ff; border-color: #3ea6ff; }
       .ype-checkbox-icon { width: 14px; height: 14px; fill: white; opacity: 0; }
       .ype-checkbox--checked .ype-checkbox-icon { opacity: 1; }
-      .ype-footer { padding: 12px 16px; border-top: 1px solid rgba(255, 255, 255, 0.1); display: flex; justify-content: space-between; align-items: center; background: var(--yt-spec-general-background-a, #0f0f0f); }
+      .ype-footer { padding: 12px 16px; border-top: 1px solid rgba(255, 255, 255, 0.1); display: flex; flex-wrap: wrap; justify-content: space-between; align-items: center; background: var(--yt-spec-general-background-a, #0f0f0f); }
       .ype-btn { padding: 8px 16px; border-radius: 18px; font-size: 14px; font-weight: 500; cursor: pointer; border: none; }
       .ype-btn--cancel { background: transparent; color: #f1f1f1; }
       .ype-btn--save { background: #3ea6ff; color: #0f0f0f; }
@@ -92,38 +114,76 @@ function ensureCriticalStyles(): void {
       .ype-no-results { padding: 24px 16px; text-align: center; color: #aaa; font-size: 14px; }
       .ype-selected-count { color: #aaa; font-size: 13px; }
       .ype-actions { display: flex; gap: 8px; }
+      .ype-bulk-actions { flex-basis: 100%; display: flex; gap: 4px; margin-bottom: 8px; }
     `;
     document.head.appendChild(style);
   }
 }
 
+/**
+ * Use the user's selector overrides for all following lookups
+ * Only the current site's overrides are used (see selectors.ts)
+ */
+function applySelectorOverrides(overrides: SiteSelectorOverrides): void {
+  setSelectorOverrides(overrides);
+  const { selectors, titlePatterns } = overrides[CURRENT_SITE];
+  const selectorNames = Object.keys(selectors);
+  if (selectorNames.length > 0 || titlePatterns.length > 0) {
+    logger.info('Selector overrides applied', {
+      site: CURRENT_SITE,
+      selectors: selectorNames,
+      titlePatterns,
+    });
+  }
+}
+
 /**
  * Initialize the extension
  */
-function init(): void {
+async function init(): Promise<void> {
   logger.info('YouTube Playlist Enhancer initializing', {
     version: EXTENSION_VERSION,
+    site: CURRENT_SITE,
     pageType: detectPageType(),
   });
 
+  // Apply the user's selector overrides before the first lookup; edits apply right away
+  applySelectorOverrides(await loadSelectorOverrides());
+  watchSelectorOverrides(applySelectorOverrides);
+
   // Ensure critical styles are available
   ensureCriticalStyles();
 
+  // Remember which video a save sheet is opened for (used by undo)
+  trackVideoContext();
+
   // Start observing for playlist sheets
-  observePlaylistSheet(enhancePlaylistSheet);
+  const dispatcher = observePlaylistSheet(enhancePlaylistSheet);
+
+  // Alt+Shift+D opens the selector diagnostics panel
+  setupDiagnostics({
+    getPageType: detectPageType,
+    getMutationStats: () => dispatcher.getStats(),
+  });
 
   // Check for existing sheet (in case it's already open)
   checkExistingSheet(enhancePlaylistSheet);
 
+  // Offer bulk mode on grid pages
+  bulkModeManager = setupBulkMode(dispatcher);
+
+  // Offer to finish a save of this video that was cut off by a page teardown
+  void offerInterruptedSave();
+
   // Listen for SPA navigation (T033, T035)
-  observeNavigation(handleNavigation);
+  observeNavigation(() => handleNavigation(dispatcher));
 
   logger.info('YouTube Playlist Enhancer ready');
 }
 
 // Initialize when DOM is ready
 if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', init);
+  document.addEventListener('DOMContentLoaded', () => void init());
 } else {
-  init();
+  void init();
 }
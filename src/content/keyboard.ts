@@ -0,0 +1,239 @@
+/**
+ * Keyboard Navigation Module
+ *
+ * Keyboard control of the enhanced sheet:
+ * - Arrow Up/Down: move the focus ring through visible items (starting from the search box)
+ * - Space: toggle the focused item
+ * - Enter: toggle the focused item, or the only match when one result is left
+ * - Ctrl/Cmd+Enter: save (through the review panel if the user always reviews)
+ * - Context menu key or Shift+F10: edit the focused item's tags
+ * - Tab/Shift+Tab: cycle between search box, list and footer buttons
+ * On YouTube Music, toggling an item picks it (see SelectionManager.isMultiSelect)
+ *
+ * Handled keys never reach YouTube so the dropdown doesn't close or steal focus
+ */
+
+import { SELECTORS, findElement } from './selectors';
+import type { SelectionManager } from './multiselect';
+import type { SearchManager } from './search';
+import { logger } from '../utils/logger';
+
+/**
+ * Manages keyboard focus and shortcuts inside the enhanced sheet
+ */
+export class KeyboardManager {
+  private _selection: SelectionManager | null = null;
+  private _search: SearchManager | null = null;
+  private _listContainer: HTMLElement | null = null;
+  private _focusedItem: Element | null = null;
+  // AbortController for reliable event listener cleanup
+  private _abortController: AbortController | null = null;
+
+  /**
+   * Item currently marked by the focus ring
+   */
+  get focusedItem(): Element | null {
+    return this._focusedItem;
+  }
+
+  /**
+   * Initialize keyboard navigation for a sheet
+   * @param sheet The playlist sheet element
+   * @param selection Selection manager of the sheet
+   * @param search Search manager of the sheet (if search is available)
+   */
+  initialize(sheet: Element, selection: SelectionManager, search: SearchManager | null): void {
+    this._selection = selection;
+    this._search = search;
+    this._listContainer = findElement(sheet, SELECTORS.listContainer) as HTMLElement | null;
+
+    if (!this._listContainer) {
+      logger.warn('KeyboardManager: List container not found');
+      return;
+    }
+
+    // Make the list a single tab stop; items are navigated with the arrow keys
+    this._listContainer.setAttribute('tabindex', '0');
+    this._listContainer.setAttribute('role', 'listbox');
+    this._listContainer.setAttribute('aria-multiselectable', String(selection.isMultiSelect));
+    this._listContainer.classList.add('ype-list');
+
+    this._abortController = new AbortController();
+    // Capture phase on window runs before YouTube's dropdown key handling
+    window.addEventListener('keydown', (e) => this.handleKeydown(e), {
+      capture: true,
+      signal: this._abortController.signal,
+    });
+
+    logger.debug('Keyboard navigation installed');
+  }
+
+  /**
+   * Drop the focus ring if its item was hidden by the search filter
+   */
+  handleFilterChange(): void {
+    if (this._focusedItem && !this.getVisibleItems().includes(this._focusedItem)) {
+      this.setFocusedItem(null);
+    }
+  }
+
+  /**
+   * Get items shown by the search filter, in DOM order
+   */
+  private getVisibleItems(): Element[] {
+    return this._selection?.getVisibleItems() ?? [];
+  }
+
+  /**
+   * Focusable stops cycled by Tab: search box, list, enabled footer buttons
+   */
+  private getTabStops(): HTMLElement[] {
+    const stops: HTMLElement[] = [];
+    if (this._search?.input) stops.push(this._search.input);
+    if (this._listContainer) stops.push(this._listContainer);
+    this._selection?.footer?.querySelectorAll<HTMLButtonElement>('button').forEach((button) => {
+      if (!button.disabled && button.offsetParent !== null) stops.push(button);
+    });
+    return stops;
+  }
+
+  /**
+   * Whether an element belongs to our UI (search box, list or footer)
+   */
+  private isInOurUi(element: Element | null): boolean {
+    if (!element) return false;
+    return (
+      element === this._search?.input ||
+      !!this._listContainer?.contains(element) ||
+      !!this._selection?.footer?.contains(element)
+    );
+  }
+
+  /**
+   * Move the focus ring to an item (or clear it)
+   */
+  private setFocusedItem(item: Element | null): void {
+    this._focusedItem?.classList.remove('ype-item--focused');
+    this._focusedItem = item;
+    if (item) {
+      item.classList.add('ype-item--focused');
+      item.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
+  /**
+   * Move the focus ring by one visible item
+   * Moving up from the first item returns focus to the search box
+   */
+  private moveFocus(direction: 1 | -1): void {
+    const visible = this.getVisibleItems();
+    const index = this._focusedItem ? visible.indexOf(this._focusedItem) : -1;
+    const next = index + direction;
+
+    if (next < 0) {
+      this.setFocusedItem(null);
+      this._search?.input?.focus();
+      return;
+    }
+
+    if (next < visible.length) {
+      this.setFocusedItem(visible[next]);
+    }
+    this._listContainer?.focus({ preventScroll: true });
+  }
+
+  /**
+   * Handle a keydown anywhere while the sheet is enhanced
+   */
+  private handleKeydown(e: KeyboardEvent): void {
+    const active = document.activeElement;
+    if (!this.isInOurUi(active) || !this._selection) return;
+
+    // Escape is handled by the enhancer's global interceptor
+    if (e.key === 'Escape') return;
+
+    const isSearch = active === this._search?.input;
+    const isList = active === this._listContainer;
+    let handled = true;
+
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      this._selection.requestSave();
+    } else if (e.key === 'Tab') {
+      const stops = this.getTabStops();
+      const index = stops.indexOf(active as HTMLElement);
+      const next = (index + (e.shiftKey ? -1 : 1) + stops.length) % stops.length;
+      stops[next]?.focus();
+      if (stops[next] === this._listContainer && !this._focusedItem) {
+        this.setFocusedItem(this.getVisibleItems()[0] ?? null);
+      }
+    } else if (e.key === 'ArrowDown' && (isSearch || isList)) {
+      this.moveFocus(1);
+    } else if (e.key === 'ArrowUp' && isList) {
+      this.moveFocus(-1);
+    } else if (e.key === ' ' && isList && this._focusedItem) {
+      this._selection.toggle(this._focusedItem);
+    } else if (e.key === 'Enter' && isList && this._focusedItem) {
+      this._selection.toggle(this._focusedItem);
+    } else if (
+      (e.key === 'ContextMenu' || (e.key === 'F10' && e.shiftKey)) &&
+      isList &&
+      this._focusedItem
+    ) {
+      this._selection.openTagMenu(this._focusedItem);
+    } else if (e.key === 'Enter' && isSearch) {
+      const visible = this.getVisibleItems();
+      if (visible.length === 1) {
+        this._selection.toggle(visible[0]);
+      }
+    } else {
+      // Let the key reach the search box for typing (it stops propagation itself);
+      // keys on the list and footer are kept away from YouTube's dropdown handlers
+      handled = false;
+    }
+
+    if (handled) {
+      e.preventDefault();
+    }
+    if (handled || !isSearch) {
+      e.stopPropagation();
+      e.stopImmediatePropagation();
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this._abortController?.abort();
+    this.setFocusedItem(null);
+
+    if (this._listContainer) {
+      this._listContainer.removeAttribute('tabindex');
+      this._listContainer.removeAttribute('role');
+      this._listContainer.removeAttribute('aria-multiselectable');
+      this._listContainer.classList.remove('ype-list');
+    }
+
+    this._selection = null;
+    this._search = null;
+    this._listContainer = null;
+    this._abortController = null;
+  }
+}
+
+/**
+ * Set up keyboard navigation for a sheet
+ * @param sheet The playlist sheet element
+ * @param selection Selection manager of the sheet
+ * @param search Search manager of the sheet (if search is available)
+ * @returns KeyboardManager instance
+ */
+export function setupKeyboard(
+  sheet: Element,
+  selection: SelectionManager,
+  search: SearchManager | null
+): KeyboardManager {
+  const manager = new KeyboardManager();
+  manager.initialize(sheet, selection, search);
+  return manager;
+}
@@ -0,0 +1,186 @@
+/**
+ * Playlist Metadata Module
+ *
+ * Reads a playlist's privacy and video count from its list item
+ * - Secondary text under the name (e.g. "私人", "12 部影片", "Private • 12 videos")
+ * - Privacy icons and their accessibility labels
+ * and renders them as a compact indicator next to the playlist name
+ */
+
+import type { PlaylistItem, PlaylistPrivacy } from '../types';
+import { PRIVACY_OPTION_LABELS } from './selectors';
+
+/** YouTube's maximum number of videos in a playlist */
+const PLAYLIST_VIDEO_LIMIT = 5000;
+
+/** Playlists with at least this many videos are flagged as nearly full */
+const NEARLY_FULL_THRESHOLD = 4900;
+
+/**
+ * Icon names used by YouTube for each privacy state
+ */
+const PRIVACY_ICON_NAMES: Record<PlaylistPrivacy, string[]> = {
+  private: ['lock'],
+  unlisted: ['link'],
+  public: ['public', 'globe', 'earth'],
+};
+
+/**
+ * Secondary text under the playlist name; the name itself is never parsed,
+ * so a playlist called "Mix • 2024" isn't read as holding 2024 videos
+ */
+const SECONDARY_TEXT_SELECTOR = '[class*="subtitle"]:not([class*="ype-"]), #subtitle';
+
+/**
+ * Words following a video count (multi-language, lowercase)
+ */
+const VIDEO_COUNT_WORDS = [
+  '部影片',
+  '個影片',
+  '个视频',
+  '部视频',
+  'video',
+  'vídeo',
+  'vidéo',
+  '本の動画',
+  '개',
+  'видео',
+];
+
+/**
+ * Indicator shown per privacy state
+ */
+export const PRIVACY_INDICATORS: Record<PlaylistPrivacy, { icon: string; label: string }> = {
+  private: { icon: '🔒', label: '私人' },
+  unlisted: { icon: '🔗', label: '不公開' },
+  public: { icon: '🌐', label: '公開' },
+};
+
+/**
+ * Privacy and size of a playlist
+ */
+export interface PlaylistMetadata {
+  privacy?: PlaylistPrivacy;
+  videoCount?: number;
+}
+
+/**
+ * Collect the text segments of an item's secondary text, ignoring our own injected UI
+ * Segments are split on the "•"/"·" separators YouTube uses in secondary text
+ */
+function getSecondaryTextSegments(element: Element): string[] {
+  const segments: string[] = [];
+  for (const secondary of element.querySelectorAll(SECONDARY_TEXT_SELECTOR)) {
+    const walker = document.createTreeWalker(secondary, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node.parentElement?.closest('[class*="ype-"]')) continue;
+      for (const part of (node.textContent || '').split(/[•·\n]/)) {
+        const text = part.trim().toLowerCase();
+        if (text) segments.push(text);
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Match a text segment against the localized privacy labels
+ */
+function matchPrivacyLabel(text: string): PlaylistPrivacy | undefined {
+  const privacies = Object.keys(PRIVACY_OPTION_LABELS) as PlaylistPrivacy[];
+  return privacies.find((privacy) => PRIVACY_OPTION_LABELS[privacy].includes(text));
+}
+
+/**
+ * Read the privacy from the item's icons
+ */
+function readPrivacyFromIcons(element: Element): PlaylistPrivacy | undefined {
+  for (const icon of element.querySelectorAll('[icon], yt-icon, [aria-label]')) {
+    if (icon.closest('[class*="ype-"]')) continue;
+
+    const label = icon.getAttribute('aria-label')?.trim().toLowerCase();
+    const fromLabel = label ? matchPrivacyLabel(label) : undefined;
+    if (fromLabel) return fromLabel;
+
+    const iconName = (icon.getAttribute('icon') || '').toLowerCase();
+    if (!iconName) continue;
+    const privacies = Object.keys(PRIVACY_ICON_NAMES) as PlaylistPrivacy[];
+    const fromIcon = privacies.find((privacy) =>
+      PRIVACY_ICON_NAMES[privacy].some((name) => iconName.includes(name))
+    );
+    if (fromIcon) return fromIcon;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a video count such as "12 部影片" or "1,234 videos"
+ * A bare number isn't a count: it may be a year or part of a name
+ */
+function parseVideoCount(text: string): number | undefined {
+  const match = text.match(/^(\d[\d,.\s]*)\s*(.+)$/);
+  if (!match) return undefined;
+
+  const [, digits, rest] = match;
+  if (!VIDEO_COUNT_WORDS.some((word) => rest.startsWith(word))) return undefined;
+
+  const count = Number(digits.replace(/[,.\s]/g, ''));
+  return Number.isFinite(count) ? count : undefined;
+}
+
+/**
+ * Read a playlist's privacy and video count from its list item
+ */
+export function parsePlaylistMetadata(element: Element): PlaylistMetadata {
+  const metadata: PlaylistMetadata = {};
+
+  for (const text of getSecondaryTextSegments(element)) {
+    metadata.privacy ??= matchPrivacyLabel(text);
+    metadata.videoCount ??= parseVideoCount(text);
+  }
+  metadata.privacy ??= readPrivacyFromIcons(element);
+
+  return metadata;
+}
+
+/**
+ * Add or update the privacy/size indicator of an item
+ */
+export function renderMetadataIndicator(item: PlaylistItem): void {
+  const { element, privacy, videoCount } = item;
+  let indicator = element.querySelector<HTMLElement>('.ype-playlist-meta');
+
+  if (!privacy && videoCount === undefined) {
+    indicator?.remove();
+    return;
+  }
+
+  if (!indicator) {
+    indicator = document.createElement('span');
+    indicator.className = 'ype-playlist-meta';
+    // Keep it before the change badge at the end of the item
+    element.insertBefore(indicator, element.querySelector('.ype-change-badge'));
+  }
+
+  const parts: string[] = [];
+  const titles: string[] = [];
+  if (privacy) {
+    const { icon, label } = PRIVACY_INDICATORS[privacy];
+    parts.push(icon);
+    titles.push(label);
+  }
+  if (videoCount !== undefined) {
+    parts.push(String(videoCount));
+    titles.push(`${videoCount} 部影片`);
+  }
+
+  const isNearlyFull = videoCount !== undefined && videoCount >= NEARLY_FULL_THRESHOLD;
+  if (isNearlyFull) {
+    titles.push(`接近 ${PLAYLIST_VIDEO_LIMIT} 部影片上限`);
+  }
+
+  indicator.textContent = parts.join(' ');
+  indicator.title = titles.join('・');
+  indicator.classList.toggle('ype-playlist-meta--private', privacy === 'private');
+  indicator.classList.toggle('ype-playlist-meta--full', isNearlyFull);
+}
@@ -9,28 +9,202 @@
  * - T020: Batch save
  */
 
-import type { PlaylistItem } from '../types';
-import { SELECTORS, findElement, findAllElements } from './selectors';
+import type {
+  ApplyMode,
+  BatchSaveResult,
+  PinnedSortMode,
+  PlaylistItem,
+  PlaylistPrivacy,
+  PlaylistRef,
+  PlaylistSortMode,
+  SaveDiff,
+  ThrottleConfig,
+} from '../types';
+import {
+  SELECTORS,
+  closestElement,
+  findElement,
+  findAllElements,
+  getVisibleErrorSnackbar,
+  matchesSelector,
+} from './selectors';
 import { logger } from '../utils/logger';
-import { delay } from '../utils/debounce';
-import { showToast } from './toast';
+import { waitFor } from '../utils/debounce';
+import { AdaptiveThrottle, DEFAULT_THROTTLE_CONFIG } from '../utils/throttle';
+import { showProgressToast, showToast } from './toast';
+import { getCurrentVideoId } from './video';
+import { matchesRef, recordSave, toPlaylistRef } from './history';
+import { PlaylistIdResolver } from './resolver';
+import { getSiteProfile } from './profiles';
+import { parsePlaylistMetadata, renderMetadataIndicator } from './metadata';
+import { createPlaylist } from './create';
+import { loadUsage, rankUsage, recordUsage } from './usage';
+import {
+  TagMenu,
+  collectTags,
+  getItemTags,
+  loadTags,
+  renderTagButton,
+  saveTags,
+  setItemTags,
+  type TagStore,
+} from './tags';
+import { finishPendingSave, markPendingSaveDone, startPendingSave } from './queue';
+import {
+  applyGroupedOrder,
+  createGroupHeader,
+  recordOriginalOrder,
+  restoreOriginalOrder,
+  sortByOriginalOrder,
+  type ItemGroup,
+} from './ordering';
+import { loadSettings, updateSettings } from '../utils/settings';
+
+/** Max time to wait for YouTube to reflect a click in the item's state (ms) */
+const CLICK_CONFIRM_TIMEOUT_MS = 2000;
+
+/** Polling interval while waiting for a click to be confirmed (ms) */
+const CLICK_CONFIRM_POLL_MS = 50;
+
+/** Extra click attempts for an item whose state change was not confirmed */
+const MAX_CLICK_RETRIES = 2;
+
+/** Number of playlist names listed in a toast before summarizing the rest */
+const SUMMARY_NAME_LIMIT = 3;
+
+/** How long the "Undo" action stays available on the success toast (ms) */
+const UNDO_TOAST_DURATION_MS = 6000;
 
-/** Delay between batch save/remove clicks to avoid rate limiting (ms) */
-const BATCH_CLICK_DELAY_MS = 200;
+/**
+ * Options for wiring a SelectionManager into the enhancer
+ */
+export interface SelectionManagerOptions {
+  /** Called when the user asks to undo the last save of a video */
+  onUndo?: (videoId: string) => void;
+  /** Bulk mode: Save collects the diff for several videos instead of applying it here */
+  bulk?: BulkPickerOptions;
+  /** Playlist creation carried over from the previous enhancement of the sheet */
+  pendingCreate?: PendingCreate;
+  /** Called after the playlists' tags were loaded or edited (e.g. to re-apply a #tag search) */
+  onTagsChange?: () => void;
+}
+
+/**
+ * Playlist being created from the search box
+ */
+export interface PendingCreate {
+  /** Name of the new playlist */
+  name: string;
+  /** Selection changes made before the create flow started */
+  selection: SaveDiff;
+  /** Timestamp the create flow started (ms since epoch) */
+  startedAt: number;
+}
+
+/**
+ * Playlist picker opened for bulk mode
+ */
+export interface BulkPickerOptions {
+  /** Number of videos the diff will be applied to */
+  videoCount: number;
+  /** Called with the picked diff once the user saves */
+  onSave: (diff: SaveDiff) => void;
+}
+
+/** Max time for a newly added item to render the name of the created playlist (ms) */
+const CREATED_ITEM_NAME_TIMEOUT_MS = 1000;
+
+/** Max time for the created playlist to show up in the sheet (ms) */
+const CREATED_ITEM_TIMEOUT_MS = 15000;
+
+/** Tags whose group the user collapsed; kept while the page is open */
+const collapsedTags = new Set<string>();
+
+/**
+ * Outcome of clicking through a list of items
+ */
+interface ClickBatchResult {
+  succeeded: PlaylistItem[];
+  failed: PlaylistItem[];
+}
+
+/**
+ * Progress of a running batch save across additions and removals
+ */
+interface SaveProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Format a list of playlist names for a toast, e.g. "A、B、C 等 5 個"
+ */
+function formatNames(items: PlaylistItem[]): string {
+  const names = items.slice(0, SUMMARY_NAME_LIMIT).map((item) => `「${item.name}」`);
+  const suffix = items.length > SUMMARY_NAME_LIMIT ? ` 等 ${items.length} 個` : '';
+  return `${names.join('、')}${suffix}`;
+}
+
+/**
+ * Build the per-playlist summary shown after a batch save
+ */
+export function formatSaveSummary(result: BatchSaveResult): string {
+  const parts: string[] = [];
+  if (result.added.length > 0) parts.push(`已加入${formatNames(result.added)}`);
+  if (result.removed.length > 0) parts.push(`已從${formatNames(result.removed)}移除`);
+  if (result.failed.length > 0) parts.push(`失敗：${formatNames(result.failed)}`);
+  return parts.join('；');
+}
 
 /**
  * Manages selection state for the current menu session
  */
 export class SelectionManager {
   private _items: Map<Element, PlaylistItem> = new Map();
+  private _idResolver = new PlaylistIdResolver();
+  private _sheet: Element | null = null;
+  private _videoId: string | null = null;
   private _listContainer: Element | null = null;
   private _footer: HTMLElement | null = null;
   private _isSaving = false;
+  // Set when the enhancer cleans up mid-save; teardown waits for the save to finish
+  private _destroyRequested = false;
   private _listObserver: MutationObserver | null = null;
+  // Items pinned to the "Recent" group, in display order
+  private _pinned: Element[] = [];
+  private _pinnedSortMode: PinnedSortMode = 'recent';
+  private _sortMode: PlaylistSortMode = 'default';
+  // Relevance of the items matching the active search query (null when not searching)
+  private _ranking: Map<Element, number> | null = null;
+  private _pinnedHeader: HTMLElement | null = null;
+  private _allHeader: HTMLElement | null = null;
+  private _tagStore: TagStore = {};
+  private _tagHeaders: Map<string, HTMLElement> = new Map();
+  private _tagMenu = new TagMenu();
+  private _reviewPanel: HTMLElement | null = null;
+  private _reviewBeforeSave = false;
+  private _throttleConfig: ThrottleConfig = DEFAULT_THROTTLE_CONFIG;
+  // Paces the clicks of the running batch save
+  private _throttle: AdaptiveThrottle | null = null;
+  // Playlist being created from the search box, selected once it shows up
+  private _pendingCreate: PendingCreate | null = null;
+  private _pendingCreateTimeout: ReturnType<typeof setTimeout> | null = null;
+  private _applyMode: ApplyMode = 'batch';
+  // Live status shown in the footer in instant mode
+  private _instantStatus = '';
+  // Last item toggled without Shift; start point for Shift-click range selection
+  private _rangeAnchor: Element | null = null;
+  // Bulk pickers: items the user set explicitly (checked = add, unchecked = remove)
+  private _bulkMarked = new Set<Element>();
+  // Changes made in batch mode before switching to instant; they stay pending until
+  // saved in batch mode or the item is set again
+  private _heldChanges = new Set<Element>();
   // AbortController for reliable event listener cleanup
   // Using AbortController ensures all listeners are removed even if DOM elements are replaced
   private _abortController: AbortController | null = null;
 
+  constructor(private readonly _options: SelectionManagerOptions = {}) {}
+
   /**
    * Get all items
    */
@@ -38,6 +212,51 @@ export class SelectionManager {
     return this._items;
   }
 
+  /**
+   * Video the sheet was opened for (null if it couldn't be determined)
+   */
+  get videoId(): string | null {
+    return this._videoId;
+  }
+
+  /**
+   * Whether a batch save is running
+   */
+  get isSaving(): boolean {
+    return this._isSaving;
+  }
+
+  /**
+   * Injected footer with Save/Cancel buttons
+   */
+  get footer(): HTMLElement | null {
+    return this._footer;
+  }
+
+  /**
+   * Whether the sheet is a bulk mode picker (starts unchecked, Save hands the diff over)
+   */
+  get isBulkPicker(): boolean {
+    return !!this._options.bulk;
+  }
+
+  /**
+   * Whether items are toggled and saved together; otherwise (YouTube Music) each click
+   * adds the video to one playlist and the site closes the dialog
+   */
+  get isMultiSelect(): boolean {
+    return getSiteProfile().supportsMultiSelect;
+  }
+
+  /**
+   * Whether the managed sheet is still attached and its dropdown visible
+   */
+  get isOpen(): boolean {
+    if (!this._sheet?.isConnected) return false;
+    const dropdown = this._sheet.closest(getSiteProfile().dialogTag);
+    return !dropdown || window.getComputedStyle(dropdown).display !== 'none';
+  }
+
   /**
    * Count of currently selected items
    */
@@ -45,31 +264,74 @@ export class SelectionManager {
     return Array.from(this._items.values()).filter((item) => item.isSelected).length;
   }
 
+  /**
+   * Get what saving would do to an item
+   * Bulk pickers ignore the state of the video whose sheet they use: only items the user
+   * set explicitly change, checked ones are added and unchecked ones removed
+   */
+  private getPendingChange(item: PlaylistItem): 'add' | 'remove' | null {
+    if (this._options.bulk) {
+      if (!this._bulkMarked.has(item.element)) return null;
+      return item.isSelected ? 'add' : 'remove';
+    }
+    if (item.isSelected === item.wasOriginallySelected) return null;
+    return item.isSelected ? 'add' : 'remove';
+  }
+
   /**
    * Whether any changes from original state
    */
   get hasChanges(): boolean {
-    return Array.from(this._items.values()).some(
-      (item) => item.isSelected !== item.wasOriginallySelected
-    );
+    return Array.from(this._items.values()).some((item) => this.getPendingChange(item) !== null);
   }
 
   /**
    * Get items that have changed from original state
    */
   getChangedItems(): PlaylistItem[] {
-    return Array.from(this._items.values()).filter(
-      (item) => item.isSelected !== item.wasOriginallySelected
-    );
+    return Array.from(this._items.values()).filter((item) => this.getPendingChange(item) !== null);
+  }
+
+  /**
+   * Find the item a playlist reference points to
+   */
+  findItem(ref: PlaylistRef): PlaylistItem | null {
+    for (const item of this._items.values()) {
+      if (matchesRef(item, ref)) return item;
+    }
+    return null;
+  }
+
+  /**
+   * Select the referenced playlists (e.g. from a preset), leaving other items untouched
+   * @returns References that don't match any playlist in the sheet
+   */
+  selectPlaylists(refs: PlaylistRef[]): PlaylistRef[] {
+    const missing: PlaylistRef[] = [];
+    for (const ref of refs) {
+      const item = this.findItem(ref);
+      if (item) {
+        this.setSelected(item.element, true);
+      } else {
+        missing.push(ref);
+      }
+    }
+    this.handleSelectionChange();
+    return missing;
+  }
+
+  /**
+   * Get currently selected items
+   */
+  getSelectedItems(): PlaylistItem[] {
+    return Array.from(this._items.values()).filter((item) => item.isSelected);
   }
 
   /**
    * Get items to add (newly selected)
    */
   getItemsToAdd(): PlaylistItem[] {
-    return Array.from(this._items.values()).filter(
-      (item) => item.isSelected && !item.wasOriginallySelected
-    );
+    return Array.from(this._items.values()).filter((item) => this.getPendingChange(item) === 'add');
   }
 
   /**
@@ -77,30 +339,206 @@ export class SelectionManager {
    */
   getItemsToRemove(): PlaylistItem[] {
     return Array.from(this._items.values()).filter(
-      (item) => !item.isSelected && item.wasOriginallySelected
+      (item) => this.getPendingChange(item) === 'remove'
     );
   }
 
+  /**
+   * Get the pending changes as playlist references
+   */
+  getPendingDiff(): SaveDiff {
+    return {
+      added: this.getItemsToAdd().map(toPlaylistRef),
+      removed: this.getItemsToRemove().map(toPlaylistRef),
+    };
+  }
+
   /**
    * Toggle selection state for an item
    */
   toggle(element: Element): void {
     const item = this._items.get(element);
-    if (item) {
+    if (item && !this.isMultiSelect) {
+      this.pick(item);
+    } else if (item) {
       item.isSelected = !item.isSelected;
+      this.markForBulk(element);
+      this._heldChanges.delete(element);
+      element.classList.remove('ype-item--failed');
       this.updateCheckboxUI(element, item.isSelected);
-      this.updateFooterCount();
+      this.handleSelectionChange();
     }
   }
 
+  /**
+   * Add the video to a single playlist the way the site does (no multi-select)
+   */
+  private pick(item: PlaylistItem): void {
+    void recordUsage([toPlaylistRef(item)]);
+    this.clickItem(item);
+  }
+
+  /**
+   * Set selection state for an item without toggling
+   * Callers are responsible for updating the footer count afterwards
+   */
+  private setSelected(element: Element, selected: boolean): void {
+    const item = this._items.get(element);
+    if (!item) return;
+    // In bulk pickers setting an item is a change even if its checkbox stays the same
+    this.markForBulk(element);
+    this._heldChanges.delete(element);
+    if (item.isSelected !== selected) {
+      item.isSelected = selected;
+      element.classList.remove('ype-item--failed');
+      this.updateCheckboxUI(element, selected);
+    } else {
+      this.updateChangeBadge(element);
+    }
+  }
+
+  /**
+   * Record that the user set an item explicitly (bulk pickers only)
+   */
+  private markForBulk(element: Element): void {
+    if (this._options.bulk) {
+      this._bulkMarked.add(element);
+    }
+  }
+
+  /**
+   * Forget the explicit choices of bulk pickers for some items, leaving them unchanged
+   */
+  private unmarkForBulk(elements: Iterable<Element>): void {
+    for (const element of elements) {
+      if (this._bulkMarked.delete(element)) {
+        this.updateChangeBadge(element);
+      }
+    }
+  }
+
+  /**
+   * State of an item when the sheet opens
+   * Bulk pickers start unchecked: the diff doesn't depend on the first video's playlists
+   */
+  private readInitialState(element: Element): boolean {
+    return this._options.bulk ? false : this.checkIfOriginallySelected(element);
+  }
+
+  /**
+   * Whether an item is currently shown: not filtered out by search, nor in a collapsed tag group
+   */
+  private isVisible(element: Element): boolean {
+    return (
+      !element.classList.contains('ype-hidden') && !element.classList.contains('ype-collapsed')
+    );
+  }
+
+  /**
+   * Apply a new selection state to every item the search filter currently shows
+   * @param getState Computes the new state from the item
+   */
+  private updateVisible(getState: (item: PlaylistItem) => boolean): void {
+    for (const [element, item] of this._items) {
+      if (this.isVisible(element)) {
+        this.setSelected(element, getState(item));
+      }
+    }
+    this.handleSelectionChange();
+  }
+
+  /**
+   * Select every visible item
+   */
+  selectVisible(): void {
+    this.updateVisible(() => true);
+  }
+
+  /**
+   * Deselect every visible item
+   */
+  clearVisible(): void {
+    this.updateVisible(() => false);
+  }
+
+  /**
+   * Invert the selection of every visible item
+   */
+  invertVisible(): void {
+    this.updateVisible((item) => !item.isSelected);
+  }
+
+  /**
+   * Revert every visible item to its original state
+   */
+  revertVisible(): void {
+    this.updateVisible((item) => item.wasOriginallySelected);
+    this.unmarkForBulk(this.getVisibleItems());
+    this.updateFooterCount();
+  }
+
+  /**
+   * Get managed items in DOM order
+   */
+  private getItemsInDomOrder(): Element[] {
+    if (!this._listContainer) return [];
+    return Array.from(findAllElements(this._listContainer, SELECTORS.listItem)).filter((element) =>
+      this._items.has(element)
+    );
+  }
+
+  /**
+   * Apply the anchor item's state to every visible item between the anchor and target
+   * Items hidden by the search filter are skipped
+   */
+  private selectRange(anchor: Element, target: Element): void {
+    const anchorItem = this._items.get(anchor);
+    const ordered = this.getItemsInDomOrder();
+    const anchorIndex = ordered.indexOf(anchor);
+    const targetIndex = ordered.indexOf(target);
+
+    if (!anchorItem || anchorIndex === -1 || targetIndex === -1) {
+      // Anchor is gone (e.g. list re-rendered) - fall back to a single toggle
+      this.toggle(target);
+      this._rangeAnchor = target;
+      return;
+    }
+
+    const [start, end] =
+      anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+    for (let i = start; i <= end; i++) {
+      if (this.isVisible(ordered[i])) {
+        this.setSelected(ordered[i], anchorItem.isSelected);
+      }
+    }
+    this.handleSelectionChange();
+  }
+
+  /**
+   * Get items shown by the search filter, in DOM order
+   */
+  getVisibleItems(): Element[] {
+    return this.getItemsInDomOrder().filter((element) => this.isVisible(element));
+  }
+
+  /**
+   * Forget the Shift-click anchor (e.g. when the search filter changes)
+   */
+  resetRangeAnchor(): void {
+    this._rangeAnchor = null;
+  }
+
   /**
    * Reset all items to original state
    */
   reset(): void {
     for (const [element, item] of this._items) {
       item.isSelected = item.wasOriginallySelected;
+      element.classList.remove('ype-item--failed');
       this.updateCheckboxUI(element, item.isSelected);
     }
+    this.unmarkForBulk(Array.from(this._bulkMarked));
+    this._heldChanges.clear();
     this.updateFooterCount();
   }
 
@@ -110,8 +548,10 @@ export class SelectionManager {
    * Called when menu reopens to ensure state is accurate
    */
   refreshState(): void {
+    this._bulkMarked.clear();
+    this._heldChanges.clear();
     for (const [element, item] of this._items) {
-      const isNowSelected = this.checkIfOriginallySelected(element);
+      const isNowSelected = this.readInitialState(element);
       item.wasOriginallySelected = isNowSelected;
       item.isSelected = isNowSelected;
       this.updateCheckboxUI(element, isNowSelected);
@@ -126,6 +566,8 @@ export class SelectionManager {
    * Initialize the selection manager with a sheet element
    */
   initialize(sheet: Element): void {
+    this._sheet = sheet;
+    this._videoId = getCurrentVideoId();
     this._listContainer = findElement(sheet, SELECTORS.listContainer);
 
     if (!this._listContainer) {
@@ -139,32 +581,351 @@ export class SelectionManager {
     // Initialize items
     items.forEach((element) => {
       const name = this.extractPlaylistName(element);
-      const isSelected = this.checkIfOriginallySelected(element);
+      const isSelected = this.readInitialState(element);
 
-      this._items.set(element, {
+      const item: PlaylistItem = {
         element,
         name,
         isSelected,
         wasOriginallySelected: isSelected,
-      });
-
-      // Add checkbox to item
-      this.addCheckboxToItem(element, isSelected);
+        ...parsePlaylistMetadata(element),
+      };
+      this._items.set(element, item);
+
+      // Add checkbox, privacy/size indicator and tag button to item
+      if (this.isMultiSelect) this.addCheckboxToItem(element, isSelected);
+      renderMetadataIndicator(item);
+      renderTagButton(item);
     });
 
+    // Identify playlists by ID so persisted references survive renames and duplicates
+    this._idResolver.resolveItemIds(Array.from(this._items.values()));
+
+    // A playlist creation started before the sheet was re-enhanced
+    if (this._options.pendingCreate) {
+      this.restorePendingCreate(this._options.pendingCreate);
+    }
+
     // Set up click interception
     this.interceptClicks();
 
-    // Add action footer
-    this.injectActionFooter(sheet);
+    // Add action footer (nothing to save when items are picked one at a time)
+    if (this.isMultiSelect) this.injectActionFooter(sheet);
 
     // Note: "Create playlist" button sticky positioning is now handled by CSS
     // targeting yt-panel-footer-view-model directly (see styles.css)
 
-    // Watch for new items being added (handles lazy loading and new playlist creation)
-    this.observeNewItems();
+    // Watch for new items being added (handles lazy loading and new playlist creation)
+    this.observeNewItems();
+
+    // Pin recently/frequently used playlists to the top
+    recordOriginalOrder(Array.from(items));
+    void this.applyPinnedGroup();
+
+    // Group tagged playlists by tag
+    void this.applyTags();
+
+    void loadSettings().then((settings) => {
+      this._reviewBeforeSave = settings.reviewBeforeSave;
+      this.setApplyMode(settings.applyMode);
+      this._throttleConfig = {
+        minDelayMs: settings.clickDelayMinMs,
+        maxDelayMs: settings.clickDelayMaxMs,
+        backoffFactor: settings.clickBackoffFactor,
+      };
+    });
+
+    logger.info('SelectionManager initialized', { itemCount: items.length });
+  }
+
+  /**
+   * Pin the top used playlists into a "Recent" group above the rest of the list
+   * Re-run after the pinning mode changes; items stay searchable wherever they are
+   */
+  private async applyPinnedGroup(): Promise<void> {
+    const [settings, usage] = await Promise.all([loadSettings(), loadUsage()]);
+    // The manager may have been destroyed while loading
+    if (!this._listContainer) return;
+
+    this._pinned = [];
+    if (settings.pinnedCount > 0) {
+      for (const entry of rankUsage(usage, settings.pinnedSortMode)) {
+        const item = this.findItem(entry.ref);
+        if (item && !this._pinned.includes(item.element)) {
+          this._pinned.push(item.element);
+        }
+        if (this._pinned.length >= settings.pinnedCount) break;
+      }
+    }
+
+    this.updatePinnedHeader(settings.pinnedSortMode);
+    this.layoutList();
+
+    logger.debug('Pinned group applied', {
+      mode: settings.pinnedSortMode,
+      pinnedCount: this._pinned.length,
+    });
+  }
+
+  /**
+   * Create or update the "Recent" group header with its mode toggle
+   */
+  private updatePinnedHeader(mode: PinnedSortMode): void {
+    this._pinnedSortMode = mode;
+
+    if (!this._pinnedHeader) {
+      this._pinnedHeader = createGroupHeader('');
+      const toggle = document.createElement('button');
+      toggle.className = 'ype-group-toggle';
+      toggle.title = '切換排序方式';
+      toggle.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const nextMode: PinnedSortMode =
+          this._pinnedSortMode === 'frequent' ? 'recent' : 'frequent';
+        void updateSettings({ pinnedSortMode: nextMode }).then(() => this.applyPinnedGroup());
+      });
+      this._pinnedHeader.appendChild(toggle);
+    }
+
+    const label = this._pinnedHeader.querySelector('.ype-group-label');
+    const toggle = this._pinnedHeader.querySelector('.ype-group-toggle');
+    if (label) label.textContent = mode === 'frequent' ? '最常使用' : '最近使用';
+    if (toggle) toggle.textContent = mode === 'frequent' ? '改依最近使用' : '改依使用次數';
+  }
+
+  /**
+   * Change the ordering of the unpinned playlists
+   */
+  setSortMode(mode: PlaylistSortMode): void {
+    if (this._sortMode === mode) return;
+    this._sortMode = mode;
+    this.layoutList();
+    logger.debug('Playlist sort mode changed', { mode });
+  }
+
+  /**
+   * Sort unpinned items by the current sort mode, ties keeping YouTube's order
+   */
+  private sortUnpinned(elements: Element[]): Element[] {
+    const ordered = sortByOriginalOrder(elements);
+    if (this._sortMode === 'default') return ordered;
+
+    const compare =
+      this._sortMode === 'size'
+        ? (a: PlaylistItem, b: PlaylistItem): number => (b.videoCount ?? -1) - (a.videoCount ?? -1)
+        : (a: PlaylistItem, b: PlaylistItem): number =>
+            a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+    // Array.prototype.sort is stable, so equal items stay in original order
+    return ordered.sort((a, b) => {
+      const itemA = this._items.get(a);
+      const itemB = this._items.get(b);
+      return itemA && itemB ? compare(itemA, itemB) : 0;
+    });
+  }
+
+  /**
+   * Order items by search relevance, or restore the usual layout with null
+   * @param scores Relevance of each matching item; items without a score go last
+   */
+  setRanking(scores: Map<Element, number> | null): void {
+    if (!scores && !this._ranking) return;
+    this._ranking = scores;
+    this.layoutList();
+  }
+
+  /**
+   * Load the user's tags onto the items
+   */
+  private async applyTags(): Promise<void> {
+    this._tagStore = await loadTags();
+    // The manager may have been destroyed while loading
+    if (!this._listContainer) return;
+
+    for (const item of this._items.values()) {
+      item.tags = getItemTags(this._tagStore, item);
+      renderTagButton(item);
+    }
+    this.layoutList();
+    this._options.onTagsChange?.();
+
+    logger.debug('Playlist tags applied', {
+      tagCount: collectTags(this._items.values()).length,
+    });
+  }
+
+  /**
+   * Open the tag menu of an item
+   * @param position Viewport position of the menu; defaults to below the item's tag button
+   */
+  openTagMenu(element: Element, position?: { x: number; y: number }): void {
+    const item = this._items.get(element);
+    if (!item || !this._sheet) return;
+
+    const anchor = (element.querySelector('.ype-tag-button') ?? element).getBoundingClientRect();
+    const { x, y } = position ?? { x: anchor.left, y: anchor.bottom };
+    // Inside the dropdown like the footer, so YouTube doesn't take clicks on it as outside clicks
+    const container = getSiteProfile().getDialogContainer(this._sheet);
+
+    this._tagMenu.open(container ?? this._sheet, x, y, {
+      name: item.name,
+      tags: item.tags ?? [],
+      knownTags: collectTags(this._items.values()),
+      onChange: (tags) => void this.updateItemTags(item, tags),
+    });
+  }
+
+  /**
+   * Change the tags of an item, regroup the list and persist the change
+   */
+  private async updateItemTags(item: PlaylistItem, tags: string[]): Promise<void> {
+    item.tags = [...tags].sort();
+    renderTagButton(item);
+    this.layoutList();
+    this._options.onTagsChange?.();
+
+    // Updated right away so quick successive edits build on each other
+    this._tagStore = setItemTags(this._tagStore, item, item.tags);
+    const result = await saveTags(this._tagStore);
+    if (result === 'written') {
+      logger.debug('Playlist tags saved', { name: item.name, tags: item.tags });
+    } else if (result === 'quota-exceeded') {
+      showToast('標籤已超過 Chrome 同步儲存空間上限，請移除部分標籤後再試', 'error', 6000);
+    } else {
+      showToast('標籤儲存失敗', 'error');
+    }
+  }
+
+  /**
+   * Select every tagged playlist the search filter shows, including ones listed
+   * under another group (pinned, or an earlier tag) and ones in a collapsed group
+   */
+  private selectTagged(tag: string): void {
+    for (const [element, item] of this._items) {
+      if (item.tags?.includes(tag) && !element.classList.contains('ype-hidden')) {
+        this.setSelected(element, true);
+      }
+    }
+    this.handleSelectionChange();
+  }
+
+  /**
+   * Create or update the header of a tag group with its collapse and "select all" buttons
+   * @param count Number of playlists with the tag
+   */
+  private getTagHeader(tag: string, count: number): HTMLElement {
+    let header = this._tagHeaders.get(tag);
+
+    if (!header) {
+      header = createGroupHeader('');
+      header.classList.add('ype-group-header--tag');
+
+      const collapse = document.createElement('button');
+      collapse.className = 'ype-group-collapse';
+      collapse.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (!collapsedTags.delete(tag)) collapsedTags.add(tag);
+        this.layoutList();
+      });
+
+      const selectAll = document.createElement('button');
+      selectAll.className = 'ype-group-toggle';
+      selectAll.textContent = '全選';
+      selectAll.title = `選取所有標記 #${tag} 的播放清單`;
+      selectAll.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.selectTagged(tag);
+      });
+
+      header.prepend(collapse);
+      header.appendChild(selectAll);
+      this._tagHeaders.set(tag, header);
+    }
+
+    const isCollapsed = collapsedTags.has(tag);
+    const label = header.querySelector('.ype-group-label');
+    const collapse = header.querySelector('.ype-group-collapse');
+    if (label) label.textContent = `#${tag}（${count}）`;
+    if (collapse) {
+      collapse.textContent = isCollapsed ? '▸' : '▾';
+      collapse.setAttribute('aria-expanded', String(!isCollapsed));
+      collapse.setAttribute('aria-label', `${isCollapsed ? '展開' : '收合'} #${tag}`);
+    }
+    return header;
+  }
+
+  /**
+   * Remove the pinned, tag and "all playlists" headers
+   */
+  private removeGroupHeaders(): void {
+    this._pinnedHeader?.remove();
+    this._allHeader?.remove();
+    this._tagHeaders.forEach((header) => header.remove());
+  }
+
+  /**
+   * Arrange items: a flat list by relevance while searching; otherwise the pinned
+   * group (if any), then a group per tag, then the rest in the chosen sort order
+   * An item with several tags is listed under its first tag, but counts toward
+   * (and is selected by) every tag's header
+   */
+  layoutList(): void {
+    const elements = this.getItemsInDomOrder();
+    // Collapsing only applies to the grouped layout
+    elements.forEach((element) => element.classList.remove('ype-collapsed'));
+
+    if (this._ranking) {
+      const ranking = this._ranking;
+      const score = (element: Element): number => ranking.get(element) ?? -Infinity;
+      this.removeGroupHeaders();
+      applyGroupedOrder([
+        { items: sortByOriginalOrder(elements).sort((a, b) => score(b) - score(a) || 0) },
+      ]);
+      return;
+    }
+
+    const unpinned = elements.filter((element) => !this._pinned.includes(element));
+    const tags = collectTags(this._items.values());
+    const firstTagOf = (element: Element): string | undefined =>
+      this._items.get(element)?.tags?.[0];
+    const rest = this.sortUnpinned(unpinned.filter((element) => !firstTagOf(element)));
+
+    const hasPinnedGroup = this._pinned.length > 0 && !!this._pinnedHeader;
+    if (!hasPinnedGroup && tags.length === 0) {
+      this.removeGroupHeaders();
+      applyGroupedOrder([{ items: rest }]);
+      return;
+    }
+
+    const groups: ItemGroup[] = [];
+    if (hasPinnedGroup) {
+      groups.push({ header: this._pinnedHeader ?? undefined, items: this._pinned });
+    } else {
+      this._pinnedHeader?.remove();
+    }
+
+    for (const tag of tags) {
+      const count = Array.from(this._items.values()).filter((item) =>
+        item.tags?.includes(tag)
+      ).length;
+      const items = this.sortUnpinned(unpinned.filter((element) => firstTagOf(element) === tag));
+      if (collapsedTags.has(tag)) {
+        items.forEach((element) => element.classList.add('ype-collapsed'));
+      }
+      groups.push({ header: this.getTagHeader(tag, count), items });
+    }
+
+    // Tags no longer used by any playlist
+    for (const [tag, header] of this._tagHeaders) {
+      if (!tags.includes(tag)) {
+        header.remove();
+        this._tagHeaders.delete(tag);
+      }
+    }
 
-    logger.info('SelectionManager initialized', { itemCount: items.length });
+    this._allHeader ??= createGroupHeader('所有播放清單');
+    groups.push({ header: this._allHeader, items: rest });
+    applyGroupedOrder(groups);
   }
 
   /**
@@ -180,23 +941,31 @@ export class SelectionManager {
           if (!(node instanceof Element)) continue;
 
           // Check if the added node is a list item
-          const isListItem =
-            node.matches(SELECTORS.listItem.primary) ||
-            SELECTORS.listItem.fallback.some((sel) => node.matches(sel));
+          const isListItem = matchesSelector(node, SELECTORS.listItem);
 
           if (isListItem && !this._items.has(node)) {
             // New item added - initialize it
             const name = this.extractPlaylistName(node);
-            const isSelected = this.checkIfOriginallySelected(node);
+            const isSelected = this.readInitialState(node);
 
-            this._items.set(node, {
+            const item: PlaylistItem = {
               element: node,
               name,
               isSelected,
               wasOriginallySelected: isSelected,
-            });
+              ...parsePlaylistMetadata(node),
+            };
+            this._items.set(node, item);
 
             this.addCheckboxToItem(node, isSelected);
+            renderMetadataIndicator(item);
+            this._idResolver.resolveItemIds(Array.from(this._items.values()));
+            item.tags = getItemTags(this._tagStore, item);
+            renderTagButton(item);
+            recordOriginalOrder(this.getItemsInDomOrder());
+            if (this._pendingCreate) {
+              void this.selectIfCreated(node);
+            }
             logger.debug('New playlist item detected and enhanced', { name });
           }
         }
@@ -209,6 +978,107 @@ export class SelectionManager {
     });
   }
 
+  /**
+   * Create a playlist through YouTube's create flow and select it once it appears
+   * Pending selections of the other playlists are kept
+   */
+  async createAndSelectPlaylist(name: string, privacy: PlaylistPrivacy): Promise<void> {
+    if (!this._sheet || this._pendingCreate) return;
+
+    this.setPendingCreate({ name, selection: this.getPendingDiff(), startedAt: Date.now() });
+    const result = await createPlaylist(this._sheet, name, privacy);
+
+    if (result === 'failed') {
+      this.setPendingCreate(null);
+      showToast('無法建立播放清單，請改用 YouTube 的「新增播放清單」', 'error', 5000);
+    } else if (result === 'created-default-privacy') {
+      showToast(`已建立「${name}」，但無法設定隱私狀態`, 'warning', 5000);
+    }
+  }
+
+  /**
+   * Hand over a running playlist creation before this manager is replaced
+   */
+  takePendingCreate(): PendingCreate | null {
+    const pending = this._pendingCreate;
+    this.setPendingCreate(null);
+    return pending;
+  }
+
+  /**
+   * Track the playlist being created, giving up once it's overdue
+   * The deadline counts from the start of the flow, so it survives a handover
+   */
+  private setPendingCreate(pending: PendingCreate | null): void {
+    if (this._pendingCreateTimeout) {
+      clearTimeout(this._pendingCreateTimeout);
+      this._pendingCreateTimeout = null;
+    }
+    this._pendingCreate = pending;
+    if (!pending) return;
+
+    const remainingMs = pending.startedAt + CREATED_ITEM_TIMEOUT_MS - Date.now();
+    this._pendingCreateTimeout = setTimeout(
+      () => {
+        this._pendingCreateTimeout = null;
+        if (this._pendingCreate !== pending) return;
+        this._pendingCreate = null;
+        logger.warn('Created playlist did not show up in the sheet', { name: pending.name });
+        showToast(`「${pending.name}」沒有出現在清單中，請重新開啟選單確認`, 'error', 5000);
+      },
+      Math.max(0, remainingMs)
+    );
+  }
+
+  /**
+   * Re-apply the selection of a re-enhanced sheet and keep waiting for the created playlist
+   */
+  private restorePendingCreate(pending: PendingCreate): void {
+    this.setPendingCreate(pending);
+    for (const ref of pending.selection.added) {
+      const item = this.findItem(ref);
+      if (item) this.setSelected(item.element, true);
+    }
+    for (const ref of pending.selection.removed) {
+      const item = this.findItem(ref);
+      if (item) this.setSelected(item.element, false);
+    }
+
+    const created = Array.from(this._items.values()).find(
+      (item) => item.name.trim() === pending.name
+    );
+    if (created) {
+      void this.selectIfCreated(created.element);
+    }
+  }
+
+  /**
+   * Select a new item if it is the playlist being created
+   * YouTube may render the item before its name, so the name is polled briefly
+   */
+  private async selectIfCreated(element: Element): Promise<void> {
+    const name = this._pendingCreate?.name;
+    const item = this._items.get(element);
+    if (!name || !item) return;
+
+    const isCreated = await waitFor(
+      () => this.extractPlaylistName(element).trim() === name,
+      CREATED_ITEM_NAME_TIMEOUT_MS
+    );
+    if (!isCreated || this._pendingCreate?.name !== name) return;
+
+    this.setPendingCreate(null);
+    item.name = this.extractPlaylistName(element);
+    // Music adds the video to a playlist created from its dialog; picking it would add it again
+    if (!this.isMultiSelect) return;
+    this.setSelected(element, true);
+    this.handleSelectionChange();
+
+    // Show the new playlist: the query that created it matches nothing else
+    this.clearSearchInput();
+    logger.info('Created playlist selected', { name });
+  }
+
   /**
    * Extract playlist name from element
    */
@@ -221,35 +1091,10 @@ export class SelectionManager {
   }
 
   /**
-   * Check if video is already in this playlist
-   * YouTube uses a filled vs outline bookmark icon to indicate state:
-   * - Filled bookmark (shorter path ~130 chars): video IS in playlist
-   * - Outline bookmark (longer path ~192 chars, contains "ZM5"): video NOT in playlist
+   * Check if video is already in this playlist, as shown by the site (see profiles.ts)
    */
   private checkIfOriginallySelected(element: Element): boolean {
-    // Method 1: Check for YouTube's legacy checkbox (older UI)
-    const checkbox = element.querySelector('[role="checkbox"]');
-    if (checkbox) {
-      return checkbox.getAttribute('aria-checked') === 'true';
-    }
-
-    // Method 2: Check the trailing bookmark icon (new YouTube UI)
-    // The trailing element contains a bookmark SVG that indicates selection state
-    const trailing = element.querySelector('.yt-list-item-view-model__trailing');
-    if (trailing) {
-      const svgPath = trailing.querySelector('svg path');
-      if (svgPath) {
-        const d = svgPath.getAttribute('d') || '';
-        // Outline bookmark has an inner cutout path starting with "ZM5"
-        // Filled bookmark is a simple closed path without inner cutout
-        // If the path does NOT contain "ZM5", it's filled (video in playlist)
-        if (d.startsWith('M19 2H5') && !d.includes('ZM5')) {
-          return true;
-        }
-      }
-    }
-
-    return false;
+    return getSiteProfile().isItemInPlaylist(element);
   }
 
   /**
@@ -269,6 +1114,12 @@ export class SelectionManager {
 
     // Insert at the beginning of the item
     element.insertBefore(checkbox, element.firstChild);
+
+    // Pending-change badge at the end of the item
+    const badge = document.createElement('span');
+    badge.className = 'ype-change-badge';
+    element.appendChild(badge);
+    this.updateChangeBadge(element);
   }
 
   /**
@@ -279,6 +1130,29 @@ export class SelectionManager {
     if (checkbox) {
       checkbox.classList.toggle('ype-checkbox--checked', isChecked);
     }
+    this.updateChangeBadge(element);
+  }
+
+  /**
+   * Update the pending-change badge of an item
+   * - "+": will be added on save
+   * - "−": will be removed on save
+   * - "已儲存": already in the playlist and unchanged
+   */
+  private updateChangeBadge(element: Element): void {
+    const badge = element.querySelector('.ype-change-badge');
+    const item = this._items.get(element);
+    if (!badge || !item) return;
+
+    const change = this.getPendingChange(item);
+    let state: 'add' | 'remove' | 'saved' | 'none' = change ?? 'none';
+    if (!change && item.isSelected) state = 'saved';
+
+    const labels = { add: '+', remove: '−', saved: '已儲存', none: '' };
+    const titles = { add: '儲存後加入', remove: '儲存後移除', saved: '影片已在此清單中', none: '' };
+    badge.className = `ype-change-badge ype-change-badge--${state}`;
+    badge.textContent = labels[state];
+    badge.setAttribute('title', titles[state]);
   }
 
   /**
@@ -298,16 +1172,23 @@ export class SelectionManager {
     const interceptHandler = (e: Event) => {
       // Find the clicked item
       const target = e.target as Element;
-      const item = target.closest(SELECTORS.listItem.primary);
+      const item = closestElement(target, SELECTORS.listItem);
 
       if (item && this._items.has(item)) {
         // CRITICAL: Allow programmatic clicks during save operation to pass through
-        // The ype-saving class is added by saveToPlaylists/removeFromPlaylists
+        // The ype-saving class is added by clickItem during batch save/remove
         if (item.classList.contains('ype-saving')) {
           logger.debug('Allowing save click through', { item: this._items.get(item)?.name });
           return; // Don't intercept - let YouTube handle it
         }
 
+        // Without multi-select the site adds the video itself; only the tag button is ours
+        if (!this.isMultiSelect && !target.closest('.ype-tag-button')) {
+          const picked = this._items.get(item);
+          if (e.type === 'click' && picked) void recordUsage([toPlaylistRef(picked)]);
+          return;
+        }
+
         // Prevent default YouTube behavior for user clicks
         e.preventDefault();
         e.stopPropagation();
@@ -315,7 +1196,17 @@ export class SelectionManager {
 
         // Only toggle on click (not on mousedown/pointerdown) to avoid double-toggle
         if (e.type === 'click') {
-          this.toggle(item);
+          if (target.closest('.ype-tag-button')) {
+            // The tag button edits the item's tags instead of toggling it
+            this.openTagMenu(item);
+          } else if ((e as MouseEvent).shiftKey && this._rangeAnchor) {
+            // Shift-click: extend the anchor's state over the range
+            this.selectRange(this._rangeAnchor, item);
+          } else {
+            // Plain and Ctrl/Cmd-click toggle a single item and move the anchor
+            this.toggle(item);
+            this._rangeAnchor = item;
+          }
         }
       }
     };
@@ -327,6 +1218,20 @@ export class SelectionManager {
     this._listContainer.addEventListener('mousedown', interceptHandler, { capture: true, signal });
     this._listContainer.addEventListener('pointerdown', interceptHandler, { capture: true, signal });
 
+    // Right-click opens the tag menu instead of the browser's context menu
+    this._listContainer.addEventListener(
+      'contextmenu',
+      (e) => {
+        const item = closestElement(e.target as Element, SELECTORS.listItem);
+        if (!item || !this._items.has(item)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        const { clientX, clientY } = e as MouseEvent;
+        this.openTagMenu(item, { x: clientX, y: clientY });
+      },
+      { capture: true, signal }
+    );
+
     logger.debug('Click interception installed with AbortController');
   }
 
@@ -343,23 +1248,63 @@ export class SelectionManager {
     this._footer = document.createElement('div');
     this._footer.className = 'ype-footer';
     this._footer.innerHTML = `
-      <span class="ype-selected-count">已選擇 ${this.selectedCount} 個清單</span>
+      <div class="ype-bulk-mode-banner ype-hidden"></div>
+      <div class="ype-bulk-actions" title="僅套用於目前搜尋結果中顯示的清單">
+        <button class="ype-bulk-btn" data-action="select">全選</button>
+        <button class="ype-bulk-btn" data-action="clear">全部取消</button>
+        <button class="ype-bulk-btn" data-action="invert">反向選取</button>
+        <button class="ype-bulk-btn" data-action="revert">還原</button>
+      </div>
+      <span class="ype-selected-count"></span>
       <div class="ype-actions">
+        <button class="ype-btn ype-btn--mode" aria-pressed="false" title="勾選後立即套用，不需按儲存">即時套用</button>
+        <button class="ype-btn ype-btn--review">檢視變更</button>
         <button class="ype-btn ype-btn--cancel">取消</button>
         <button class="ype-btn ype-btn--save">儲存</button>
       </div>
     `;
 
     // Add event listeners
+    const reviewBtn = this._footer.querySelector('.ype-btn--review');
     const cancelBtn = this._footer.querySelector('.ype-btn--cancel');
     const saveBtn = this._footer.querySelector('.ype-btn--save');
 
+    const { bulk } = this._options;
+    const bulkBanner = this._footer.querySelector('.ype-bulk-mode-banner');
+    if (bulk && bulkBanner) {
+      bulkBanner.textContent = `批次模式：勾選的清單會加入、勾選後再取消的清單會移除，套用到 ${bulk.videoCount} 部影片；未動過的清單維持不變`;
+      bulkBanner.classList.remove('ype-hidden');
+    }
+
+    const modeBtn = this._footer.querySelector('.ype-btn--mode');
+    if (bulk) {
+      // Bulk mode relies on Save to collect the diff
+      modeBtn?.remove();
+    }
+    modeBtn?.addEventListener('click', () => {
+      const mode: ApplyMode = this._applyMode === 'instant' ? 'batch' : 'instant';
+      this.setApplyMode(mode);
+      void updateSettings({ applyMode: mode });
+    });
+
+    reviewBtn?.addEventListener('click', () => this.toggleReviewPanel());
     cancelBtn?.addEventListener('click', () => this.handleCancel(sheet));
-    saveBtn?.addEventListener('click', () => this.handleSave());
+    saveBtn?.addEventListener('click', () => this.requestSave());
+
+    // Bulk actions only affect items shown by the current search filter
+    const bulkActions: Record<string, () => void> = {
+      select: () => this.selectVisible(),
+      clear: () => this.clearVisible(),
+      invert: () => this.invertVisible(),
+      revert: () => this.revertVisible(),
+    };
+    this._footer.querySelectorAll<HTMLElement>('.ype-bulk-btn').forEach((button) => {
+      button.addEventListener('click', () => bulkActions[button.dataset.action || '']?.());
+    });
 
     // Find the dropdown's contentWrapper - it's the parent of the sheet
-    // Structure: tp-yt-iron-dropdown > #contentWrapper > yt-sheet-view-model
-    const contentWrapper = sheet.closest('#contentWrapper') || sheet.closest('tp-yt-iron-dropdown');
+    // (on YouTube Music, the dialog itself)
+    const contentWrapper = getSiteProfile().getDialogContainer(sheet);
 
     if (contentWrapper) {
       // Insert footer after the sheet in the contentWrapper
@@ -370,6 +1315,8 @@ export class SelectionManager {
       sheet.appendChild(this._footer);
       logger.warn('Could not find contentWrapper, footer may be clipped');
     }
+
+    this.updateFooterCount();
   }
 
   /**
@@ -377,9 +1324,212 @@ export class SelectionManager {
    */
   private updateFooterCount(): void {
     const countEl = this._footer?.querySelector('.ype-selected-count');
-    if (countEl) {
-      countEl.textContent = `已選擇 ${this.selectedCount} 個清單`;
+    if (countEl && this._applyMode === 'instant') {
+      const held = this._heldChanges.size;
+      countEl.textContent =
+        (this._instantStatus || '點擊清單會立即套用') +
+        (held > 0 ? `（${held} 項先前的變更未套用，切回批次模式後儲存）` : '');
+      countEl.setAttribute('title', `已選擇 ${this.selectedCount} 個清單`);
+    } else if (countEl) {
+      const addCount = this.getItemsToAdd().length;
+      const removeCount = this.getItemsToRemove().length;
+      countEl.innerHTML =
+        addCount + removeCount === 0
+          ? '沒有變更'
+          : `<span class="ype-count-add">+${addCount}</span> / ` +
+            `<span class="ype-count-remove">−${removeCount}</span>`;
+      countEl.setAttribute('title', `已選擇 ${this.selectedCount} 個清單`);
+    }
+
+    // Keep an open review panel in sync with the selection
+    if (this._reviewPanel) {
+      this.renderReviewPanel();
+    }
+  }
+
+  /**
+   * React to a selection change made by the user
+   * Batch mode only updates the footer; instant mode applies the change right away
+   */
+  private handleSelectionChange(): void {
+    this.updateFooterCount();
+    if (this._applyMode === 'instant') {
+      void this.applyInstantChanges();
+    }
+  }
+
+  /**
+   * Switch between batch and instant mode
+   * Bulk pickers and sheets without multi-select always stay in batch mode. Changes pending when switching to instant
+   * aren't applied without the user seeing them: they're held until the user switches
+   * back and saves (through the review panel if enabled) or sets the item again
+   */
+  private setApplyMode(mode: ApplyMode): void {
+    this._applyMode = this._options.bulk || !this.isMultiSelect ? 'batch' : mode;
+    this._instantStatus = '';
+
+    const isInstant = this._applyMode === 'instant';
+    this._footer?.classList.toggle('ype-footer--instant', isInstant);
+    this._footer?.querySelector('.ype-btn--mode')?.setAttribute('aria-pressed', String(isInstant));
+    if (isInstant) {
+      this.closeReviewPanel();
+      this._heldChanges = new Set(this.getChangedItems().map((item) => item.element));
+    } else {
+      this._heldChanges.clear();
+    }
+    this.updateFooterCount();
+  }
+
+  /**
+   * Show a live status message in the footer (instant mode)
+   */
+  private setInstantStatus(status: string): void {
+    this._instantStatus = status;
+    this.updateFooterCount();
+  }
+
+  /**
+   * Apply pending changes one round at a time until none are left (instant mode)
+   * Uses the same verified click path as Save; toggles made while a round is
+   * running are picked up by the next round. Held changes are skipped
+   */
+  private async applyInstantChanges(): Promise<void> {
+    if (this._isSaving) return;
+    this._isSaving = true;
+
+    try {
+      while (this._applyMode === 'instant') {
+        const isInstant = (item: PlaylistItem): boolean => !this._heldChanges.has(item.element);
+        const itemsToAdd = this.getItemsToAdd().filter(isInstant);
+        const itemsToRemove = this.getItemsToRemove().filter(isInstant);
+        const count = itemsToAdd.length + itemsToRemove.length;
+        if (count === 0) break;
+
+        const names = [...itemsToAdd, ...itemsToRemove].map((item) => item.name);
+        this.setInstantStatus(
+          count === 1 ? `正在套用「${names[0]}」…` : `正在套用 ${count} 項變更…`
+        );
+
+        const result = await this.commitChanges(itemsToAdd, itemsToRemove);
+        void recordUsage(result.added.map(toPlaylistRef));
+
+        // Nothing stays pending in instant mode: failed toggles snap back to YouTube's state
+        for (const item of result.failed) {
+          item.isSelected = item.wasOriginallySelected;
+          this.updateCheckboxUI(item.element, item.isSelected);
+        }
+        this.setInstantStatus(formatSaveSummary(result) || '沒有變更');
+      }
+    } catch (error) {
+      logger.error('Instant apply failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.setInstantStatus('套用失敗，請重試');
+    } finally {
+      this._isSaving = false;
+      this.destroyIfRequested();
+    }
+  }
+
+  /**
+   * Save, or show the review panel first when the user asked to always review
+   * Entry point for the Save button and Ctrl+Enter
+   */
+  requestSave(): void {
+    // Instant mode has no Save; held changes are saved after switching back to batch mode
+    if (this._applyMode === 'instant' || !this.isMultiSelect) return;
+
+    if (this._reviewBeforeSave && this.hasChanges && !this._reviewPanel) {
+      this.toggleReviewPanel();
+      return;
+    }
+    this.closeReviewPanel();
+    void this.handleSave();
+  }
+
+  /**
+   * Open or close the panel listing every pending change
+   */
+  private toggleReviewPanel(): void {
+    if (this._reviewPanel) {
+      this.closeReviewPanel();
+      return;
+    }
+    if (!this._footer) return;
+
+    this._reviewPanel = document.createElement('div');
+    this._reviewPanel.className = 'ype-review-panel';
+    this._footer.insertBefore(this._reviewPanel, this._footer.firstChild);
+    this.renderReviewPanel();
+  }
+
+  /**
+   * Close the review panel if open
+   */
+  private closeReviewPanel(): void {
+    this._reviewPanel?.remove();
+    this._reviewPanel = null;
+  }
+
+  /**
+   * Render pending additions and removals; removals are highlighted as destructive
+   */
+  private renderReviewPanel(): void {
+    const panel = this._reviewPanel;
+    if (!panel) return;
+    panel.replaceChildren();
+
+    const appendSection = (title: string, items: PlaylistItem[], modifier: string): void => {
+      if (items.length === 0) return;
+      const heading = document.createElement('div');
+      heading.className = `ype-review-heading ype-review-heading--${modifier}`;
+      heading.textContent = `${title}（${items.length}）`;
+      const list = document.createElement('ul');
+      list.className = `ype-review-list ype-review-list--${modifier}`;
+      for (const item of items) {
+        const entry = document.createElement('li');
+        entry.textContent = item.name;
+        list.appendChild(entry);
+      }
+      panel.append(heading, list);
+    };
+
+    const itemsToAdd = this.getItemsToAdd();
+    const itemsToRemove = this.getItemsToRemove();
+
+    if (itemsToAdd.length === 0 && itemsToRemove.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'ype-review-empty';
+      empty.textContent = '沒有變更';
+      panel.appendChild(empty);
     }
+    appendSection('將加入', itemsToAdd, 'add');
+    appendSection('將從以下清單移除', itemsToRemove, 'remove');
+
+    const options = document.createElement('label');
+    options.className = 'ype-review-option';
+    const alwaysReview = document.createElement('input');
+    alwaysReview.type = 'checkbox';
+    alwaysReview.checked = this._reviewBeforeSave;
+    alwaysReview.addEventListener('change', () => {
+      this._reviewBeforeSave = alwaysReview.checked;
+      void updateSettings({ reviewBeforeSave: alwaysReview.checked });
+    });
+    options.append(alwaysReview, document.createTextNode('每次儲存前都先檢視'));
+
+    const confirmBtn = document.createElement('button');
+    confirmBtn.className = 'ype-btn ype-btn--save';
+    confirmBtn.textContent = '確認儲存';
+    confirmBtn.disabled = itemsToAdd.length === 0 && itemsToRemove.length === 0;
+    confirmBtn.addEventListener('click', () => {
+      this.closeReviewPanel();
+      void this.handleSave();
+    });
+
+    const actions = document.createElement('div');
+    actions.className = 'ype-review-actions';
+    actions.append(options, confirmBtn);
+    panel.appendChild(actions);
   }
 
   /**
@@ -403,9 +1553,9 @@ export class SelectionManager {
   }
 
   /**
-   * Handle save button click
+   * Handle save button click (also triggered by Ctrl+Enter)
    */
-  private async handleSave(): Promise<void> {
+  async handleSave(): Promise<void> {
     if (this._isSaving) return;
 
     const itemsToAdd = this.getItemsToAdd();
@@ -416,32 +1566,37 @@ export class SelectionManager {
       return;
     }
 
+    // Bulk mode: hand the diff over; it is applied to every collected video in turn
+    const { bulk } = this._options;
+    if (bulk) {
+      const diff = this.getPendingDiff();
+      this.reset();
+      this.clearSearchInput();
+      this.close();
+      bulk.onSave(diff);
+      return;
+    }
+
     this._isSaving = true;
     this.setLoadingState(true);
 
     try {
-      // Process additions
-      await this.saveToPlaylists(itemsToAdd);
-
-      // Process removals (if needed)
-      await this.removeFromPlaylists(itemsToRemove);
-
-      const total = itemsToAdd.length + itemsToRemove.length;
-      showToast(`已更新 ${total} 個播放清單`, 'success');
+      const result = await this.commitChanges(itemsToAdd, itemsToRemove);
+      void recordUsage(result.added.map(toPlaylistRef));
 
-      // Update original state to match current selections
-      for (const [, item] of this._items) {
-        item.wasOriginallySelected = item.isSelected;
+      if (result.failed.length > 0) {
+        // Keep the sheet open so the user can retry the failed playlists
+        showToast(formatSaveSummary(result), 'error', 6000);
+        return;
       }
 
+      this.showSavedToast(result);
+
       // Clear search input
       this.clearSearchInput();
 
       // Close sheet after successful save
-      const sheet = document.querySelector('.ype-enhanced');
-      if (sheet) {
-        this.closeSheet(sheet);
-      }
+      this.close();
     } catch (error) {
       logger.error('Save failed', {
         error: error instanceof Error ? error.message : String(error),
@@ -450,7 +1605,146 @@ export class SelectionManager {
     } finally {
       this._isSaving = false;
       this.setLoadingState(false);
+      this.destroyIfRequested();
+    }
+  }
+
+  /**
+   * Apply a diff to this sheet's playlists, e.g. to undo a previous save
+   * Playlists are matched by ID or name; the same verified click path as Save is used
+   * @throws If a save is already running on this sheet (its clicks would interleave)
+   */
+  async applyChanges(diff: SaveDiff): Promise<BatchSaveResult> {
+    if (this._isSaving) {
+      throw new Error('Another save is still running on this sheet');
+    }
+
+    const itemsToAdd: PlaylistItem[] = [];
+    const itemsToRemove: PlaylistItem[] = [];
+
+    const collect = (
+      refs: SaveDiff['added'],
+      inPlaylist: boolean,
+      target: PlaylistItem[]
+    ): void => {
+      for (const ref of refs) {
+        const item = this.findItem(ref);
+        if (!item) {
+          logger.warn('Playlist from diff not found in sheet', { name: ref.name });
+          continue;
+        }
+        item.isSelected = inPlaylist;
+        this.updateCheckboxUI(item.element, inPlaylist);
+        if (item.wasOriginallySelected !== inPlaylist) {
+          target.push(item);
+        }
+      }
+    };
+    collect(diff.added, true, itemsToAdd);
+    collect(diff.removed, false, itemsToRemove);
+
+    this._isSaving = true;
+    this.setLoadingState(true);
+    try {
+      return await this.commitChanges(itemsToAdd, itemsToRemove);
+    } finally {
+      this._isSaving = false;
+      this.setLoadingState(false);
+      this.destroyIfRequested();
+    }
+  }
+
+  /**
+   * Click through additions and removals, then sync state with what YouTube confirmed
+   */
+  private async commitChanges(
+    itemsToAdd: PlaylistItem[],
+    itemsToRemove: PlaylistItem[]
+  ): Promise<BatchSaveResult> {
+    const videoId = this._videoId;
+    const progress: SaveProgress = { done: 0, total: itemsToAdd.length + itemsToRemove.length };
+
+    // Persist the queue so an interrupted save can be resumed on the next visit
+    if (videoId) {
+      await startPendingSave(
+        videoId,
+        itemsToAdd.map(toPlaylistRef),
+        itemsToRemove.map(toPlaylistRef)
+      );
+    }
+
+    let added: ClickBatchResult;
+    let removed: ClickBatchResult;
+    this._throttle = new AdaptiveThrottle(this._throttleConfig);
+    try {
+      // Process additions
+      added = await this.saveToPlaylists(itemsToAdd, progress);
+
+      // Process removals (if needed)
+      removed = await this.removeFromPlaylists(itemsToRemove, progress);
+    } finally {
+      this._throttle = null;
+      if (videoId) {
+        await finishPendingSave(videoId);
+      }
+    }
+
+    const result: BatchSaveResult = {
+      added: added.succeeded,
+      removed: removed.succeeded,
+      failed: [...added.failed, ...removed.failed],
+    };
+
+    // Confirmed items now match YouTube's state (the selection may have been
+    // toggled again meanwhile in instant mode, so the confirmed state is used)
+    for (const item of result.added) {
+      item.wasOriginallySelected = true;
+      this.updateChangeBadge(item.element);
+    }
+    for (const item of result.removed) {
+      item.wasOriginallySelected = false;
+      this.updateChangeBadge(item.element);
+    }
+
+    // Failed items keep the user's selection so Save can simply be retried,
+    // but their original state is re-read in case YouTube partially applied them
+    for (const item of result.failed) {
+      item.wasOriginallySelected = this.checkIfOriginallySelected(item.element);
+      item.element.classList.add('ype-item--failed');
+      this.updateChangeBadge(item.element);
+    }
+    this.updateFooterCount();
+
+    logger.info('Batch save finished', {
+      added: result.added.length,
+      removed: result.removed.length,
+      failed: result.failed.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Show the save summary, offering "Undo" when the video is known
+   */
+  private showSavedToast(result: BatchSaveResult): void {
+    const summary = formatSaveSummary(result);
+    const videoId = this._videoId;
+    const { onUndo } = this._options;
+
+    if (!videoId || !onUndo) {
+      showToast(summary, 'success', 4000);
+      return;
     }
+
+    recordSave(videoId, {
+      added: result.added.map(toPlaylistRef),
+      removed: result.removed.map(toPlaylistRef),
+    });
+    showToast(summary, 'success', UNDO_TOAST_DURATION_MS, {
+      label: '復原',
+      onClick: () => onUndo(videoId),
+    });
   }
 
   /**
@@ -465,49 +1759,136 @@ export class SelectionManager {
   }
 
   /**
-   * Get the clickable target element for a playlist item
-   * Priority: [role="checkbox"] (legacy) > .yt-list-item-view-model__label (new UI) > element (fallback)
+   * Click a playlist item, letting the click through our interceptor
    */
-  private getClickTarget(element: Element): HTMLElement {
-    return (element.querySelector('[role="checkbox"]') ||
-      element.querySelector('.yt-list-item-view-model__label') ||
-      element) as HTMLElement;
+  private clickItem(item: PlaylistItem): void {
+    const clickTarget = getSiteProfile().getClickTarget(item.element);
+
+    // Store our handler state - this tells our interceptor to let the click through
+    item.element.classList.add('ype-saving');
+
+    // Use a real click() call instead of dispatchEvent for better compatibility
+    clickTarget.click();
+
+    item.element.classList.remove('ype-saving');
   }
 
   /**
-   * Batch save to playlists by simulating clicks (T020)
-   * YouTube's new UI requires clicking on the label element to trigger save
+   * Click an item until YouTube reports the wanted state
+   * The state is re-read with checkIfOriginallySelected after each click,
+   * so a click that YouTube ignored is detected and retried a bounded number of times
+   * @returns Whether YouTube confirmed the wanted state
    */
-  private async saveToPlaylists(items: PlaylistItem[]): Promise<void> {
-    for (const item of items) {
-      const clickTarget = this.getClickTarget(item.element);
+  private async applyItemState(item: PlaylistItem, inPlaylist: boolean): Promise<boolean> {
+    const isConfirmed = (): boolean => this.checkIfOriginallySelected(item.element) === inPlaylist;
+
+    for (let attempt = 0; attempt <= MAX_CLICK_RETRIES; attempt++) {
+      // A late response to the previous attempt may already have applied the change;
+      // clicking again would toggle it back
+      if (isConfirmed()) return true;
+
+      this.clickItem(item);
+      const clickedAt = Date.now();
+
+      if (await waitFor(isConfirmed, CLICK_CONFIRM_TIMEOUT_MS, CLICK_CONFIRM_POLL_MS)) {
+        this._throttle?.recordConfirmed(Date.now() - clickedAt);
+        return true;
+      }
+
+      this._throttle?.recordFailure();
+
+      logger.warn('Playlist click not confirmed', {
+        name: item.name,
+        attempt: attempt + 1,
+        maxAttempts: MAX_CLICK_RETRIES + 1,
+      });
+    }
 
-      // Store our handler state - this tells our interceptor to let the click through
-      item.element.classList.add('ype-saving');
+    return false;
+  }
 
-      // Use a real click() call instead of dispatchEvent for better compatibility
-      (clickTarget as HTMLElement).click();
+  /**
+   * Apply the wanted state to each item in turn, collecting confirmed and failed items
+   */
+  private async applyBatch(
+    items: PlaylistItem[],
+    inPlaylist: boolean,
+    progress: SaveProgress
+  ): Promise<ClickBatchResult> {
+    const result: ClickBatchResult = { succeeded: [], failed: [] };
+    let lastError: string | null = null;
 
-      item.element.classList.remove('ype-saving');
+    for (const item of items) {
+      const confirmed = await this.applyItemState(item, inPlaylist);
+      (confirmed ? result.succeeded : result.failed).push(item);
+      await this.reportProgress(item, confirmed, progress);
+
+      // Back off when YouTube shows a new error snackbar (a lingering one counts once)
+      const error = getVisibleErrorSnackbar();
+      if (error && error !== lastError) {
+        logger.warn('YouTube reported an error during batch save', { message: error });
+        this._throttle?.recordFailure();
+      }
+      lastError = error;
 
-      // Wait between clicks to avoid rate limiting
-      await delay(BATCH_CLICK_DELAY_MS);
+      // Wait between clicks to avoid rate limiting; adapts to YouTube's response time
+      // (nothing to wait for after the last click of the save)
+      if (this._throttle && progress.done < progress.total) {
+        await this._throttle.wait();
+      }
     }
+
+    return result;
+  }
+
+  /**
+   * Batch save to playlists by simulating clicks (T020)
+   * YouTube's new UI requires clicking on the label element to trigger save
+   */
+  private async saveToPlaylists(
+    items: PlaylistItem[],
+    progress: SaveProgress
+  ): Promise<ClickBatchResult> {
+    return this.applyBatch(items, true, progress);
   }
 
   /**
    * Batch remove from playlists
    * YouTube toggles the state, so clicking again removes it
    */
-  private async removeFromPlaylists(items: PlaylistItem[]): Promise<void> {
-    for (const item of items) {
-      const clickTarget = this.getClickTarget(item.element);
+  private async removeFromPlaylists(
+    items: PlaylistItem[],
+    progress: SaveProgress
+  ): Promise<ClickBatchResult> {
+    return this.applyBatch(items, false, progress);
+  }
+
+  /**
+   * Update the persisted queue and the progress toast after an item was processed
+   * Only confirmed items leave the queue, so a resumed save retries the failed ones
+   */
+  private async reportProgress(
+    item: PlaylistItem,
+    confirmed: boolean,
+    progress: SaveProgress
+  ): Promise<void> {
+    progress.done++;
+
+    if (confirmed && this._videoId) {
+      await markPendingSaveDone(this._videoId, toPlaylistRef(item));
+    }
 
-      item.element.classList.add('ype-saving');
-      clickTarget.click();
-      item.element.classList.remove('ype-saving');
+    if (progress.total > 1 && progress.done < progress.total) {
+      showProgressToast(`正在儲存 ${progress.done}/${progress.total}：「${item.name}」`);
+    }
+  }
 
-      await delay(BATCH_CLICK_DELAY_MS);
+  /**
+   * Close the managed sheet
+   */
+  close(): void {
+    if (this._sheet) {
+      this.closeSheet(this._sheet);
     }
   }
 
@@ -537,6 +1918,32 @@ export class SelectionManager {
     }
   }
 
+  /**
+   * Clean up, but let a running batch save finish first
+   * Used when the sheet is closed or replaced mid-save: the remaining clicks
+   * still go through and the result toast is still shown
+   */
+  destroyAfterSave(): void {
+    if (!this._isSaving) {
+      this.destroy();
+      return;
+    }
+    this._destroyRequested = true;
+    // Drop the UI right away; the save loop only needs the item elements
+    this._footer?.remove();
+    logger.info('Cleanup deferred until running save finishes');
+  }
+
+  /**
+   * Run a deferred destroy once the save has finished
+   */
+  private destroyIfRequested(): void {
+    if (this._destroyRequested) {
+      this._destroyRequested = false;
+      this.destroy();
+    }
+  }
+
   /**
    * Clean up when sheet is closed
    * Uses AbortController.abort() to reliably remove all event listeners
@@ -556,10 +1963,31 @@ export class SelectionManager {
     this._listObserver?.disconnect();
     this._listObserver = null;
 
-    // Remove footer from DOM
+    // A playlist still being created is handed over or dropped with the sheet
+    this.setPendingCreate(null);
+
+    // Remove footer and tag menu from DOM
     this._footer?.remove();
+    this._reviewPanel = null;
+    this._tagMenu.close();
+
+    // Put YouTube's items back in their original order, with collapsed groups shown again
+    if (this._listContainer) {
+      const elements = this.getItemsInDomOrder();
+      elements.forEach((element) => element.classList.remove('ype-collapsed'));
+      restoreOriginalOrder(this._listContainer, elements);
+    }
 
     this._items.clear();
+    this._bulkMarked.clear();
+    this._heldChanges.clear();
+    this._pinned = [];
+    this._pinnedHeader = null;
+    this._allHeader = null;
+    this._tagHeaders.clear();
+    this._tagStore = {};
+    this._rangeAnchor = null;
+    this._sheet = null;
     this._listContainer = null;
     this._footer = null;
     this._isSaving = false;
@@ -570,8 +1998,11 @@ export class SelectionManager {
 /**
  * Set up multiselect for a sheet
  */
-export function setupMultiSelect(sheet: Element): SelectionManager {
-  const manager = new SelectionManager();
+export function setupMultiSelect(
+  sheet: Element,
+  options: SelectionManagerOptions = {}
+): SelectionManager {
+  const manager = new SelectionManager(options);
   manager.initialize(sheet);
   return manager;
 }
@@ -0,0 +1,186 @@
+/**
+ * Mutation Dispatcher Module
+ *
+ * One MutationObserver on document.body for all page-level DOM watching
+ * - Added elements are routed to handlers by selector; routes can be added and
+ *   removed while observing (e.g. by bulk mode while it's on)
+ * - Attribute changes are routed to handlers by tag name
+ * - Cheap pre-filtering keeps the per-mutation cost low on long YouTube sessions:
+ *   non-content tags and our own UI are skipped, and each route costs at most one
+ *   matches() plus one querySelector() per added element
+ * - Processing time is recorded per batch (shown in the diagnostics panel)
+ */
+
+import { logger } from '../utils/logger';
+
+/** Batches slower than this are logged (ms) */
+const SLOW_BATCH_MS = 16;
+
+/** Added elements that never contain YouTube UI */
+const IGNORED_TAGS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'svg', 'path', 'IMG', 'SOURCE']);
+
+/**
+ * Handler for added elements
+ */
+export interface AddedElementRoute {
+  /** Selector of the elements handled; read per batch since selector overrides may change */
+  getSelector: () => string;
+  /** Called with an added element that matches the selector or contains a match */
+  onAdded: (element: Element) => void;
+}
+
+/**
+ * Handler for attribute changes on one kind of element
+ */
+export interface AttributeRoute {
+  /** Tag name of the watched elements, as in Element.tagName (uppercase) */
+  tagName: string;
+  /** Watched attribute names */
+  attributes: string[];
+  onChange: (element: Element, attributeName: string) => void;
+}
+
+/**
+ * Cost of the mutation processing so far
+ */
+export interface MutationStats {
+  /** Number of observer callbacks */
+  batches: number;
+  /** Number of mutation records processed */
+  mutations: number;
+  /** Total processing time (ms) */
+  totalMs: number;
+  /** Slowest callback (ms) */
+  maxMs: number;
+}
+
+/**
+ * Our own UI, which never contains what the routes look for
+ */
+function isOwnElement(element: Element): boolean {
+  return typeof element.className === 'string' && element.className.startsWith('ype-');
+}
+
+/**
+ * Routes the mutations of document.body to handlers
+ */
+export class MutationDispatcher {
+  private _observer: MutationObserver | null = null;
+  private _addedRoutes: AddedElementRoute[];
+  private _attributeRoutes = new Map<string, AttributeRoute[]>();
+  private _stats: MutationStats = { batches: 0, mutations: 0, totalMs: 0, maxMs: 0 };
+
+  constructor(addedRoutes: AddedElementRoute[], attributeRoutes: AttributeRoute[]) {
+    this._addedRoutes = addedRoutes;
+    for (const route of attributeRoutes) {
+      const routes = this._attributeRoutes.get(route.tagName) ?? [];
+      routes.push(route);
+      this._attributeRoutes.set(route.tagName, routes);
+    }
+  }
+
+  /**
+   * Route added elements to another handler until the returned function is called
+   */
+  addRoute(route: AddedElementRoute): () => void {
+    // Copied on write, so a batch being dispatched keeps its routes
+    this._addedRoutes = [...this._addedRoutes, route];
+    return () => {
+      this._addedRoutes = this._addedRoutes.filter((existing) => existing !== route);
+    };
+  }
+
+  /**
+   * Start observing document.body
+   */
+  start(): void {
+    if (this._observer) return;
+
+    const attributeFilter = Array.from(
+      new Set(
+        Array.from(this._attributeRoutes.values()).flatMap((routes) =>
+          routes.flatMap((route) => route.attributes)
+        )
+      )
+    );
+
+    this._observer = new MutationObserver((mutations) => this.dispatch(mutations));
+    this._observer.observe(document.body, {
+      childList: true,
+      subtree: true,
+      ...(attributeFilter.length > 0 ? { attributes: true, attributeFilter } : {}),
+    });
+  }
+
+  /**
+   * Route one batch of mutations, recording how long it took
+   */
+  private dispatch(mutations: MutationRecord[]): void {
+    const start = performance.now();
+    const addedRoutes = this._addedRoutes;
+    const selectors = addedRoutes.map((route) => route.getSelector());
+
+    for (const mutation of mutations) {
+      if (mutation.type === 'attributes') {
+        const target = mutation.target as Element;
+        const routes = this._attributeRoutes.get(target.tagName);
+        if (!routes || !mutation.attributeName) continue;
+        for (const route of routes) {
+          if (route.attributes.includes(mutation.attributeName)) {
+            route.onChange(target, mutation.attributeName);
+          }
+        }
+        continue;
+      }
+
+      for (const node of mutation.addedNodes) {
+        if (!(node instanceof Element)) continue;
+        if (IGNORED_TAGS.has(node.tagName) || isOwnElement(node)) continue;
+
+        addedRoutes.forEach((route, i) => {
+          const selector = selectors[i];
+          if (
+            node.matches(selector) ||
+            (node.firstElementChild !== null && node.querySelector(selector) !== null)
+          ) {
+            route.onAdded(node);
+          }
+        });
+      }
+    }
+
+    this.recordBatch(mutations.length, performance.now() - start);
+  }
+
+  /**
+   * Add a batch to the stats
+   */
+  private recordBatch(mutationCount: number, elapsedMs: number): void {
+    this._stats.batches++;
+    this._stats.mutations += mutationCount;
+    this._stats.totalMs += elapsedMs;
+    this._stats.maxMs = Math.max(this._stats.maxMs, elapsedMs);
+
+    if (elapsedMs > SLOW_BATCH_MS) {
+      logger.debug('Slow mutation batch', {
+        mutations: mutationCount,
+        elapsedMs: Math.round(elapsedMs),
+      });
+    }
+  }
+
+  /**
+   * Get the processing cost so far
+   */
+  getStats(): MutationStats {
+    return { ...this._stats };
+  }
+
+  /**
+   * Stop observing
+   */
+  disconnect(): void {
+    this._observer?.disconnect();
+    this._observer = null;
+  }
+}
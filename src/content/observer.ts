@@ -2,16 +2,20 @@
  * MutationObserver Module
  *
  * Following Constitution Principle I (Content Script Isolation):
- * - Use MutationObserver for DOM monitoring (not polling)
+ * - Use MutationObserver for DOM monitoring (not polling), through one MutationDispatcher
  * - Detect playlist sheet appearance
  * - T033: Handle YouTube SPA navigation
  * - T034: URL pattern detection for different page types
  */
 
 import type { SheetCallback } from '../types';
-import { SELECTORS, PLAYLIST_TITLE_PATTERNS, findElement } from './selectors';
+import { SELECTORS, findElement, getSelectorCandidates } from './selectors';
 import { logger } from '../utils/logger';
 import { cleanup as cleanupManagers } from './enhancer';
+import type { SheetVerdict } from './detector';
+import { getSiteProfile } from './profiles';
+import { recordSheetCheck } from './diagnostics';
+import { MutationDispatcher } from './mutations';
 
 /** Timing constants for dropdown observation */
 const TIMING = {
@@ -23,73 +27,40 @@ const TIMING = {
   DROPDOWN_CHECK_FALLBACK_MS: 300,
   /** Secondary fallback for very slow loads (ms) */
   DROPDOWN_CHECK_SECONDARY_MS: 400,
-  /** Interval for re-checking new dropdowns (ms) */
-  DROPDOWN_RECHECK_INTERVAL_MS: 1000,
-  /** Stop re-checking after this duration (ms) */
-  DROPDOWN_RECHECK_TIMEOUT_MS: 30000,
+  /** First re-check of a sheet that is still uncertain; doubles with each attempt (ms) */
+  UNCERTAIN_RECHECK_BASE_MS: 300,
+  /** Re-checks of an uncertain sheet before giving up (~19 s in total) */
+  UNCERTAIN_RECHECK_MAX_ATTEMPTS: 6,
 } as const;
 
+/**
+ * Element the site uses to show/hide menus (including the save sheet):
+ * tp-yt-iron-dropdown on YouTube, tp-yt-paper-dialog on YouTube Music
+ */
+const DROPDOWN_TAG = getSiteProfile().dialogTag;
+
 /** Set of already-enhanced sheets to prevent double-enhancement */
 const enhancedSheets = new WeakSet<Element>();
 
+/** Uncertain sheets with a re-check scheduled, so each has a single retry chain */
+const recheckingSheets = new WeakSet<Element>();
+
 /**
- * Quick pre-check result type
+ * Perform a quick pre-check to determine sheet type
+ * This allows us to act faster in clear-cut cases:
  * - 'playlist': Definitely a playlist sheet, can enhance immediately
  * - 'not-playlist': Definitely NOT a playlist sheet, can cleanup immediately
  * - 'uncertain': Need more time to determine, use fallback delay
- */
-type QuickCheckResult = 'playlist' | 'not-playlist' | 'uncertain';
-
-/**
- * Perform a quick pre-check to determine sheet type
- * This allows us to act faster in clear-cut cases
+ * Every outcome is recorded for the diagnostics panel
  *
  * @param sheet The sheet element to check
- * @returns QuickCheckResult indicating what action to take
+ * @returns SheetVerdict indicating what action to take
  */
-function quickPreCheck(sheet: Element): QuickCheckResult {
-  // Check for definitive THREE-DOT MENU indicators first (fastest rejection)
-  // Three-dot menus contain ytd-menu-service-item-renderer elements
-  const hasContextMenuItems = !!sheet.querySelector('ytd-menu-service-item-renderer');
-  if (hasContextMenuItems) {
-    logger.debug('quickPreCheck: Detected three-dot menu (has context menu items)');
-    return 'not-playlist';
-  }
-
-  // Check for title element
-  const titleElement = findElement(sheet, SELECTORS.title);
-  if (!titleElement) {
-    // No title yet - DOM might still be loading
-    logger.debug('quickPreCheck: No title element, uncertain');
-    return 'uncertain';
-  }
-
-  const titleText = (titleElement.textContent || '').toLowerCase().trim();
-
-  // Check if title matches playlist patterns
-  const titleMatches = PLAYLIST_TITLE_PATTERNS.some((pattern) =>
-    titleText.includes(pattern.toLowerCase())
-  );
-
-  if (!titleMatches) {
-    // Title doesn't match - definitely not a playlist sheet
-    logger.debug('quickPreCheck: Title does not match patterns', { titleText });
-    return 'not-playlist';
-  }
-
-  // Title matches, now check for playlist structure
-  const hasListContainer = !!sheet.querySelector('yt-list-view-model');
-  const hasListItems = !!sheet.querySelector('yt-list-item-view-model');
-
-  if (!hasListContainer && !hasListItems) {
-    // Title matches but no list structure - might still be loading
-    logger.debug('quickPreCheck: Title matches but no list structure yet, uncertain');
-    return 'uncertain';
-  }
-
-  // All indicators point to playlist sheet
-  logger.debug('quickPreCheck: Detected playlist sheet', { titleText, hasListContainer, hasListItems });
-  return 'playlist';
+function quickPreCheck(sheet: Element): SheetVerdict {
+  const detection = getSiteProfile().detectSheet(sheet);
+  logger.debug('quickPreCheck', { verdict: detection.verdict, reason: detection.reason });
+  recordSheetCheck('quickPreCheck', detection.verdict, detection);
+  return detection.verdict;
 }
 
 /**
@@ -112,8 +83,14 @@ function cleanupResidualUI(sheet: Element): void {
   // Remove search wrapper
   sheet.querySelectorAll('.ype-search-wrapper').forEach((el) => el.remove());
 
-  // Remove checkboxes
-  sheet.querySelectorAll('.ype-checkbox').forEach((el) => el.remove());
+  // Remove preset bar
+  sheet.querySelectorAll('.ype-preset-bar').forEach((el) => el.remove());
+
+  // Remove checkboxes and pending-change badges
+  sheet.querySelectorAll('.ype-checkbox, .ype-change-badge').forEach((el) => el.remove());
+
+  // Remove group headers (pinned "Recent" group)
+  sheet.querySelectorAll('.ype-group-header').forEach((el) => el.remove());
 
   // Remove footer (save/cancel buttons)
   document.querySelectorAll('.ype-footer').forEach((el) => el.remove());
@@ -123,76 +100,29 @@ function cleanupResidualUI(sheet: Element): void {
 
   // Remove hidden class from items
   sheet.querySelectorAll('.ype-hidden').forEach((el) => el.classList.remove('ype-hidden'));
+
+  // Expand items of collapsed tag groups (hidden with display:none)
+  sheet.querySelectorAll('.ype-collapsed').forEach((el) => el.classList.remove('ype-collapsed'));
 }
 
 /**
- * Check if a sheet element is the playlist save sheet
- * Uses multiple validation layers to avoid false positives on video context menus
+ * Check whether a sheet element is the playlist save sheet
+ * Uses the site's structural detector (see detector.ts), so it works in any locale
+ * and avoids false positives on video context menus
+ * Uncertain sheets are not enhanced yet; processSheet checks them again while they load
  *
- * Validation layers:
- * 1. Title text matching (only from title element, not sheet.textContent)
- * 2. DOM structure validation (must have playlist list structure)
- * 3. Exclusion of video context menus (three-dot menus)
- * 4. Playlist-specific features verification
+ * Every outcome is recorded for the diagnostics panel
  */
-export function isPlaylistSheet(sheet: Element): boolean {
-  // Layer 1: Title text matching - only use title element, no fallback to sheet.textContent
-  const titleElement = findElement(sheet, SELECTORS.title);
-  if (!titleElement) {
-    logger.debug('isPlaylistSheet: No title element found');
-    return false;
-  }
-
-  const titleText = (titleElement.textContent || '').toLowerCase().trim();
-  const titleMatches = PLAYLIST_TITLE_PATTERNS.some((pattern) =>
-    titleText.includes(pattern.toLowerCase())
-  );
-
-  if (!titleMatches) {
-    logger.debug('isPlaylistSheet: Title does not match patterns', { titleText });
-    return false;
-  }
-
-  // Layer 2: DOM structure validation - must have playlist list structure
-  const hasListContainer = !!sheet.querySelector('yt-list-view-model');
-  const hasListItems = !!sheet.querySelector('yt-list-item-view-model');
-
-  if (!hasListContainer && !hasListItems) {
-    logger.debug('isPlaylistSheet: Missing playlist list structure');
-    return false;
-  }
-
-  // Layer 3: Exclusion - reject if this looks like a video context menu (three-dot menu)
-  // Video context menus typically contain ytd-menu-service-item-renderer elements
-  const hasContextMenuItems = !!sheet.querySelector('ytd-menu-service-item-renderer');
-  if (hasContextMenuItems) {
-    logger.debug('isPlaylistSheet: Detected video context menu structure, rejecting');
-    return false;
-  }
-
-  // Layer 4: Playlist-specific features verification
-  // Real playlist sheets typically have either:
-  // - yt-panel-footer-view-model (Create playlist button)
-  // - Bookmark/save icons in list items
-  const hasFooter = !!sheet.querySelector('yt-panel-footer-view-model');
-  const hasPlaylistIcons = !!sheet.querySelector('[icon="yt-icons:playlist_add"]');
-
-  // At least one playlist-specific feature should be present
-  // But we're lenient here since DOM structure may vary
-  if (!hasFooter && !hasPlaylistIcons && !hasListItems) {
-    logger.debug('isPlaylistSheet: No playlist-specific features found');
-    return false;
-  }
-
-  logger.debug('isPlaylistSheet: All validation layers passed', {
-    titleText,
-    hasListContainer,
-    hasListItems,
-    hasFooter,
-    hasPlaylistIcons,
+export function checkPlaylistSheet(sheet: Element): SheetVerdict {
+  const detection = getSiteProfile().detectSheet(sheet);
+  logger.debug('checkPlaylistSheet', {
+    verdict: detection.verdict,
+    reason: detection.reason,
+    score: detection.score,
+    fingerprint: detection.fingerprint,
   });
-
-  return true;
+  recordSheetCheck('checkPlaylistSheet', detection.verdict, detection);
+  return detection.verdict;
 }
 
 /**
@@ -222,7 +152,7 @@ export function isAlreadyEnhanced(sheet: Element): boolean {
   const listContainer = findElement(sheet, SELECTORS.listContainer);
   if (listContainer) {
     const allItems = listContainer.querySelectorAll(
-      `${SELECTORS.listItem.primary}, ${SELECTORS.listItem.fallback.join(', ')}`
+      getSelectorCandidates(SELECTORS.listItem).join(', ')
     );
     const itemsWithCheckbox = listContainer.querySelectorAll('.ype-checkbox');
 
@@ -255,11 +185,19 @@ export function markAsEnhanced(sheet: Element): void {
  * IMPORTANT: We need to clean up residual UI even for non-playlist sheets
  * because YouTube reuses the same dropdown element for different menus.
  * The cleanup is done with a delay to avoid interfering with YouTube's event handling.
+ *
+ * Uncertain sheets (list or icons still loading) are checked again with a bounded back-off,
+ * since items streaming into an open sheet don't trigger any other check
+ * @param recheckAttempt Number of re-checks of this sheet done so far
  */
-function processSheet(sheet: Element, callback: SheetCallback): void {
-  const isPlaylist = isPlaylistSheet(sheet);
+function processSheet(sheet: Element, callback: SheetCallback, recheckAttempt = 0): void {
+  const verdict = checkPlaylistSheet(sheet);
+
+  if (verdict === 'uncertain') {
+    scheduleRecheck(sheet, callback, recheckAttempt);
+  }
 
-  if (!isPlaylist) {
+  if (verdict !== 'playlist') {
     // Check if this sheet has residual enhancement UI from a previous playlist sheet
     if (hasResidualUI(sheet)) {
       // IMPORTANT: First clean up the managers (SelectionManager, SearchManager)
@@ -281,270 +219,217 @@ function processSheet(sheet: Element, callback: SheetCallback): void {
 }
 
 /**
- * Start observing for playlist sheet appearance
- * @param callback Function to call when playlist sheet is detected
- * @returns MutationObserver instance (call disconnect() to stop)
+ * Check an uncertain sheet again after a delay that doubles with each attempt
  */
-export function observePlaylistSheet(callback: SheetCallback): MutationObserver {
-  // Observer for new nodes being added
-  const childObserver = new MutationObserver((mutations) => {
-    for (const mutation of mutations) {
-      // Check added nodes
-      for (const node of mutation.addedNodes) {
-        if (!(node instanceof Element)) continue;
-
-        // Check if the added node itself is a sheet
-        if (node.matches(SELECTORS.sheet.primary)) {
-          processSheet(node, callback);
-          continue;
-        }
+function scheduleRecheck(sheet: Element, callback: SheetCallback, attempt: number): void {
+  if (recheckingSheets.has(sheet)) return;
+  if (attempt >= TIMING.UNCERTAIN_RECHECK_MAX_ATTEMPTS) {
+    logger.debug('Sheet still uncertain, no more re-checks', { attempts: attempt });
+    return;
+  }
 
-        // Check for sheet within added node
-        const sheet = node.querySelector(SELECTORS.sheet.primary);
-        if (sheet) {
-          processSheet(sheet, callback);
-        }
+  recheckingSheets.add(sheet);
+  setTimeout(
+    () => {
+      recheckingSheets.delete(sheet);
+      // Closed and removed, or enhanced through another signal meanwhile
+      if (!sheet.isConnected || isAlreadyEnhanced(sheet)) return;
+      processSheet(sheet, callback, attempt + 1);
+    },
+    TIMING.UNCERTAIN_RECHECK_BASE_MS * 2 ** attempt
+  );
+}
 
-        // Also check fallback selectors
-        for (const fallback of SELECTORS.sheet.fallback) {
-          if (node.matches(fallback)) {
-            processSheet(node, callback);
-            break;
-          }
-          const fallbackSheet = node.querySelector(fallback);
-          if (fallbackSheet) {
-            processSheet(fallbackSheet, callback);
-            break;
-          }
-        }
-      }
-    }
-  });
+/**
+ * Find a sheet in an added node (the node itself or a descendant), primary selectors first
+ */
+function findAddedSheet(node: Element): Element | null {
+  for (const selector of getSelectorCandidates(SELECTORS.sheet)) {
+    if (node.matches(selector)) return node;
+    const sheet = node.querySelector(selector);
+    if (sheet) return sheet;
+  }
+  return null;
+}
 
-  childObserver.observe(document.body, {
-    childList: true,
-    subtree: true,
-  });
+/**
+ * Clean up managers and residual UI if a sheet that isn't a playlist sheet has some
+ */
+function cleanupIfResidual(sheet: Element, message: string): void {
+  if (hasResidualUI(sheet)) {
+    cleanupManagers();
+    cleanupResidualUI(sheet);
+    logger.info(message);
+  }
+}
 
-  // YouTube uses tp-yt-iron-dropdown to show/hide menus
-  // We need to observe attribute changes to detect when the menu opens
-  const observedDropdowns = new WeakSet<Element>();
-
-  // Track last processed content for each dropdown to detect content changes
-  // WeakMap allows garbage collection when dropdown is removed
-  const dropdownContentState = new WeakMap<Element, string>();
-
-  const dropdownObserver = new MutationObserver((mutations) => {
-    for (const mutation of mutations) {
-      if (mutation.type === 'attributes') {
-        const dropdown = mutation.target as Element;
-        const display = window.getComputedStyle(dropdown).display;
-
-        // Check if dropdown became visible (YouTube uses various methods)
-        // IMPORTANT: Only consider definitive open/close signals, not style animations
-        // Method 1: 'opened' attribute added (most reliable)
-        // Method 2: 'aria-hidden' changed (secondary signal)
-        // We do NOT use style changes as they fire many times during animations
-        const isOpening =
-          (mutation.attributeName === 'opened' && dropdown.hasAttribute('opened')) ||
-          (mutation.attributeName === 'aria-hidden' &&
-            (dropdown.getAttribute('aria-hidden') === 'false' ||
-              dropdown.getAttribute('aria-hidden') === null));
-
-        // Check if dropdown is closing
-        // Only use definitive close signals
-        const isClosing =
-          (mutation.attributeName === 'opened' && !dropdown.hasAttribute('opened')) ||
-          (mutation.attributeName === 'aria-hidden' &&
-            dropdown.getAttribute('aria-hidden') === 'true');
-
-        logger.info('Dropdown attribute changed', {
-          attributeName: mutation.attributeName,
-          isOpening,
-          isClosing,
-          display,
-        });
-
-        // When dropdown closes, reset content state for next open
-        // IMPORTANT: We no longer do cleanup here because it can interfere with
-        // YouTube's content transition (e.g., three-dot menu -> playlist sheet)
-        // Cleanup is now done in isOpening handler after a delay
-        if (isClosing) {
-          // Only reset content tracking - don't do DOM cleanup
-          dropdownContentState.delete(dropdown);
-          logger.debug('Dropdown closing, content state reset');
-        }
+/**
+ * Handle a dropdown's open/close attribute change
+ *
+ * YouTube uses tp-yt-iron-dropdown to show/hide menus (YouTube Music: tp-yt-paper-dialog)
+ * IMPORTANT: Only consider definitive open/close signals, not style animations
+ * - 'opened' attribute added (most reliable)
+ * - 'aria-hidden' changed (secondary signal)
+ * Style changes are not observed as they fire many times during animations
+ */
+function handleDropdownAttributeChange(
+  dropdown: Element,
+  attributeName: string,
+  callback: SheetCallback
+): void {
+  const isOpening =
+    (attributeName === 'opened' && dropdown.hasAttribute('opened')) ||
+    (attributeName === 'aria-hidden' &&
+      (dropdown.getAttribute('aria-hidden') === 'false' ||
+        dropdown.getAttribute('aria-hidden') === null));
+
+  logger.info('Dropdown attribute changed', {
+    attributeName,
+    isOpening,
+    display: window.getComputedStyle(dropdown).display,
+  });
 
-        if (isOpening) {
-          // Reset content tracking when dropdown opens fresh
-          dropdownContentState.delete(dropdown);
-
-          // OPTIMIZATION: Use quick pre-check to determine appropriate delay
-          // This allows us to act much faster in clear-cut cases
-          const sheet = dropdown.querySelector(SELECTORS.sheet.primary);
-          if (!sheet) {
-            // No sheet yet, use fallback delay
-            setTimeout(() => {
-              const delayedSheet = dropdown.querySelector(SELECTORS.sheet.primary);
-              if (delayedSheet) {
-                processSheet(delayedSheet, callback);
-              }
-            }, TIMING.DROPDOWN_CHECK_FALLBACK_MS);
-            return;
-          }
-
-          const checkResult = quickPreCheck(sheet);
-          logger.debug('Quick pre-check result on opening', { checkResult });
-
-          switch (checkResult) {
-            case 'playlist':
-              // Definitely a playlist sheet - enhance with minimal delay
-              // Small delay (50ms) just to let DOM stabilize
-              setTimeout(() => processSheet(sheet, callback), TIMING.PLAYLIST_ENHANCE_DELAY_MS);
-              break;
-
-            case 'not-playlist':
-              // Definitely NOT a playlist sheet - cleanup immediately if needed
-              if (hasResidualUI(sheet)) {
-                // Immediate cleanup of residual UI
-                cleanupManagers();
-                cleanupResidualUI(sheet);
-                logger.info('Immediate cleanup: not a playlist sheet');
-              }
-              break;
-
-            case 'uncertain':
-              // Not sure yet - use moderate delay and re-check
-              setTimeout(() => {
-                const recheck = quickPreCheck(sheet);
-                logger.debug('Re-check after delay', { recheck });
-
-                if (recheck === 'playlist') {
-                  processSheet(sheet, callback);
-                } else if (recheck === 'not-playlist' && hasResidualUI(sheet)) {
-                  cleanupManagers();
-                  cleanupResidualUI(sheet);
-                  logger.info('Delayed cleanup: confirmed not a playlist sheet');
-                } else if (recheck === 'uncertain') {
-                  // Still uncertain after delay, do full check
-                  processSheet(sheet, callback);
-                }
-              }, TIMING.DROPDOWN_CHECK_FALLBACK_MS);
-              break;
-          }
-        }
+  // Closing needs no handling: cleanup is done when a dropdown opens with other content,
+  // since cleaning up on close can interfere with YouTube's content transition
+  // (e.g., three-dot menu -> playlist sheet)
+  if (!isOpening) return;
+
+  // OPTIMIZATION: Use quick pre-check to determine appropriate delay
+  // This allows us to act much faster in clear-cut cases
+  const sheet = findElement(dropdown, SELECTORS.sheet);
+  if (!sheet) {
+    // No sheet yet, use fallback delay
+    setTimeout(() => {
+      const delayedSheet = findElement(dropdown, SELECTORS.sheet);
+      if (delayedSheet) {
+        processSheet(delayedSheet, callback);
       }
-    }
-  });
+    }, TIMING.DROPDOWN_CHECK_FALLBACK_MS);
+    return;
+  }
 
-  const observeDropdown = (dropdown: Element): void => {
-    if (observedDropdowns.has(dropdown)) return;
-    observedDropdowns.add(dropdown);
-    // Only observe definitive open/close attributes, not style/class animations
-    dropdownObserver.observe(dropdown, {
-      attributes: true,
-      attributeFilter: ['opened', 'aria-hidden'],
-    });
-
-    // Check if dropdown is already visible with a sheet
-    // Uses quick pre-check for faster response
-    const checkDropdownVisibility = (): void => {
-      const style = window.getComputedStyle(dropdown);
-      const isVisible = style.display !== 'none';
-      if (!isVisible) return;
-
-      const sheet = dropdown.querySelector(SELECTORS.sheet.primary);
-      if (!sheet) return;
-
-      const checkResult = quickPreCheck(sheet);
-      logger.debug('checkDropdownVisibility', { checkResult, isVisible });
-
-      switch (checkResult) {
-        case 'playlist':
-          // Definitely a playlist sheet - process immediately
-          logger.info('Found visible playlist sheet, enhancing...');
+  const checkResult = quickPreCheck(sheet);
+  logger.debug('Quick pre-check result on opening', { checkResult });
+
+  switch (checkResult) {
+    case 'playlist':
+      // Definitely a playlist sheet - enhance with minimal delay
+      // Small delay (50ms) just to let DOM stabilize
+      setTimeout(() => processSheet(sheet, callback), TIMING.PLAYLIST_ENHANCE_DELAY_MS);
+      break;
+
+    case 'not-playlist':
+      // Definitely NOT a playlist sheet - cleanup immediately if needed
+      cleanupIfResidual(sheet, 'Immediate cleanup: not a playlist sheet');
+      break;
+
+    case 'uncertain':
+      // Not sure yet - use moderate delay and re-check
+      setTimeout(() => {
+        const recheck = quickPreCheck(sheet);
+        logger.debug('Re-check after delay', { recheck });
+
+        if (recheck === 'not-playlist') {
+          cleanupIfResidual(sheet, 'Delayed cleanup: confirmed not a playlist sheet');
+        } else {
+          // Playlist, or still uncertain after delay: do full check
           processSheet(sheet, callback);
-          break;
-
-        case 'not-playlist':
-          // Definitely NOT a playlist sheet - cleanup if needed
-          if (hasResidualUI(sheet)) {
-            cleanupManagers();
-            cleanupResidualUI(sheet);
-            logger.info('Cleaned up residual UI from non-playlist sheet');
-          }
-          break;
-
-        case 'uncertain':
-          // Will be handled by the next check or isOpening handler
-          break;
-      }
-    };
+        }
+      }, TIMING.DROPDOWN_CHECK_FALLBACK_MS);
+      break;
+  }
+}
 
-    // OPTIMIZATION: Use shorter initial delay, with one fallback
-    // Most cases are resolved in the first check (100ms)
-    setTimeout(checkDropdownVisibility, TIMING.DROPDOWN_CHECK_INITIAL_MS);
-    setTimeout(checkDropdownVisibility, TIMING.DROPDOWN_CHECK_SECONDARY_MS); // Fallback for slower loads
-  };
+/**
+ * Check whether a dropdown is already visible with a sheet
+ * Uses quick pre-check for faster response
+ */
+function checkDropdownVisibility(dropdown: Element, callback: SheetCallback): void {
+  if (window.getComputedStyle(dropdown).display === 'none') return;
+
+  const sheet = findElement(dropdown, SELECTORS.sheet);
+  if (!sheet) return;
+
+  const checkResult = quickPreCheck(sheet);
+  logger.debug('checkDropdownVisibility', { checkResult });
+
+  switch (checkResult) {
+    case 'playlist':
+      // Definitely a playlist sheet - process immediately
+      logger.info('Found visible playlist sheet, enhancing...');
+      processSheet(sheet, callback);
+      break;
+
+    case 'not-playlist':
+      // Definitely NOT a playlist sheet - cleanup if needed
+      cleanupIfResidual(sheet, 'Cleaned up residual UI from non-playlist sheet');
+      break;
+
+    case 'uncertain':
+      // Will be handled by the next check or the attribute change handler
+      break;
+  }
+}
 
-  // Observe all existing dropdowns in the entire document
-  const observeAllDropdowns = (): void => {
-    const dropdowns = document.querySelectorAll('tp-yt-iron-dropdown');
-    dropdowns.forEach(observeDropdown);
-    logger.info('Initial dropdown observation', { count: dropdowns.length });
+/**
+ * Start observing for playlist sheet appearance
+ * A single MutationDispatcher routes both kinds of signal:
+ * - Added nodes containing a sheet
+ * - Open/close attribute changes of any dropdown (no registration or polling needed)
+ * @param callback Function to call when playlist sheet is detected
+ * @returns MutationDispatcher instance (call disconnect() to stop, getStats() for its cost)
+ */
+export function observePlaylistSheet(callback: SheetCallback): MutationDispatcher {
+  // Dropdowns whose initial visibility was already checked
+  const seenDropdowns = new WeakSet<Element>();
+
+  // A dropdown may already be open when it is added (or when we start)
+  // OPTIMIZATION: Use shorter initial delay, with one fallback for slower loads
+  const watchNewDropdown = (dropdown: Element): void => {
+    if (seenDropdowns.has(dropdown)) return;
+    seenDropdowns.add(dropdown);
+    setTimeout(() => checkDropdownVisibility(dropdown, callback), TIMING.DROPDOWN_CHECK_INITIAL_MS);
+    setTimeout(
+      () => checkDropdownVisibility(dropdown, callback),
+      TIMING.DROPDOWN_CHECK_SECONDARY_MS
+    );
   };
 
-  // Initial observation
-  observeAllDropdowns();
-
-  // Re-check periodically for dropdowns that might be added later
-  // YouTube dynamically creates dropdowns, so we need to catch them
-  const recheckInterval = setInterval(() => {
-    const dropdowns = document.querySelectorAll('tp-yt-iron-dropdown');
-    let newCount = 0;
-    dropdowns.forEach((d) => {
-      if (!observedDropdowns.has(d)) {
-        observeDropdown(d);
-        newCount++;
-      }
-    });
-    if (newCount > 0) {
-      logger.info('Found new dropdowns on recheck', { newCount });
-    }
-  }, TIMING.DROPDOWN_RECHECK_INTERVAL_MS);
-
-  // Stop rechecking after timeout
-  setTimeout(() => clearInterval(recheckInterval), TIMING.DROPDOWN_RECHECK_TIMEOUT_MS);
-
-  // Also observe document body for new dropdowns being added anywhere
-  const bodyObserver = new MutationObserver((mutations) => {
-    for (const mutation of mutations) {
-      for (const node of mutation.addedNodes) {
-        if (!(node instanceof Element)) continue;
-
-        // Check if the added node is a dropdown
-        if (node.tagName === 'TP-YT-IRON-DROPDOWN') {
-          logger.info('New dropdown added to DOM');
-          observeDropdown(node);
-        }
-
-        // Check for dropdowns within added node
-        const dropdowns = node.querySelectorAll('tp-yt-iron-dropdown');
-        if (dropdowns.length > 0) {
-          logger.info('Found dropdowns in added node', { count: dropdowns.length });
-          dropdowns.forEach(observeDropdown);
-        }
-      }
-    }
-  });
+  const dispatcher = new MutationDispatcher(
+    [
+      {
+        getSelector: (): string => getSelectorCandidates(SELECTORS.sheet).join(', '),
+        onAdded: (node): void => {
+          const sheet = findAddedSheet(node);
+          if (sheet) processSheet(sheet, callback);
+        },
+      },
+      {
+        getSelector: (): string => DROPDOWN_TAG,
+        onAdded: (node): void => {
+          if (node.matches(DROPDOWN_TAG)) watchNewDropdown(node);
+          node.querySelectorAll(DROPDOWN_TAG).forEach(watchNewDropdown);
+        },
+      },
+    ],
+    [
+      {
+        tagName: DROPDOWN_TAG.toUpperCase(),
+        attributes: ['opened', 'aria-hidden'],
+        onChange: (dropdown, attributeName): void =>
+          handleDropdownAttributeChange(dropdown, attributeName, callback),
+      },
+    ]
+  );
+  dispatcher.start();
 
-  bodyObserver.observe(document.body, {
-    childList: true,
-    subtree: true,
-  });
+  // Dropdowns already in the page
+  const dropdowns = document.querySelectorAll(DROPDOWN_TAG);
+  dropdowns.forEach(watchNewDropdown);
+  logger.info('Initial dropdown observation', { count: dropdowns.length });
 
   logger.info('MutationObserver started');
-  return childObserver;
+  return dispatcher;
 }
 
 /**
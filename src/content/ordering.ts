@@ -0,0 +1,98 @@
+/**
+ * List Ordering Module
+ *
+ * Reorders playlist items inside YouTube's list without losing their original order:
+ * - Each item's original position is stored in a data attribute the first time it is seen,
+ *   so it survives re-enhancement of the same sheet
+ * - Items are arranged in groups, each optionally preceded by a header element
+ */
+
+/** Data attribute storing YouTube's original position of an item */
+const ORDER_ATTRIBUTE = 'data-ype-order';
+
+/**
+ * A run of items displayed together, optionally under a header
+ */
+export interface ItemGroup {
+  /** Header element shown above the items */
+  header?: HTMLElement;
+  /** Items in display order */
+  items: Element[];
+}
+
+/**
+ * Remember YouTube's position of items that haven't been seen before
+ * @param elements Items in their current DOM order
+ */
+export function recordOriginalOrder(elements: Element[]): void {
+  let next = 0;
+  for (const element of elements) {
+    const order = Number(element.getAttribute(ORDER_ATTRIBUTE));
+    if (element.hasAttribute(ORDER_ATTRIBUTE) && order >= next) {
+      next = order + 1;
+    }
+  }
+  for (const element of elements) {
+    if (!element.hasAttribute(ORDER_ATTRIBUTE)) {
+      element.setAttribute(ORDER_ATTRIBUTE, String(next++));
+    }
+  }
+}
+
+/**
+ * Sort items by YouTube's original position
+ */
+export function sortByOriginalOrder(elements: Element[]): Element[] {
+  const orderOf = (element: Element): number =>
+    Number(element.getAttribute(ORDER_ATTRIBUTE) ?? Number.MAX_SAFE_INTEGER);
+  return [...elements].sort((a, b) => orderOf(a) - orderOf(b));
+}
+
+/**
+ * Create a group header element
+ */
+export function createGroupHeader(label: string): HTMLElement {
+  const header = document.createElement('div');
+  header.className = 'ype-group-header';
+  const labelEl = document.createElement('span');
+  labelEl.className = 'ype-group-label';
+  labelEl.textContent = label;
+  header.appendChild(labelEl);
+  return header;
+}
+
+/**
+ * Arrange groups of items in their shared parent
+ * Everything is placed where the first of the nodes currently is;
+ * unrelated siblings (e.g. YouTube's footer) end up after the groups
+ */
+export function applyGroupedOrder(groups: ItemGroup[]): void {
+  const nodes: Element[] = [];
+  for (const group of groups) {
+    if (group.header) nodes.push(group.header);
+    nodes.push(...group.items);
+  }
+
+  const parent = nodes.find((node) => node.parentElement)?.parentElement;
+  if (!parent) return;
+
+  // Find the earliest of our nodes in the parent as the insertion point
+  const first = Array.from(parent.children).find((child) => nodes.includes(child));
+  const marker = document.createComment('ype-order');
+  parent.insertBefore(marker, first ?? null);
+
+  for (const node of nodes) {
+    parent.insertBefore(node, marker);
+  }
+  marker.remove();
+}
+
+/**
+ * Put items back in YouTube's original order and drop group headers
+ * @param container List container holding the items
+ * @param elements Items to restore
+ */
+export function restoreOriginalOrder(container: Element, elements: Element[]): void {
+  container.querySelectorAll('.ype-group-header').forEach((header) => header.remove());
+  applyGroupedOrder([{ items: sortByOriginalOrder(elements) }]);
+}
@@ -0,0 +1,256 @@
+/**
+ * Presets Module
+ *
+ * Named playlist combinations (e.g. "Tutorials + Watch Later + Team-Share")
+ * stored in chrome.storage.sync and applied to the selection with one click
+ * - Preset bar above the playlist list
+ * - "Save current selection as preset"
+ * - Warning for presets pointing to playlists that no longer exist
+ */
+
+import type { PlaylistPreset, PlaylistRef } from '../types';
+import type { SelectionManager } from './multiselect';
+import { SELECTORS, findElement } from './selectors';
+import { toPlaylistRef } from './history';
+import { showToast } from './toast';
+import { readStorage, writeStorage } from '../utils/storage';
+import { logger } from '../utils/logger';
+
+/** chrome.storage.sync key holding all presets */
+const PRESETS_STORAGE_KEY = 'presets';
+
+/**
+ * Load all saved presets
+ */
+export async function loadPresets(): Promise<PlaylistPreset[]> {
+  return readStorage<PlaylistPreset[]>('sync', PRESETS_STORAGE_KEY, []);
+}
+
+/**
+ * Persist all presets
+ * @returns Whether the presets were written
+ */
+export async function savePresets(presets: PlaylistPreset[]): Promise<boolean> {
+  return writeStorage('sync', PRESETS_STORAGE_KEY, presets);
+}
+
+/**
+ * Manages the preset bar of the current sheet
+ */
+export class PresetManager {
+  private _presets: PlaylistPreset[] = [];
+  private _selection: SelectionManager | null = null;
+  private _bar: HTMLElement | null = null;
+  // AbortController for reliable event listener cleanup
+  private _abortController: AbortController | null = null;
+
+  /**
+   * Initialize the preset bar for a sheet
+   * @param sheet The playlist sheet element
+   * @param selection Selection manager the presets are applied to
+   */
+  initialize(sheet: Element, selection: SelectionManager): void {
+    this._selection = selection;
+    this._abortController = new AbortController();
+
+    this.injectPresetBar(sheet);
+
+    void loadPresets().then((presets) => {
+      this._presets = presets;
+      this.render();
+      logger.info('PresetManager initialized', { presetCount: presets.length });
+    });
+  }
+
+  /**
+   * Inject the (initially empty) preset bar right above the list
+   */
+  private injectPresetBar(sheet: Element): void {
+    if (sheet.querySelector('.ype-preset-bar')) return;
+
+    this._bar = document.createElement('div');
+    this._bar.className = 'ype-preset-bar';
+
+    const listContainer = findElement(sheet, SELECTORS.listContainer);
+    if (listContainer && listContainer.parentElement) {
+      listContainer.parentElement.insertBefore(this._bar, listContainer);
+    } else {
+      sheet.insertBefore(this._bar, sheet.firstChild);
+    }
+  }
+
+  /**
+   * Get the playlists of a preset that aren't in the sheet anymore
+   */
+  private getMissing(preset: PlaylistPreset): PlaylistRef[] {
+    return preset.playlists.filter((ref) => !this._selection?.findItem(ref));
+  }
+
+  /**
+   * Render preset chips and the "save as preset" button
+   */
+  private render(): void {
+    if (!this._bar) return;
+    const signal = this._abortController?.signal;
+    this._bar.replaceChildren();
+
+    for (const preset of this._presets) {
+      const missing = this.getMissing(preset);
+
+      const chip = document.createElement('span');
+      chip.className = 'ype-preset-chip';
+
+      const applyButton = document.createElement('button');
+      applyButton.className = 'ype-preset-apply';
+      applyButton.textContent = preset.name;
+      applyButton.title = preset.playlists.map((ref) => ref.name).join('、');
+
+      if (missing.length > 0) {
+        chip.classList.add('ype-preset-chip--warning');
+        applyButton.textContent = `⚠ ${preset.name}`;
+        applyButton.title = `找不到：${missing.map((ref) => ref.name).join('、')}`;
+      }
+
+      const deleteButton = document.createElement('button');
+      deleteButton.className = 'ype-preset-delete';
+      deleteButton.textContent = '✕';
+      deleteButton.setAttribute('aria-label', `刪除預設「${preset.name}」`);
+
+      applyButton.addEventListener('click', () => this.applyPreset(preset), { signal });
+      deleteButton.addEventListener('click', () => void this.deletePreset(preset), { signal });
+
+      chip.append(applyButton, deleteButton);
+      this._bar.appendChild(chip);
+    }
+
+    const addButton = document.createElement('button');
+    addButton.className = 'ype-preset-add';
+    addButton.textContent = '＋ 儲存目前選取為預設';
+    addButton.addEventListener('click', () => this.showNameInput(addButton), { signal });
+    this._bar.appendChild(addButton);
+  }
+
+  /**
+   * Apply a preset to the selection, warning about playlists that no longer exist
+   */
+  private applyPreset(preset: PlaylistPreset): void {
+    if (!this._selection) return;
+
+    const missing = this._selection.selectPlaylists(preset.playlists);
+    if (missing.length > 0) {
+      logger.warn('Preset references missing playlists', {
+        preset: preset.name,
+        missing: missing.map((ref) => ref.name),
+      });
+      showToast(
+        `預設「${preset.name}」中有 ${missing.length} 個播放清單已不存在：${missing
+          .map((ref) => ref.name)
+          .join('、')}`,
+        'warning',
+        5000
+      );
+    }
+  }
+
+  /**
+   * Replace the "save as preset" button with a name input
+   */
+  private showNameInput(addButton: HTMLElement): void {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'ype-preset-input';
+    input.placeholder = '預設名稱，按 Enter 儲存';
+    input.setAttribute('aria-label', '預設名稱');
+
+    let isDone = false;
+    const finish = (save: boolean): void => {
+      if (isDone) return;
+      isDone = true;
+      const name = input.value.trim();
+      if (save && name) {
+        void this.saveCurrentSelection(name);
+      } else {
+        this.render();
+      }
+    };
+
+    // Keep typing away from YouTube's dropdown key handlers
+    input.addEventListener(
+      'keydown',
+      (e) => {
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          finish(true);
+        }
+      },
+      { capture: true }
+    );
+    input.addEventListener('keyup', (e) => e.stopPropagation(), { capture: true });
+    input.addEventListener('blur', () => finish(false));
+
+    addButton.replaceWith(input);
+    input.focus();
+  }
+
+  /**
+   * Save the currently selected playlists as a preset (overwriting one with the same name)
+   */
+  private async saveCurrentSelection(name: string): Promise<void> {
+    const selected = this._selection?.getSelectedItems() ?? [];
+    if (selected.length === 0) {
+      showToast('請先勾選要加入預設的播放清單', 'info');
+      this.render();
+      return;
+    }
+
+    const preset: PlaylistPreset = { name, playlists: selected.map(toPlaylistRef) };
+    const presets = [...this._presets.filter((existing) => existing.name !== name), preset];
+
+    if (await savePresets(presets)) {
+      this._presets = presets;
+      showToast(`已儲存預設「${name}」（${selected.length} 個播放清單）`, 'success');
+    } else {
+      showToast('預設儲存失敗', 'error');
+    }
+    this.render();
+  }
+
+  /**
+   * Delete a preset
+   */
+  private async deletePreset(preset: PlaylistPreset): Promise<void> {
+    const presets = this._presets.filter((existing) => existing !== preset);
+    if (await savePresets(presets)) {
+      this._presets = presets;
+      this.render();
+    } else {
+      showToast('預設刪除失敗', 'error');
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this._abortController?.abort();
+    this._bar?.remove();
+    this._bar = null;
+    this._selection = null;
+    this._presets = [];
+    this._abortController = null;
+  }
+}
+
+/**
+ * Set up the preset bar for a sheet
+ * @param sheet The playlist sheet element
+ * @param selection Selection manager the presets are applied to
+ * @returns PresetManager instance
+ */
+export function setupPresets(sheet: Element, selection: SelectionManager): PresetManager {
+  const manager = new PresetManager();
+  manager.initialize(sheet, selection);
+  return manager;
+}
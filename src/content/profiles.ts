@@ -0,0 +1,153 @@
+/**
+ * Site Profiles Module
+ *
+ * What differs between YouTube and YouTube Music's save dialogs, so the same
+ * observer, SelectionManager and SearchManager work on both:
+ * - The element that shows/hides the dialog
+ * - Sheet detection
+ * - Whether items can be toggled and saved together, or only picked one at a time
+ * - Reading whether the video is in a playlist, and what to click to toggle it
+ * The selectors themselves are chosen in selectors.ts (SITE_SELECTORS)
+ */
+
+import type { SiteId } from '../types';
+import { detectMusicSheet, detectPlaylistSheet, type SheetDetection } from './detector';
+import { CURRENT_SITE } from './site';
+
+/**
+ * Site-specific behavior of the save dialog
+ */
+export interface SiteProfile {
+  id: SiteId;
+  /** Element that shows/hides the save dialog; its open/close attributes are observed */
+  dialogTag: string;
+  /** Popups whose clicks keep the current video context (see video.ts) */
+  popupSelector: string;
+  /** Whether bulk mode (checkboxes on video grids) is offered */
+  supportsBulkMode: boolean;
+  /**
+   * Whether items toggle and show their state, so several can be selected and saved
+   * together; otherwise clicking an item is left to the site
+   */
+  supportsMultiSelect: boolean;
+  /** Decide whether a sheet is the save dialog */
+  detectSheet: (sheet: Element) => SheetDetection;
+  /** Whether the video is in the playlist of an item, as shown by the site */
+  isItemInPlaylist: (element: Element) => boolean;
+  /** Element to click to toggle an item */
+  getClickTarget: (element: Element) => HTMLElement;
+  /**
+   * Where UI that must stay inside the dialog (footer, tag menu) is attached,
+   * so the site doesn't take clicks on it as outside clicks
+   */
+  getDialogContainer: (sheet: Element) => Element | null;
+}
+
+/**
+ * YouTube's save sheet: yt-sheet-view-model inside a tp-yt-iron-dropdown
+ */
+const YOUTUBE_PROFILE: SiteProfile = {
+  id: 'youtube',
+  dialogTag: 'tp-yt-iron-dropdown',
+  popupSelector: 'tp-yt-iron-dropdown, ytd-popup-container',
+  supportsBulkMode: true,
+  supportsMultiSelect: true,
+  detectSheet: detectPlaylistSheet,
+
+  /**
+   * YouTube uses a filled vs outline bookmark icon to indicate state:
+   * - Filled bookmark (shorter path ~130 chars): video IS in playlist
+   * - Outline bookmark (longer path ~192 chars, contains "ZM5"): video NOT in playlist
+   */
+  isItemInPlaylist(element) {
+    // Method 1: Check for YouTube's legacy checkbox (older UI)
+    const checkbox = element.querySelector('[role="checkbox"]');
+    if (checkbox) {
+      return checkbox.getAttribute('aria-checked') === 'true';
+    }
+
+    // Method 2: Check the trailing bookmark icon (new YouTube UI)
+    // The trailing element contains a bookmark SVG that indicates selection state
+    const trailing = element.querySelector('.yt-list-item-view-model__trailing');
+    if (trailing) {
+      const svgPath = trailing.querySelector('svg path');
+      if (svgPath) {
+        const d = svgPath.getAttribute('d') || '';
+        // Outline bookmark has an inner cutout path starting with "ZM5"
+        // Filled bookmark is a simple closed path without inner cutout
+        // If the path does NOT contain "ZM5", it's filled (video in playlist)
+        if (d.startsWith('M19 2H5') && !d.includes('ZM5')) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  },
+
+  /**
+   * Priority: [role="checkbox"] (legacy) > .yt-list-item-view-model__label (new UI) > element (fallback)
+   */
+  getClickTarget(element) {
+    return (element.querySelector('[role="checkbox"]') ||
+      element.querySelector('.yt-list-item-view-model__label') ||
+      element) as HTMLElement;
+  },
+
+  /**
+   * Structure: tp-yt-iron-dropdown > #contentWrapper > yt-sheet-view-model
+   */
+  getDialogContainer(sheet) {
+    return sheet.closest('#contentWrapper') || sheet.closest('tp-yt-iron-dropdown');
+  },
+};
+
+/**
+ * YouTube Music's save dialog: ytmusic-add-to-playlist-renderer inside a tp-yt-paper-dialog
+ */
+const MUSIC_PROFILE: SiteProfile = {
+  id: 'music',
+  dialogTag: 'tp-yt-paper-dialog',
+  popupSelector: 'tp-yt-paper-dialog, ytmusic-popup-container',
+  // Music's lists and shelves have no grid of video renderers to put checkboxes on
+  supportsBulkMode: false,
+  // Clicking an option adds the video and closes the dialog; nothing can be removed,
+  // so playlists are picked one at a time
+  supportsMultiSelect: false,
+  detectSheet: detectMusicSheet,
+
+  /**
+   * The dialog doesn't show which playlists already hold the video
+   */
+  isItemInPlaylist() {
+    return false;
+  },
+
+  /**
+   * Each option is a button (or the option itself is clickable); our tag button is skipped
+   */
+  getClickTarget(element) {
+    return (element.querySelector(
+      'button:not([class*="ype-"]), [role="button"]:not([class*="ype-"])'
+    ) || element) as HTMLElement;
+  },
+
+  getDialogContainer(sheet) {
+    return sheet.closest('tp-yt-paper-dialog');
+  },
+};
+
+/**
+ * Profile of each site
+ */
+const SITE_PROFILES: Record<SiteId, SiteProfile> = {
+  youtube: YOUTUBE_PROFILE,
+  music: MUSIC_PROFILE,
+};
+
+/**
+ * Get the profile of the current site (chosen by hostname at startup)
+ */
+export function getSiteProfile(): SiteProfile {
+  return SITE_PROFILES[CURRENT_SITE];
+}
@@ -0,0 +1,289 @@
+/**
+ * Search Query Module
+ *
+ * Parses the search box input into a query tree and evaluates it per playlist
+ * - `word`: fuzzy/phonetic match; several words must all match
+ * - `"exact phrase"`: literal, case-insensitive phrase
+ * - `-term`: excludes items containing the term (literally, without fuzzy matching)
+ * - `is:selected`, `is:unselected`, `is:changed`: selection state
+ * - `is:private`, `is:public`, `is:unlisted`: playlist privacy
+ * - `#tag`: playlists with a user tag
+ * - `OR` (uppercase) between terms: either side may match
+ * Invalid syntax is reported as a parse error instead of being thrown
+ */
+
+import type { PlaylistItem } from '../types';
+import type { FuzzyMatch } from '../utils/fuzzy';
+import { normalizeTag } from './tags';
+
+/**
+ * Conditions available through `is:`
+ */
+export type QueryCondition =
+  | 'selected'
+  | 'unselected'
+  | 'changed'
+  | 'private'
+  | 'public'
+  | 'unlisted';
+
+/**
+ * Node of a parsed query
+ */
+export type QueryNode =
+  | { type: 'word'; text: string }
+  | { type: 'phrase'; text: string }
+  | { type: 'is'; condition: QueryCondition }
+  | { type: 'tag'; tag: string }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] };
+
+/**
+ * Result of parsing a query; an empty input parses to a null query
+ */
+export type QueryParseResult = { ok: true; query: QueryNode | null } | { ok: false; error: string };
+
+/**
+ * Matches a term against an item's name
+ */
+export type TermMatcher = (text: string, item: PlaylistItem) => FuzzyMatch | null;
+
+/**
+ * Text matching used by the query (normalization, fuzzy and phonetic matching live in SearchManager)
+ */
+export interface QueryMatchers {
+  /** Fuzzy/phonetic match of a word */
+  word: TermMatcher;
+  /** Literal match of a phrase */
+  phrase: TermMatcher;
+}
+
+/** Keyword separating alternatives */
+const OR_KEYWORD = 'OR';
+
+/** Prefix of condition terms */
+const CONDITION_PREFIX = 'is:';
+
+/** Prefix of tag terms */
+const TAG_PREFIX = '#';
+
+const CONDITIONS: QueryCondition[] = [
+  'selected',
+  'unselected',
+  'changed',
+  'private',
+  'public',
+  'unlisted',
+];
+
+/** Match result of terms that filter without scoring (conditions, tags, exclusions) */
+const NEUTRAL_MATCH: FuzzyMatch = { score: 0, indices: [] };
+
+/**
+ * Token of the query input
+ */
+type QueryToken = { type: 'or' } | { type: 'term'; node: QueryNode };
+
+/**
+ * Read a single term (word, phrase, condition or tag) starting at a position
+ * @returns The node and the position after it, or an error message
+ */
+function readTerm(
+  input: string,
+  start: number
+): { node: QueryNode; end: number } | { error: string } {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) return { error: '引號未關閉：請在片語結尾加上 "' };
+    const text = input.slice(start + 1, close).trim();
+    if (!text) return { error: '引號內沒有文字' };
+    return { node: { type: 'phrase', text: text.toLowerCase() }, end: close + 1 };
+  }
+
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end]) && input[end] !== '"') end++;
+  const word = input.slice(start, end);
+
+  if (word.toLowerCase().startsWith(CONDITION_PREFIX)) {
+    const condition = word.slice(CONDITION_PREFIX.length).toLowerCase() as QueryCondition;
+    if (!CONDITIONS.includes(condition)) {
+      return {
+        error: `不支援的條件「${word}」，可用：${CONDITIONS.map((c) => CONDITION_PREFIX + c).join('、')}`,
+      };
+    }
+    return { node: { type: 'is', condition }, end };
+  }
+
+  if (word.startsWith(TAG_PREFIX)) {
+    const tag = normalizeTag(word);
+    if (!tag) return { error: '「#」後面需要接標籤名稱' };
+    return { node: { type: 'tag', tag }, end };
+  }
+
+  return { node: { type: 'word', text: word.toLowerCase() }, end };
+}
+
+/**
+ * Split the input into terms and OR keywords
+ */
+function tokenize(input: string): QueryToken[] | { error: string } {
+  const tokens: QueryToken[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+
+    // "OR" on its own (not e.g. "ORANGE")
+    const next = input[position + OR_KEYWORD.length];
+    if (input.startsWith(OR_KEYWORD, position) && (next === undefined || /\s/.test(next))) {
+      tokens.push({ type: 'or' });
+      position += OR_KEYWORD.length;
+      continue;
+    }
+
+    const negated = input[position] === '-';
+    const termStart = negated ? position + 1 : position;
+    if (negated && (termStart >= input.length || /\s/.test(input[termStart]))) {
+      return { error: '「-」後面需要接要排除的文字' };
+    }
+
+    const term = readTerm(input, termStart);
+    if ('error' in term) return term;
+    tokens.push({
+      type: 'term',
+      node: negated ? { type: 'not', operand: term.node } : term.node,
+    });
+    position = term.end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse the search box input
+ */
+export function parseQuery(input: string): QueryParseResult {
+  // Syntax typed in full width with a CJK input method (ＯＲ, ＂…＂, －, ＃, ｉｓ：) works as usual
+  const tokens = tokenize(input.normalize('NFKC'));
+  if ('error' in tokens) return { ok: false, error: tokens.error };
+  if (tokens.length === 0) return { ok: true, query: null };
+
+  const alternatives: QueryNode[][] = [[]];
+  for (const token of tokens) {
+    if (token.type === 'or') {
+      alternatives.push([]);
+    } else {
+      alternatives[alternatives.length - 1].push(token.node);
+    }
+  }
+
+  if (alternatives.some((terms) => terms.length === 0)) {
+    return { ok: false, error: 'OR 的前後都需要搜尋條件' };
+  }
+
+  const groups = alternatives.map(
+    (terms): QueryNode => (terms.length === 1 ? terms[0] : { type: 'and', operands: terms })
+  );
+  return { ok: true, query: groups.length === 1 ? groups[0] : { type: 'or', operands: groups } };
+}
+
+/**
+ * Check an item against a condition
+ */
+function matchesCondition(condition: QueryCondition, item: PlaylistItem): boolean {
+  switch (condition) {
+    case 'selected':
+      return item.isSelected;
+    case 'unselected':
+      return !item.isSelected;
+    case 'changed':
+      return item.isSelected !== item.wasOriginallySelected;
+    default:
+      return item.privacy === condition;
+  }
+}
+
+/**
+ * Combine the matches of terms that all matched
+ */
+function combineMatches(matches: FuzzyMatch[], score: number): FuzzyMatch {
+  const indices = new Set(matches.flatMap((match) => match.indices));
+  return { score, indices: Array.from(indices).sort((a, b) => a - b) };
+}
+
+/**
+ * Evaluate a query for an item
+ * @returns The match (score and characters to highlight), or null if the item is filtered out
+ */
+export function evaluateQuery(
+  node: QueryNode,
+  item: PlaylistItem,
+  matchers: QueryMatchers
+): FuzzyMatch | null {
+  switch (node.type) {
+    case 'word':
+      return matchers.word(node.text, item);
+    case 'phrase':
+      return matchers.phrase(node.text, item);
+    case 'is':
+      return matchesCondition(node.condition, item) ? NEUTRAL_MATCH : null;
+    case 'tag':
+      return item.tags?.includes(node.tag) ? NEUTRAL_MATCH : null;
+    case 'not': {
+      // Excluded words match literally; fuzzy matching would also hide near misses ("-live" → "Love")
+      const { operand } = node;
+      const excluded =
+        operand.type === 'word'
+          ? matchers.phrase(operand.text, item)
+          : evaluateQuery(operand, item, matchers);
+      return excluded ? null : NEUTRAL_MATCH;
+    }
+    case 'and': {
+      const matches: FuzzyMatch[] = [];
+      for (const operand of node.operands) {
+        const match = evaluateQuery(operand, item, matchers);
+        if (!match) return null;
+        matches.push(match);
+      }
+      return combineMatches(
+        matches,
+        matches.reduce((sum, match) => sum + match.score, 0)
+      );
+    }
+    case 'or': {
+      const matches = node.operands
+        .map((operand) => evaluateQuery(operand, item, matchers))
+        .filter((match): match is FuzzyMatch => !!match);
+      if (matches.length === 0) return null;
+      return combineMatches(matches, Math.max(...matches.map((match) => match.score)));
+    }
+  }
+}
+
+/**
+ * Whether a query ranks items by relevance, i.e. has a word or phrase that isn't excluded
+ */
+export function hasTextTerms(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'word':
+    case 'phrase':
+      return true;
+    case 'and':
+    case 'or':
+      return node.operands.some(hasTextTerms);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a query is plain text (words only), usable as a new playlist's name
+ */
+export function isPlainText(node: QueryNode): boolean {
+  if (node.type === 'word') return true;
+  return node.type === 'and' && node.operands.every(isPlainText);
+}
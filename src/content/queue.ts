@@ -0,0 +1,92 @@
+/**
+ * Save Queue Module
+ *
+ * Persists the operation queue of a running batch save in chrome.storage.local
+ * - Progress is updated after each playlist
+ * - The entry is removed when the save finishes
+ * - An entry left behind means the page was torn down mid-save and can be resumed
+ */
+
+import type { PendingSave, PlaylistRef, SaveDiff } from '../types';
+import { getRefKey } from './history';
+import { readStorage, writeStorage } from '../utils/storage';
+
+/** chrome.storage.local key holding pending saves keyed by video ID */
+const PENDING_SAVES_STORAGE_KEY = 'pendingSaves';
+
+/** Pending saves older than this are considered abandoned (ms) */
+const PENDING_SAVE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Videos with a save running in this tab (not resumable from here) */
+const activeSaves = new Set<string>();
+
+/**
+ * Read all pending saves
+ */
+async function readPendingSaves(): Promise<Record<string, PendingSave>> {
+  return readStorage<Record<string, PendingSave>>('local', PENDING_SAVES_STORAGE_KEY, {});
+}
+
+/**
+ * Start tracking a save: marks it active in this tab and persists its queue
+ */
+export async function startPendingSave(
+  videoId: string,
+  toAdd: PlaylistRef[],
+  toRemove: PlaylistRef[]
+): Promise<void> {
+  activeSaves.add(videoId);
+  const saves = await readPendingSaves();
+  saves[videoId] = { videoId, toAdd, toRemove, done: [], startedAt: Date.now() };
+  await writeStorage('local', PENDING_SAVES_STORAGE_KEY, saves);
+}
+
+/**
+ * Record that YouTube confirmed a playlist of a running save
+ */
+export async function markPendingSaveDone(videoId: string, ref: PlaylistRef): Promise<void> {
+  const saves = await readPendingSaves();
+  const save = saves[videoId];
+  if (!save) return;
+  save.done.push(ref);
+  await writeStorage('local', PENDING_SAVES_STORAGE_KEY, saves);
+}
+
+/**
+ * Stop tracking a finished save
+ */
+export async function finishPendingSave(videoId: string): Promise<void> {
+  activeSaves.delete(videoId);
+  const saves = await readPendingSaves();
+  if (!(videoId in saves)) return;
+  delete saves[videoId];
+  await writeStorage('local', PENDING_SAVES_STORAGE_KEY, saves);
+}
+
+/**
+ * Get an interrupted save of a video that can be resumed
+ * Saves still running in this tab and abandoned entries are ignored
+ */
+export async function getInterruptedSave(videoId: string): Promise<PendingSave | null> {
+  if (activeSaves.has(videoId)) return null;
+
+  const save = (await readPendingSaves())[videoId];
+  if (!save) return null;
+
+  if (Date.now() - save.startedAt > PENDING_SAVE_MAX_AGE_MS) {
+    await finishPendingSave(videoId);
+    return null;
+  }
+  return save;
+}
+
+/**
+ * Get the part of a pending save that hasn't been processed yet
+ */
+export function getRemainingDiff(save: PendingSave): SaveDiff {
+  const doneKeys = new Set(save.done.map(getRefKey));
+  return {
+    added: save.toAdd.filter((ref) => !doneKeys.has(getRefKey(ref))),
+    removed: save.toRemove.filter((ref) => !doneKeys.has(getRefKey(ref))),
+  };
+}
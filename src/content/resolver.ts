@@ -0,0 +1,283 @@
+/**
+ * Playlist ID Resolver
+ *
+ * Finds the real playlist ID behind each sheet item, so persisted references
+ * (presets, history, pins) survive duplicate names, renames and UI language changes.
+ * Sources, most reliable first:
+ * 1. The item itself: renderer data, ID attributes, links to the playlist
+ * 2. Built-in playlists with a fixed ID (Watch later), matched by localized name
+ * 3. Playlists listed in the page's initial data and the guide, matched by name
+ *    only when the name is unique on both sides
+ */
+
+import type { PlaylistItem } from '../types';
+import { logger } from '../utils/logger';
+
+/** ID of the built-in "Watch later" playlist */
+const WATCH_LATER_ID = 'WL';
+
+/**
+ * Localized names of "Watch later" (lowercase)
+ */
+const WATCH_LATER_NAMES = [
+  '稍後觀看', // Traditional Chinese
+  '稍后观看', // Simplified Chinese
+  'watch later', // English
+  'später ansehen', // German
+  'ver más tarde', // Spanish
+  'à regarder plus tard', // French
+  'guarda più tardi', // Italian
+  '後で見る', // Japanese
+  '나중에 볼 동영상', // Korean
+  'смотреть позже', // Russian
+];
+
+/** Attributes that may carry a playlist ID directly */
+const ID_ATTRIBUTES = ['data-playlist-id', 'playlist-id'];
+
+/** Valid playlist IDs (e.g. "PL…", "WL") */
+const PLAYLIST_ID_PATTERN = /^[\w-]{2,}$/;
+
+/** Max depth searched in an element's renderer data */
+const MAX_DATA_DEPTH = 6;
+
+/** Max number of nodes visited in the page's initial data */
+const MAX_INITIAL_DATA_NODES = 200000;
+
+/** Playlist IDs by lowercase name; a name with several IDs is ambiguous */
+type NameIndex = Map<string, Set<string>>;
+
+/** Index built from the page's initial data; reset on navigation, rebuilt on next use */
+let initialDataIndex: NameIndex | null = null;
+
+/**
+ * Normalize a playlist name for lookups
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Check whether a value looks like a playlist ID
+ */
+function isPlaylistId(value: unknown): value is string {
+  return typeof value === 'string' && PLAYLIST_ID_PATTERN.test(value);
+}
+
+/**
+ * Get the playlist ID from a URL's "list" parameter
+ */
+function getListParam(href: string): string | null {
+  try {
+    const list = new URL(href, window.location.origin).searchParams.get('list');
+    return isPlaylistId(list) ? list : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Search renderer data for a "playlistId" field
+ */
+function findPlaylistIdInData(data: unknown, depth = 0): string | null {
+  if (!data || typeof data !== 'object' || data instanceof Node || depth > MAX_DATA_DEPTH) {
+    return null;
+  }
+
+  const record = data as Record<string, unknown>;
+  if (isPlaylistId(record.playlistId)) return record.playlistId;
+
+  for (const value of Object.values(record)) {
+    const found = findPlaylistIdInData(value, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Read a playlist ID from the item element itself
+ * Renderer data is only reachable when the page exposes it to the content script
+ */
+function readIdFromElement(element: Element): string | null {
+  const { data, __data: privateData } = element as Element & { data?: unknown; __data?: unknown };
+  const fromData = findPlaylistIdInData(data) ?? findPlaylistIdInData(privateData);
+  if (fromData) return fromData;
+
+  for (const attribute of ID_ATTRIBUTES) {
+    const value =
+      element.getAttribute(attribute) ??
+      element.querySelector(`[${attribute}]`)?.getAttribute(attribute);
+    if (isPlaylistId(value)) return value;
+  }
+
+  const link = element.querySelector<HTMLAnchorElement>('a[href*="list="]');
+  return link ? getListParam(link.getAttribute('href') || '') : null;
+}
+
+/**
+ * Get the text of a YouTube title field ("simpleText", "runs" or "content" formats)
+ */
+function getTitleText(title: unknown): string | null {
+  if (typeof title === 'string') return title;
+  if (!title || typeof title !== 'object') return null;
+
+  const record = title as Record<string, unknown>;
+  if (typeof record.simpleText === 'string') return record.simpleText;
+  if (typeof record.content === 'string') return record.content;
+  if (Array.isArray(record.runs)) {
+    return record.runs.map((run) => (run as { text?: string }).text ?? '').join('');
+  }
+  return null;
+}
+
+/**
+ * Add a name → ID pair to an index
+ */
+function addToIndex(index: NameIndex, name: string, id: string): void {
+  const key = normalizeName(name);
+  if (!key) return;
+  const ids = index.get(key) ?? new Set<string>();
+  ids.add(id);
+  index.set(key, ids);
+}
+
+/**
+ * Parse the page's inline ytInitialData
+ * Content scripts can't read the page's variables, so the inline script is parsed instead
+ */
+function readInitialData(): unknown {
+  for (const script of Array.from(document.scripts)) {
+    const text = script.textContent || '';
+    const marker = text.indexOf('ytInitialData');
+    if (marker === -1) continue;
+
+    const start = text.indexOf('{', marker);
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) continue;
+
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      // Not the plain assignment we expect; keep looking
+    }
+  }
+  return null;
+}
+
+/**
+ * Index every playlist (ID + title) found in the page's initial data
+ */
+function buildInitialDataIndex(): NameIndex {
+  const index: NameIndex = new Map();
+  const stack: unknown[] = [readInitialData()];
+  let visited = 0;
+
+  while (stack.length > 0 && visited++ < MAX_INITIAL_DATA_NODES) {
+    const node = stack.pop();
+    if (!node || typeof node !== 'object') continue;
+
+    const record = node as Record<string, unknown>;
+    if (isPlaylistId(record.playlistId)) {
+      const title = getTitleText(record.title);
+      if (title) addToIndex(index, title, record.playlistId);
+    }
+    for (const value of Object.values(record)) {
+      stack.push(value);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Forget the initial data index so the next lookup re-reads the page
+ * Called on SPA navigation: playlists may have been created, renamed or deleted since
+ */
+export function resetInitialDataIndex(): void {
+  initialDataIndex = null;
+}
+
+/**
+ * Index the playlists linked from the guide (left sidebar)
+ */
+function buildGuideIndex(): NameIndex {
+  const index: NameIndex = new Map();
+  const links = document.querySelectorAll<HTMLAnchorElement>(
+    'ytd-guide-entry-renderer a[href*="list="]'
+  );
+  for (const link of links) {
+    const id = getListParam(link.getAttribute('href') || '');
+    const name = link.getAttribute('title') || link.textContent || '';
+    if (id) addToIndex(index, name, id);
+  }
+  return index;
+}
+
+/**
+ * Resolves playlist IDs for the items of one sheet
+ */
+export class PlaylistIdResolver {
+  private _nameIndex: NameIndex | null = null;
+
+  /**
+   * Set the ID of every item that doesn't have one yet
+   * Name-based matching is skipped for names that appear more than once in the sheet
+   * @param items All items of the sheet
+   */
+  resolveItemIds(items: PlaylistItem[]): void {
+    const nameCounts = new Map<string, number>();
+    for (const item of items) {
+      const key = normalizeName(item.name);
+      nameCounts.set(key, (nameCounts.get(key) ?? 0) + 1);
+    }
+
+    let resolved = 0;
+    for (const item of items) {
+      if (item.id) continue;
+      const isNameUnique = nameCounts.get(normalizeName(item.name)) === 1;
+      const id = this.resolve(item.element, item.name, isNameUnique);
+      if (id) {
+        item.id = id;
+        resolved++;
+      }
+    }
+
+    if (resolved > 0) {
+      logger.debug('Playlist IDs resolved', { resolved, total: items.length });
+    }
+  }
+
+  /**
+   * Resolve the playlist ID of one item
+   * @param isNameUnique Whether the item's name is unique in the sheet
+   */
+  private resolve(element: Element, name: string, isNameUnique: boolean): string | undefined {
+    const fromElement = readIdFromElement(element);
+    if (fromElement) return fromElement;
+
+    const key = normalizeName(name);
+    if (WATCH_LATER_NAMES.includes(key)) return WATCH_LATER_ID;
+
+    if (!isNameUnique) return undefined;
+
+    const ids = this.getNameIndex().get(key);
+    return ids && ids.size === 1 ? ids.values().next().value : undefined;
+  }
+
+  /**
+   * Combined index of the initial data and the guide, built on first use
+   */
+  private getNameIndex(): NameIndex {
+    if (!this._nameIndex) {
+      initialDataIndex ??= buildInitialDataIndex();
+      const index: NameIndex = new Map();
+      for (const source of [initialDataIndex, buildGuideIndex()]) {
+        for (const [name, ids] of source) {
+          for (const id of ids) addToIndex(index, name, id);
+        }
+      }
+      this._nameIndex = index;
+    }
+    return this._nameIndex;
+  }
+}
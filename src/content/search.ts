@@ -4,31 +4,111 @@
  * Implements User Story 2: Search/filter playlist functionality
  * - T025: SearchManager class with query state and filter logic
  * - T026: Search box injection with autofocus
- * - T027: Filter function with case-insensitive matching
+ * - T027: Filter function with case-insensitive fuzzy matching, ranked by relevance
  * - T028: Clear button functionality
  * - T029: No-results message display
+ * - Offer to create a playlist named after a query that matches nothing
+ * - Privacy filter chips and a sort control (original order, size, name)
+ * - Matched characters highlighted in each playlist name
+ * - Romanized search for CJK names (pinyin, zhuyin, romaji) alongside the literal query
+ * - Query operators (-word, "phrase", OR, is:…, #tag), with syntax errors shown inline
+ * - Unicode-aware matching: queries and names are normalized the same way
  */
 
-import type { PlaylistItem } from '../types';
+import type { PlaylistItem, PlaylistPrivacy, PlaylistSortMode } from '../types';
 import { SELECTORS, findElement } from './selectors';
+import { PRIVACY_LABELS } from './create';
+import { PRIVACY_INDICATORS } from './metadata';
+import { clearSearchHighlights, setSearchHighlights, type HighlightTarget } from './highlight';
+import {
+  evaluateQuery,
+  hasTextTerms,
+  isPlainText,
+  parseQuery,
+  type QueryMatchers,
+  type QueryNode,
+} from './query';
 import { debounce } from '../utils/debounce';
+import { fuzzyMatch, type FuzzyMatch } from '../utils/fuzzy';
+import { buildPhoneticIndex, matchPhonetic, type PhoneticIndex } from '../utils/phonetic';
+import {
+  normalizeForSearch,
+  normalizeText,
+  toOriginalIndices,
+  type NormalizedText,
+} from '../utils/normalize';
 import { logger } from '../utils/logger';
 
+/**
+ * Options for wiring a SearchManager into the enhancer
+ */
+export interface SearchManagerOptions {
+  /** Called after the filter has been applied to the items */
+  onFilterChange?: () => void;
+  /** Called when the user asks to create a playlist from a query without results */
+  onCreatePlaylist?: (name: string, privacy: PlaylistPrivacy) => void;
+  /** Called when the user picks another sort order */
+  onSortChange?: (mode: PlaylistSortMode) => void;
+  /**
+   * Called with the relevance score of each matching item while a query is active,
+   * and with null once the query is cleared
+   */
+  onRankingChange?: (scores: Map<Element, number> | null) => void;
+}
+
+/** Score of an exact phrase match, on par with literal substrings */
+const PHRASE_BASE_SCORE = 100;
+const PHRASE_CHAR_SCORE = 10;
+
+/**
+ * Search index of one playlist name
+ */
+interface NameIndex {
+  normalized: NormalizedText;
+  /** Built from the normalized name */
+  phonetic: PhoneticIndex;
+}
+
+/** Order of the privacy filter chips */
+const PRIVACY_CHIP_ORDER: PlaylistPrivacy[] = ['public', 'private', 'unlisted'];
+
+/**
+ * Labels of the sort options
+ */
+const SORT_LABELS: Record<PlaylistSortMode, string> = {
+  default: '預設',
+  size: '影片數',
+  name: '名稱',
+};
+
 /**
  * Manages search state and filtering for playlist items
  */
 export class SearchManager {
   private _query = '';
   private _items: Map<Element, PlaylistItem> = new Map();
+  // Normalized and phonetic index of each item's name, built on first search
+  private _nameIndex: Map<Element, NameIndex> = new Map();
   private _listContainer: Element | null = null;
   private _searchWrapper: HTMLElement | null = null;
   private _searchInput: HTMLInputElement | null = null;
   private _clearButton: HTMLElement | null = null;
+  private _queryError: HTMLElement | null = null;
   private _noResultsMessage: HTMLElement | null = null;
+  private _filterBar: HTMLElement | null = null;
+  // Privacy chips turned on; empty shows every playlist
+  private _privacyFilter: Set<PlaylistPrivacy> = new Set();
+  private _sortMode: PlaylistSortMode = 'default';
+  // Privacy picked in the "create playlist" offer, kept while typing
+  private _createPrivacy: PlaylistPrivacy = 'private';
   private _debouncedFilter: ReturnType<typeof debounce<() => void>> | null = null;
+  // Last query that parsed; filters the list while the input can't be parsed
+  private _lastValidQuery: QueryNode | null = null;
   // AbortController for reliable event listener cleanup
   private _abortController: AbortController | null = null;
 
+  constructor(private readonly _options: SearchManagerOptions = {}) {}
+
   /**
    * Current search query
    */
@@ -36,6 +116,13 @@ export class SearchManager {
     return this._query;
   }
 
+  /**
+   * Injected search input (null if not injected)
+   */
+  get input(): HTMLInputElement | null {
+    return this._searchInput;
+  }
+
   /**
    * Count of visible (non-filtered) items
    */
@@ -89,6 +176,8 @@ export class SearchManager {
     this._searchInput.className = 'ype-search-input';
     this._searchInput.placeholder = '搜尋播放清單... (按 Esc 清空)';
     this._searchInput.setAttribute('aria-label', '搜尋播放清單');
+    this._searchInput.title =
+      '可使用 -文字 排除、"完整片語"、A OR B，以及 is:selected、is:unselected、is:changed、is:private、is:public、is:unlisted、#標籤';
 
     // Create clear button as span (not button) to avoid default button behaviors
     // that might interfere with YouTube's dropdown close detection
@@ -99,9 +188,18 @@ export class SearchManager {
     this._clearButton.setAttribute('role', 'button');
     this._clearButton.setAttribute('tabindex', '0');
 
+    // Inline message for queries that can't be parsed
+    this._queryError = document.createElement('div');
+    this._queryError.id = 'ype-search-error';
+    this._queryError.className = 'ype-search-error';
+    this._queryError.setAttribute('role', 'status');
+    this._queryError.hidden = true;
+    this._searchInput.setAttribute('aria-describedby', this._queryError.id);
+
     // Assemble
     this._searchWrapper.appendChild(this._searchInput);
     this._searchWrapper.appendChild(this._clearButton);
+    this._searchWrapper.appendChild(this._queryError);
 
     // Find the best insertion point (after title, before list)
     const listContainer = findElement(sheet, SELECTORS.listContainer);
@@ -115,6 +213,12 @@ export class SearchManager {
     // Bind events
     this.bindSearchEvents();
 
+    // Filter chips and sort sit outside the wrapper, whose capture handlers swallow clicks
+    this._filterBar = document.createElement('div');
+    this._filterBar.className = 'ype-filter-bar';
+    this._searchWrapper.after(this._filterBar);
+    this.renderFilterBar();
+
     // Autofocus after a brief delay (let the sheet finish rendering)
     requestAnimationFrame(() => {
       this._searchInput?.focus();
@@ -201,6 +305,82 @@ export class SearchManager {
     logger.debug('Search events bound with AbortController');
   }
 
+  /**
+   * Render the privacy chips (only for privacies shown in the sheet) and the sort options
+   */
+  private renderFilterBar(): void {
+    if (!this._filterBar) return;
+    const signal = this._abortController?.signal;
+
+    const counts = new Map<PlaylistPrivacy, number>();
+    for (const item of this._items.values()) {
+      if (item.privacy) counts.set(item.privacy, (counts.get(item.privacy) ?? 0) + 1);
+    }
+
+    const chips = document.createElement('div');
+    chips.className = 'ype-filter-chips';
+    chips.setAttribute('role', 'group');
+    chips.setAttribute('aria-label', '依隱私設定篩選');
+    for (const privacy of PRIVACY_CHIP_ORDER) {
+      const count = counts.get(privacy);
+      if (!count) continue;
+
+      const chip = document.createElement('button');
+      chip.className = 'ype-filter-chip';
+      chip.textContent = `${PRIVACY_INDICATORS[privacy].icon} ${PRIVACY_LABELS[privacy]} (${count})`;
+      chip.setAttribute('aria-pressed', String(this._privacyFilter.has(privacy)));
+      chip.addEventListener('click', () => this.togglePrivacyFilter(privacy), { signal });
+      chips.appendChild(chip);
+    }
+
+    const sort = document.createElement('div');
+    sort.className = 'ype-sort-options';
+    sort.setAttribute('role', 'radiogroup');
+    sort.setAttribute('aria-label', '排序');
+    for (const mode of Object.keys(SORT_LABELS) as PlaylistSortMode[]) {
+      const option = document.createElement('button');
+      option.className = 'ype-sort-option';
+      option.textContent = SORT_LABELS[mode];
+      option.setAttribute('role', 'radio');
+      option.setAttribute('aria-checked', String(mode === this._sortMode));
+      option.addEventListener('click', () => this.setSortMode(mode), { signal });
+      sort.appendChild(option);
+    }
+
+    this._filterBar.replaceChildren(chips, sort);
+  }
+
+  /**
+   * Turn a privacy chip on or off
+   */
+  togglePrivacyFilter(privacy: PlaylistPrivacy): void {
+    if (!this._privacyFilter.delete(privacy)) {
+      this._privacyFilter.add(privacy);
+    }
+    this.filterPlaylists();
+  }
+
+  /**
+   * Change the sort order of the playlists
+   */
+  setSortMode(mode: PlaylistSortMode): void {
+    if (this._sortMode === mode) return;
+    this._sortMode = mode;
+    this.renderFilterBar();
+    this._options.onSortChange?.(mode);
+    // Reordering may move items between group headers
+    this.updateGroupHeaders();
+  }
+
+  /**
+   * Check an item against the privacy chips
+   * Items without a known privacy are hidden while any chip is on
+   */
+  private matchesPrivacyFilter(item: PlaylistItem): boolean {
+    if (this._privacyFilter.size === 0) return true;
+    return !!item.privacy && this._privacyFilter.has(item.privacy);
+  }
+
   /**
    * Update clear button visibility based on query
    */
@@ -211,19 +391,36 @@ export class SearchManager {
   }
 
   /**
-   * Filter playlists based on current query (T027)
-   * Case-insensitive matching
+   * Filter playlists based on current query (T027) and privacy chips
+   * Case-insensitive fuzzy matching; matches are ranked and highlighted
    * Uses inline styles because YouTube's CSS may override our class-based styles
    */
   filterPlaylists(): void {
-    const normalizedQuery = this._query.toLowerCase().trim();
+    const parsed = parseQuery(this._query.trim());
+    this.updateQueryError(parsed.ok ? null : parsed.error);
+    // Keep filtering by the last valid query while this one can't be parsed (e.g. mid-typing
+    // a phrase), so lazily loaded items and chip changes are still filtered
+    if (parsed.ok) this._lastValidQuery = parsed.query;
+
+    const query = this._lastValidQuery;
+    const matchers: QueryMatchers = {
+      word: (word, item) => this.matchWord(word, item),
+      phrase: (phrase, item) => this.matchPhrase(phrase, item),
+    };
+    const scores = new Map<Element, number>();
+    const highlights: HighlightTarget[] = [];
     let visibleCount = 0;
 
     for (const [element, item] of this._items) {
-      const name = item.name.toLowerCase();
-      const isMatch = normalizedQuery === '' || name.includes(normalizedQuery);
+      const match = query ? evaluateQuery(query, item, matchers) : null;
+      const isMatch = (!query || !!match) && this.matchesPrivacyFilter(item);
       const htmlElement = element as HTMLElement;
 
+      if (isMatch && match) {
+        scores.set(element, match.score);
+        highlights.push({ element, name: item.name, indices: match.indices });
+      }
+
       if (isMatch) {
         element.classList.remove('ype-hidden');
         htmlElement.style.removeProperty('display');
@@ -236,15 +433,106 @@ export class SearchManager {
     }
 
     // Show/hide no results message (T029)
-    this.updateNoResultsMessage(visibleCount === 0 && normalizedQuery !== '');
+    const isFiltering = !!query || this._privacyFilter.size > 0;
+    this.updateNoResultsMessage(visibleCount === 0 && isFiltering);
+
+    // Chip counts follow lazily loaded items
+    this.renderFilterBar();
+
+    // Most relevant matches first while searching; the usual order once cleared
+    this._options.onRankingChange?.(query && hasTextTerms(query) ? scores : null);
+    setSearchHighlights(highlights);
+
+    // Hide group headers (e.g. "Recent") whose items are all filtered out
+    this.updateGroupHeaders();
+
+    this._options.onFilterChange?.();
 
     logger.debug('Filter applied', {
       query: this._query,
+      privacy: Array.from(this._privacyFilter),
       visibleCount,
       totalCount: this._items.size,
     });
   }
 
+  /**
+   * Show or hide the inline query syntax error
+   */
+  private updateQueryError(error: string | null): void {
+    if (!this._queryError || !this._searchInput) return;
+    this._queryError.textContent = error ?? '';
+    this._queryError.hidden = !error;
+    this._searchInput.classList.toggle('ype-search-input--invalid', !!error);
+  }
+
+  /**
+   * Get the search index of an item's name, building it on first use
+   */
+  private getNameIndex(item: PlaylistItem): NameIndex {
+    let index = this._nameIndex.get(item.element);
+    if (!index) {
+      const normalized = normalizeForSearch(item.name);
+      index = { normalized, phonetic: buildPhoneticIndex(normalized.text) };
+      this._nameIndex.set(item.element, index);
+    }
+    return index;
+  }
+
+  /**
+   * Match a query word against an item's name, literally and by its reading
+   * @returns The better of the two matches (indices in the original name), or null
+   */
+  private matchWord(word: string, item: PlaylistItem): FuzzyMatch | null {
+    const { normalized, phonetic } = this.getNameIndex(item);
+    const query = normalizeText(word);
+
+    let best = fuzzyMatch(query, normalized.text);
+    const phoneticMatch = matchPhonetic(query, phonetic);
+    if (phoneticMatch && (!best || phoneticMatch.score > best.score)) {
+      best = phoneticMatch;
+    }
+
+    if (!best) return null;
+    return { ...best, indices: toOriginalIndices(normalized, best.indices) };
+  }
+
+  /**
+   * Find an exact (normalized) phrase in an item's name
+   */
+  private matchPhrase(phrase: string, item: PlaylistItem): FuzzyMatch | null {
+    const { normalized } = this.getNameIndex(item);
+    const query = normalizeText(phrase);
+    const start = normalized.text.indexOf(query);
+    if (!query || start === -1) return null;
+
+    const indices = Array.from({ length: query.length }, (_, i) => start + i);
+    return {
+      score: PHRASE_BASE_SCORE + query.length * PHRASE_CHAR_SCORE,
+      indices: toOriginalIndices(normalized, indices),
+    };
+  }
+
+  /**
+   * Show each group header only while at least one item below it is visible
+   */
+  private updateGroupHeaders(): void {
+    if (!this._listContainer) return;
+
+    this._listContainer.querySelectorAll<HTMLElement>('.ype-group-header').forEach((header) => {
+      let hasVisibleItem = false;
+      let sibling = header.nextElementSibling;
+      while (sibling && !sibling.classList.contains('ype-group-header')) {
+        if (this._items.has(sibling) && !sibling.classList.contains('ype-hidden')) {
+          hasVisibleItem = true;
+          break;
+        }
+        sibling = sibling.nextElementSibling;
+      }
+      header.classList.toggle('ype-hidden', !hasVisibleItem);
+    });
+  }
+
   /**
    * Update no-results message visibility (T029)
    */
@@ -253,11 +541,9 @@ export class SearchManager {
       if (!this._noResultsMessage && this._listContainer) {
         this._noResultsMessage = document.createElement('div');
         this._noResultsMessage.className = 'ype-no-results';
-        this._noResultsMessage.textContent = `找不到「${this._query}」相關的播放清單`;
         this._listContainer.appendChild(this._noResultsMessage);
-      } else if (this._noResultsMessage) {
-        this._noResultsMessage.textContent = `找不到「${this._query}」相關的播放清單`;
       }
+      this.renderNoResultsMessage();
     } else {
       if (this._noResultsMessage) {
         this._noResultsMessage.remove();
@@ -266,6 +552,58 @@ export class SearchManager {
     }
   }
 
+  /**
+   * Render the no-results text and, if supported, the "create playlist" offer
+   */
+  private renderNoResultsMessage(): void {
+    if (!this._noResultsMessage) return;
+    const name = this._query.trim();
+
+    const text = document.createElement('div');
+    text.textContent = name ? `找不到「${name}」相關的播放清單` : '沒有符合篩選條件的播放清單';
+    this._noResultsMessage.replaceChildren(text);
+
+    // Only plain text can become a playlist name, not operators like "is:private"
+    const parsed = parseQuery(name);
+    const { onCreatePlaylist } = this._options;
+    if (!onCreatePlaylist || !parsed.ok || !parsed.query || !isPlainText(parsed.query)) return;
+
+    const signal = this._abortController?.signal;
+    const offer = document.createElement('div');
+    offer.className = 'ype-create-offer';
+
+    const privacyGroup = document.createElement('div');
+    privacyGroup.className = 'ype-create-privacy';
+    privacyGroup.setAttribute('role', 'radiogroup');
+    privacyGroup.setAttribute('aria-label', '隱私設定');
+    for (const privacy of Object.keys(PRIVACY_LABELS) as PlaylistPrivacy[]) {
+      const option = document.createElement('button');
+      option.className = 'ype-create-privacy-option';
+      option.textContent = PRIVACY_LABELS[privacy];
+      option.setAttribute('role', 'radio');
+      option.setAttribute('aria-checked', String(privacy === this._createPrivacy));
+      option.addEventListener(
+        'click',
+        () => {
+          this._createPrivacy = privacy;
+          this.renderNoResultsMessage();
+        },
+        { signal }
+      );
+      privacyGroup.appendChild(option);
+    }
+
+    const createButton = document.createElement('button');
+    createButton.className = 'ype-btn ype-btn--save ype-create-button';
+    createButton.textContent = `建立播放清單「${name}」`;
+    createButton.addEventListener('click', () => onCreatePlaylist(name, this._createPrivacy), {
+      signal,
+    });
+
+    offer.append(privacyGroup, createButton);
+    this._noResultsMessage.appendChild(offer);
+  }
+
   /**
    * Clear search query and show all items
    */
@@ -290,13 +628,20 @@ export class SearchManager {
     }
 
     this._debouncedFilter?.cancel();
+    clearSearchHighlights();
     this._searchWrapper?.remove();
+    this._filterBar?.remove();
     this._noResultsMessage?.remove();
-    this._items.clear();
+    // The items map belongs to SelectionManager, which may still need it
+    // (restoring the original order, or finishing a running save): drop it, don't clear it
+    this._items = new Map();
+    this._nameIndex.clear();
     this._listContainer = null;
     this._searchWrapper = null;
+    this._filterBar = null;
     this._searchInput = null;
     this._clearButton = null;
+    this._queryError = null;
     this._noResultsMessage = null;
     this._abortController = null;
   }
@@ -306,10 +651,15 @@ export class SearchManager {
  * Set up search for a sheet
  * @param sheet The playlist sheet element
  * @param items Playlist items from SelectionManager
+ * @param options Callbacks for other managers
  * @returns SearchManager instance
  */
-export function setupSearch(sheet: Element, items: Map<Element, PlaylistItem>): SearchManager {
-  const manager = new SearchManager();
+export function setupSearch(
+  sheet: Element,
+  items: Map<Element, PlaylistItem>,
+  options: SearchManagerOptions = {}
+): SearchManager {
+  const manager = new SearchManager(options);
   manager.initialize(sheet, items);
   return manager;
 }
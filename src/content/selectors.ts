@@ -5,14 +5,29 @@
  * - Use YouTube Web Components tags as primary selectors
  * - Provide fallback selectors for graceful degradation
  * - T036: Handle page-specific DOM differences
+ * - User overrides (options page) add selectors and title phrases at lookup time
+ * - Lookup outcomes are counted per selector for the diagnostics panel
+ * - YouTube and YouTube Music each have their own set, chosen by hostname at startup
  */
 
-import type { Selectors, SelectorConfig } from '../types';
+import type {
+  PlaylistPrivacy,
+  SelectorConfig,
+  SelectorHealth,
+  SelectorMatch,
+  SelectorName,
+  SelectorOverrides,
+  Selectors,
+  SiteId,
+  SiteSelectorOverrides,
+} from '../types';
+import { EMPTY_SITE_SELECTOR_OVERRIDES } from '../utils/selector-overrides';
+import { CURRENT_SITE } from './site';
 
 /**
- * All DOM selectors used by the extension
+ * DOM selectors on YouTube
  */
-export const SELECTORS: Selectors = {
+export const YOUTUBE_SELECTORS: Selectors = {
   sheet: {
     primary: 'yt-sheet-view-model',
     fallback: ['ytd-add-to-playlist-renderer', '[role="dialog"]'],
@@ -34,11 +49,252 @@ export const SELECTORS: Selectors = {
       'yt-button-view-model button[aria-label*="建立"], yt-button-view-model button[aria-label*="Create"]',
     fallback: ['#create-playlist-button', 'button[aria-label*="new playlist"]'],
   },
+  createDialog: {
+    primary: 'yt-create-playlist-dialog-form-view-model',
+    fallback: ['ytd-add-to-playlist-create-renderer', 'tp-yt-paper-dialog'],
+  },
+  createNameInput: {
+    primary: 'textarea',
+    fallback: ['input[type="text"]', 'input:not([type])'],
+  },
+  createPrivacyButton: {
+    primary: 'yt-dropdown-view-model [role="combobox"]',
+    fallback: ['yt-dropdown-view-model button', '#privacy-button', 'tp-yt-paper-dropdown-menu'],
+  },
+  createPrivacyOption: {
+    primary: 'yt-list-item-view-model[role="option"]',
+    fallback: ['[role="option"]', 'tp-yt-paper-item'],
+  },
+  saveButton: {
+    primary:
+      'ytd-watch-metadata button[aria-label*="儲存"], ytd-watch-metadata button[aria-label*="Save"]',
+    fallback: [
+      '#top-level-buttons-computed button[aria-label*="儲存"]',
+      '#top-level-buttons-computed button[aria-label*="Save"]',
+    ],
+  },
+  videoRenderer: {
+    primary: 'ytd-rich-item-renderer',
+    fallback: [
+      'ytd-video-renderer',
+      'ytd-grid-video-renderer',
+      'ytd-playlist-video-renderer',
+      'ytd-compact-video-renderer',
+    ],
+  },
+  videoMenuButton: {
+    primary: 'ytd-menu-renderer yt-icon-button button',
+    fallback: ['button[aria-label="動作選單"]', 'button[aria-label="Action menu"]', '#menu button'],
+  },
+  menuItem: {
+    primary: 'ytd-menu-service-item-renderer',
+    fallback: ['yt-list-item-view-model', 'tp-yt-paper-item'],
+  },
+  snackbar: {
+    primary: 'yt-notification-action-renderer',
+    fallback: ['tp-yt-paper-toast', 'yt-snackbar-container'],
+  },
 };
 
+/**
+ * DOM selectors on YouTube Music (music.youtube.com)
+ * Its save dialog is a ytmusic-add-to-playlist-renderer inside a tp-yt-paper-dialog
+ */
+export const MUSIC_SELECTORS: Selectors = {
+  sheet: {
+    primary: 'ytmusic-add-to-playlist-renderer',
+    fallback: ['ytmusic-popup-container tp-yt-paper-dialog'],
+  },
+  listContainer: {
+    primary: 'ytmusic-add-to-playlist-renderer #playlists',
+    fallback: ['#playlists', 'ytmusic-add-to-playlist-renderer #contents'],
+  },
+  listItem: {
+    primary: 'ytmusic-playlist-add-to-option-renderer',
+    fallback: ['#playlists [role="button"]'],
+  },
+  title: {
+    primary: 'ytmusic-add-to-playlist-renderer .title',
+    fallback: ['#title', 'h2'],
+  },
+  createButton: {
+    primary: 'ytmusic-add-to-playlist-renderer .top-bar yt-button-renderer',
+    fallback: [
+      'ytmusic-add-to-playlist-renderer button[aria-label*="新增"]',
+      'ytmusic-add-to-playlist-renderer button[aria-label*="New"]',
+    ],
+  },
+  createDialog: {
+    primary: 'ytmusic-playlist-form',
+    fallback: ['tp-yt-paper-dialog ytmusic-playlist-form'],
+  },
+  createNameInput: {
+    primary: 'tp-yt-paper-input input',
+    fallback: ['input[type="text"]', 'input:not([type])', 'textarea'],
+  },
+  createPrivacyButton: {
+    primary: 'ytmusic-dropdown-renderer tp-yt-paper-dropdown-menu',
+    fallback: ['ytmusic-dropdown-renderer', '[role="combobox"]'],
+  },
+  createPrivacyOption: {
+    primary: 'ytmusic-dropdown-item-renderer',
+    fallback: ['[role="option"]', 'tp-yt-paper-item'],
+  },
+  saveButton: {
+    primary:
+      'ytmusic-player-page button[aria-label*="儲存"], ytmusic-player-page button[aria-label*="Save"]',
+    fallback: [],
+  },
+  videoRenderer: {
+    primary: 'ytmusic-responsive-list-item-renderer',
+    fallback: ['ytmusic-two-row-item-renderer', 'ytmusic-player-queue-item'],
+  },
+  videoMenuButton: {
+    primary: 'ytmusic-menu-renderer yt-button-shape button',
+    fallback: ['ytmusic-menu-renderer tp-yt-paper-icon-button', 'button[aria-label="Action menu"]'],
+  },
+  menuItem: {
+    primary: 'ytmusic-menu-navigation-item-renderer',
+    fallback: ['ytmusic-menu-service-item-renderer', 'tp-yt-paper-listbox tp-yt-paper-item'],
+  },
+  snackbar: {
+    primary: 'ytmusic-notification-action-renderer',
+    fallback: ['ytmusic-notification-text-renderer', 'tp-yt-paper-toast'],
+  },
+};
+
+/**
+ * Selector set of each site
+ */
+export const SITE_SELECTORS: Record<SiteId, Selectors> = {
+  youtube: YOUTUBE_SELECTORS,
+  music: MUSIC_SELECTORS,
+};
+
+/**
+ * All DOM selectors used by the extension, for the current site
+ */
+export const SELECTORS: Selectors = SITE_SELECTORS[CURRENT_SITE];
+
+/**
+ * Description of each selector, shown on the options page and in the diagnostics panel
+ */
+export const SELECTOR_LABELS: Record<SelectorName, string> = {
+  sheet: '儲存選單',
+  listContainer: '播放清單列表',
+  listItem: '播放清單項目',
+  title: '選單標題',
+  createButton: '「新增播放清單」按鈕',
+  createDialog: '新增播放清單對話框',
+  createNameInput: '播放清單名稱欄位',
+  createPrivacyButton: '隱私設定下拉選單',
+  createPrivacyOption: '隱私設定選項',
+  saveButton: '影片下方的「儲存」按鈕',
+  videoRenderer: '影片項目（首頁、搜尋結果等）',
+  videoMenuButton: '影片的三點選單按鈕',
+  menuItem: '三點選單項目',
+  snackbar: 'YouTube 通知訊息',
+};
+
+/**
+ * Labels of the "Save" entry in a video's three-dot menu (multi-language)
+ * Matched as lowercase substrings of the menu item text
+ */
+export const SAVE_MENU_ITEM_PATTERNS = [
+  '儲存', // Traditional Chinese
+  '保存', // Simplified Chinese / Japanese
+  'save', // English
+  'speichern', // German
+  'guardar', // Spanish
+  'enregistrer', // French
+  'salva', // Italian
+  '저장', // Korean
+  'сохранить', // Russian
+];
+
+/**
+ * Labels of the privacy options in YouTube's create dialog (multi-language, lowercase)
+ * Compared against the whole option label, since "公開" is part of "不公開"
+ */
+export const PRIVACY_OPTION_LABELS: Record<PlaylistPrivacy, string[]> = {
+  private: [
+    '私人',
+    '私享',
+    'private',
+    'privat',
+    'privado',
+    'privée',
+    'privata',
+    '非公開',
+    '비공개',
+    'доступ ограничен',
+  ],
+  unlisted: [
+    '不公開',
+    '不公开',
+    'unlisted',
+    'nicht gelistet',
+    'no listado',
+    'non répertoriée',
+    'non in elenco',
+    '限定公開',
+    '일부 공개',
+    'доступ по ссылке',
+  ],
+  public: [
+    '公開',
+    '公开',
+    'public',
+    'öffentlich',
+    'público',
+    'publique',
+    'pubblica',
+    '공개',
+    'открытый доступ',
+  ],
+};
+
+/**
+ * Labels of the submit button in YouTube's create dialog (multi-language, lowercase)
+ */
+export const CREATE_SUBMIT_PATTERNS = [
+  '建立', // Traditional Chinese
+  '创建', // Simplified Chinese
+  'create', // English
+  'erstellen', // German
+  'crear', // Spanish
+  'créer', // French
+  'crea', // Italian
+  '作成', // Japanese
+  '만들기', // Korean
+  'создать', // Russian
+];
+
+/**
+ * Messages of YouTube's error snackbar (multi-language)
+ * Matched as lowercase substrings; only full phrases, since the regular
+ * "Saved to …" snackbar contains playlist names
+ */
+export const ERROR_SNACKBAR_PATTERNS = [
+  '發生錯誤', // Traditional Chinese
+  '發生問題', // Traditional Chinese
+  '出了点问题', // Simplified Chinese
+  '出错了', // Simplified Chinese
+  'something went wrong', // English
+  'an error occurred', // English
+  'ein fehler ist aufgetreten', // German
+  'se ha producido un error', // Spanish
+  'une erreur est survenue', // French
+  'si è verificato un errore', // Italian
+  'エラーが発生しました', // Japanese
+  '문제가 발생했습니다', // Korean
+  'произошла ошибка', // Russian
+];
+
 /**
  * Title patterns for identifying playlist save sheet (multi-language)
  * T036: Extended language support for cross-page compatibility
+ * Only a tiebreaker: the sheet is detected from its structure (see detector.ts)
  *
  * IMPORTANT: Only use specific complete phrases to avoid false positives
  * on video context menus (three-dot menus) which contain generic terms
@@ -58,6 +314,132 @@ export const PLAYLIST_TITLE_PATTERNS = [
   'сохранить в плейлист', // Russian - full phrase
 ];
 
+/** Selector overrides from the options page, merged in at lookup time */
+let selectorOverrides: SiteSelectorOverrides = EMPTY_SITE_SELECTOR_OVERRIDES;
+
+/** Name of each built-in selector config, for finding its overrides */
+const SELECTOR_NAMES = new Map<SelectorConfig, SelectorName>(
+  (Object.keys(SELECTORS) as SelectorName[]).map((name) => [SELECTORS[name], name])
+);
+
+/** Lookup outcomes of this page session, per selector name */
+const selectorHealth = new Map<SelectorName, SelectorHealth>();
+
+/**
+ * Replace the user's selector overrides (already validated)
+ */
+export function setSelectorOverrides(overrides: SiteSelectorOverrides): void {
+  selectorOverrides = overrides;
+}
+
+/**
+ * Get the user's overrides of the current site; the other site's selectors don't apply here
+ */
+function getSiteOverrides(): SelectorOverrides {
+  return selectorOverrides[CURRENT_SITE];
+}
+
+/**
+ * Get the selectors to try for a config, in order: the user's extra primary selectors,
+ * the built-in primary, the built-in fallbacks, then the user's extra fallbacks
+ */
+export function getSelectorCandidates(config: SelectorConfig): string[] {
+  const name = SELECTOR_NAMES.get(config);
+  const override = name ? getSiteOverrides().selectors[name] : undefined;
+  return [
+    ...(override?.primary ?? []),
+    config.primary,
+    ...config.fallback,
+    ...(override?.fallback ?? []),
+  ];
+}
+
+/**
+ * Get the sheet title phrases: the built-in patterns plus the user's
+ */
+export function getPlaylistTitlePatterns(): string[] {
+  return [...PLAYLIST_TITLE_PATTERNS, ...getSiteOverrides().titlePatterns];
+}
+
+/**
+ * Check whether an element matches any selector of a config
+ */
+export function matchesSelector(element: Element, config: SelectorConfig): boolean {
+  return getSelectorCandidates(config).some((selector) => element.matches(selector));
+}
+
+/**
+ * Find the closest ancestor (or the element itself) matching any selector of a config
+ */
+export function closestElement(element: Element, config: SelectorConfig): Element | null {
+  return element.closest(getSelectorCandidates(config).join(', '));
+}
+
+/**
+ * Work out which candidate of getSelectorCandidates() a position refers to
+ * @param position Index of the matching candidate, or -1 if none matched
+ */
+function toSelectorMatch(name: SelectorName, position: number): SelectorMatch {
+  if (position < 0) return { source: 'none', index: 0 };
+
+  const override = getSiteOverrides().selectors[name];
+  const overridePrimaryCount = override?.primary.length ?? 0;
+  const fallbackCount = SELECTORS[name].fallback.length;
+
+  if (position < overridePrimaryCount) return { source: 'override', index: position };
+  if (position === overridePrimaryCount) return { source: 'primary', index: 0 };
+  if (position <= overridePrimaryCount + fallbackCount) {
+    return { source: 'fallback', index: position - overridePrimaryCount - 1 };
+  }
+  return { source: 'override', index: position - fallbackCount - 1 };
+}
+
+/**
+ * Count the outcome of a lookup for the diagnostics panel
+ * @param position Index of the matching candidate, or -1 if none matched
+ */
+function recordLookup(config: SelectorConfig, position: number): void {
+  const name = SELECTOR_NAMES.get(config);
+  if (!name) return;
+
+  let health = selectorHealth.get(name);
+  if (!health) {
+    health = {
+      lookups: 0,
+      primary: 0,
+      fallback: config.fallback.map(() => 0),
+      override: 0,
+      none: 0,
+      last: { source: 'none', index: 0 },
+    };
+    selectorHealth.set(name, health);
+  }
+
+  const match = toSelectorMatch(name, position);
+  health.lookups++;
+  health.last = match;
+  if (match.source === 'fallback') {
+    health.fallback[match.index]++;
+  } else {
+    health[match.source]++;
+  }
+}
+
+/**
+ * Get the lookup outcomes recorded so far, per selector name
+ * Selectors that were never looked up are missing
+ */
+export function getSelectorHealth(): ReadonlyMap<SelectorName, SelectorHealth> {
+  return selectorHealth;
+}
+
+/**
+ * Forget the recorded lookup outcomes
+ */
+export function resetSelectorHealth(): void {
+  selectorHealth.clear();
+}
+
 /**
  * Find element using selector with fallback strategy
  * @param parent Parent element to search within
@@ -65,16 +447,17 @@ export const PLAYLIST_TITLE_PATTERNS = [
  * @returns Found element or null
  */
 export function findElement(parent: Element | Document, config: SelectorConfig): Element | null {
-  // Try primary selector first
-  const primary = parent.querySelector(config.primary);
-  if (primary) return primary;
-
-  // Try fallback selectors
-  for (const fallback of config.fallback) {
-    const element = parent.querySelector(fallback);
-    if (element) return element;
+  // Try primary selectors first, then fallbacks
+  const candidates = getSelectorCandidates(config);
+  for (let i = 0; i < candidates.length; i++) {
+    const element = parent.querySelector(candidates[i]);
+    if (element) {
+      recordLookup(config, i);
+      return element;
+    }
   }
 
+  recordLookup(config, -1);
   return null;
 }
 
@@ -88,15 +471,36 @@ export function findAllElements(
   parent: Element | Document,
   config: SelectorConfig
 ): NodeListOf<Element> {
-  // Try primary selector first
-  const primary = parent.querySelectorAll(config.primary);
-  if (primary.length > 0) return primary;
-
-  // Try fallback selectors
-  for (const fallback of config.fallback) {
-    const elements = parent.querySelectorAll(fallback);
-    if (elements.length > 0) return elements;
+  // Try primary selectors first, then fallbacks
+  const candidates = getSelectorCandidates(config);
+  for (let i = 0; i < candidates.length; i++) {
+    const elements = parent.querySelectorAll(candidates[i]);
+    if (elements.length > 0) {
+      recordLookup(config, i);
+      return elements;
+    }
   }
 
+  recordLookup(config, -1);
   return parent.querySelectorAll('__never_match__'); // Return empty NodeList
 }
+
+/**
+ * Get the message of YouTube's error snackbar if one is visible
+ * Polled after every batch click, so the lookup is not recorded: a missing snackbar
+ * is the normal case and would drown the snackbar's health in "no match" outcomes
+ * @returns Snackbar text or null if no error is shown
+ */
+export function getVisibleErrorSnackbar(): string | null {
+  const selector = getSelectorCandidates(SELECTORS.snackbar).join(', ');
+  for (const snackbar of document.querySelectorAll(selector)) {
+    // Hidden snackbars stay in the DOM with their last message
+    if (snackbar.getClientRects().length === 0) continue;
+
+    const text = (snackbar.textContent || '').toLowerCase().trim();
+    if (ERROR_SNACKBAR_PATTERNS.some((pattern) => text.includes(pattern))) {
+      return text;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Site Detection Module
+ *
+ * The content script runs on both YouTube and YouTube Music, whose save dialogs
+ * differ; the site is chosen once from the hostname at startup.
+ * Kept free of imports so selectors.ts can pick its selector set from it.
+ */
+
+import type { SiteId } from '../types';
+
+/** Hostname of YouTube Music */
+const MUSIC_HOSTNAME = 'music.youtube.com';
+
+/**
+ * Get the site for a hostname
+ */
+export function detectSite(hostname: string = window.location.hostname): SiteId {
+  return hostname === MUSIC_HOSTNAME ? 'music' : 'youtube';
+}
+
+/** Site of the current page */
+export const CURRENT_SITE: SiteId = detectSite();
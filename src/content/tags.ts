@@ -0,0 +1,325 @@
+/**
+ * Tags Module
+ *
+ * Local tags (e.g. #work, #music, #kids) standing in for the playlist folders
+ * YouTube doesn't have. Tags are stored in chrome.storage.sync by playlist
+ * and edited from a small menu on each item of the enhanced sheet
+ * - The store is split across several sync keys, since one item may hold at most 8 KB
+ * - Tag button on each item, also opened with a right-click
+ * - Menu toggling the tags already in use, plus an input for a new tag
+ */
+
+import type { PlaylistItem } from '../types';
+import { getRefKey, toPlaylistRef } from './history';
+import {
+  readStorageEntries,
+  replaceStorageEntries,
+  type StorageWriteResult,
+} from '../utils/storage';
+
+/**
+ * Prefix of the chrome.storage.sync keys holding the tag store, one shard per key
+ * ("playlistTags.0", "playlistTags.1", …). The store used to be a single "playlistTags"
+ * item, which the prefix also covers: it is read like a shard and replaced on the next save
+ */
+const TAGS_STORAGE_KEY_PREFIX = 'playlistTags';
+
+/** Largest shard (bytes of key and JSON); chrome.storage.sync allows 8192 per item */
+const MAX_TAG_SHARD_BYTES = 7 * 1024;
+
+/** Gap between the menu and the viewport edges (px) */
+const MENU_VIEWPORT_MARGIN = 8;
+
+/**
+ * Tags of every tagged playlist, keyed by playlist reference key
+ */
+export type TagStore = Record<string, string[]>;
+
+/**
+ * Size of a string in storage (UTF-8 bytes)
+ */
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Split a tag store into shards that each fit in one chrome.storage.sync item
+ */
+export function splitTagStore(store: TagStore): TagStore[] {
+  const shards: TagStore[] = [];
+  let shard: TagStore = {};
+  // Key of the shard, braces and the separating commas
+  let shardBytes = byteLength(`${TAGS_STORAGE_KEY_PREFIX}.00{}`);
+
+  for (const [key, tags] of Object.entries(store)) {
+    const entryBytes = byteLength(`${JSON.stringify(key)}:${JSON.stringify(tags)},`);
+    if (Object.keys(shard).length > 0 && shardBytes + entryBytes > MAX_TAG_SHARD_BYTES) {
+      shards.push(shard);
+      shard = {};
+      shardBytes = byteLength(`${TAGS_STORAGE_KEY_PREFIX}.00{}`);
+    }
+    shard[key] = tags;
+    shardBytes += entryBytes;
+  }
+  if (Object.keys(shard).length > 0) {
+    shards.push(shard);
+  }
+  return shards;
+}
+
+/**
+ * Load the tags of all playlists
+ */
+export async function loadTags(): Promise<TagStore> {
+  const shards = await readStorageEntries('sync', TAGS_STORAGE_KEY_PREFIX);
+  return Object.assign({}, ...Object.values(shards)) as TagStore;
+}
+
+/**
+ * Persist the tags of all playlists
+ * @returns Whether the tags were written, or hit chrome.storage.sync's size limits
+ */
+export async function saveTags(store: TagStore): Promise<StorageWriteResult> {
+  const entries = Object.fromEntries(
+    splitTagStore(store).map((shard, index) => [`${TAGS_STORAGE_KEY_PREFIX}.${index}`, shard])
+  );
+  return replaceStorageEntries('sync', TAGS_STORAGE_KEY_PREFIX, entries);
+}
+
+/**
+ * Normalize user input to a tag: "#Work Stuff" → "work-stuff"
+ * @returns The tag without "#", or an empty string if nothing is left
+ */
+export function normalizeTag(text: string): string {
+  return text.normalize('NFKC').trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Get the stored tags of a playlist
+ * Tags saved by name before the playlist's ID was known are still found
+ */
+export function getItemTags(store: TagStore, item: PlaylistItem): string[] {
+  const ref = toPlaylistRef(item);
+  return store[getRefKey(ref)] ?? store[getRefKey({ name: ref.name })] ?? [];
+}
+
+/**
+ * Build a tag store with a playlist's tags replaced
+ * A tag entry stored by name is folded into the ID entry once the ID is known
+ */
+export function setItemTags(store: TagStore, item: PlaylistItem, tags: string[]): TagStore {
+  const ref = toPlaylistRef(item);
+  const next = { ...store };
+  delete next[getRefKey({ name: ref.name })];
+  if (tags.length > 0) {
+    next[getRefKey(ref)] = [...tags].sort();
+  } else {
+    delete next[getRefKey(ref)];
+  }
+  return next;
+}
+
+/**
+ * Get every tag used by the given playlists, sorted
+ */
+export function collectTags(items: Iterable<PlaylistItem>): string[] {
+  const tags = new Set<string>();
+  for (const item of items) {
+    item.tags?.forEach((tag) => tags.add(tag));
+  }
+  return Array.from(tags).sort();
+}
+
+/**
+ * Add or update the tag button of an item, listing its tags
+ */
+export function renderTagButton(item: PlaylistItem): void {
+  const { element, tags = [] } = item;
+  let button = element.querySelector<HTMLElement>('.ype-tag-button');
+
+  if (!button) {
+    button = document.createElement('button');
+    button.className = 'ype-tag-button';
+    // Keep it before the privacy/size indicator and change badge at the end of the item
+    element.insertBefore(
+      button,
+      element.querySelector('.ype-playlist-meta') ?? element.querySelector('.ype-change-badge')
+    );
+  }
+
+  button.textContent = tags.length > 0 ? tags.map((tag) => `#${tag}`).join(' ') : '#';
+  button.title = '編輯標籤（也可在項目上按右鍵）';
+  button.setAttribute('aria-label', `編輯「${item.name}」的標籤`);
+  button.classList.toggle('ype-tag-button--empty', tags.length === 0);
+}
+
+/**
+ * Options of the tag menu for one playlist
+ */
+export interface TagMenuOptions {
+  /** Name of the playlist being tagged */
+  name: string;
+  /** Current tags of the playlist */
+  tags: string[];
+  /** Tags in use by any playlist, offered as toggles */
+  knownTags: string[];
+  /** Called with the playlist's new tags after each change */
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * Small menu for editing the tags of one playlist
+ */
+export class TagMenu {
+  private _menu: HTMLElement | null = null;
+  private _options: TagMenuOptions | null = null;
+  /** Set while re-rendering, when removing the focused control isn't leaving the menu */
+  private _isRendering = false;
+  // AbortController for the listeners of the open menu
+  private _abortController: AbortController | null = null;
+
+  /**
+   * Whether the menu is open
+   */
+  get isOpen(): boolean {
+    return !!this._menu;
+  }
+
+  /**
+   * Open the menu for a playlist, replacing any open menu
+   * @param container Element the menu is added to (inside YouTube's dropdown, so it stays open)
+   * @param x Viewport x coordinate of the menu's top-left corner
+   * @param y Viewport y coordinate of the menu's top-left corner
+   */
+  open(container: Element, x: number, y: number, options: TagMenuOptions): void {
+    this.close();
+    this._options = options;
+    this._abortController = new AbortController();
+    const { signal } = this._abortController;
+
+    this._menu = document.createElement('div');
+    this._menu.className = 'ype-tag-menu';
+    this._menu.setAttribute('role', 'dialog');
+    this._menu.setAttribute('aria-label', `「${options.name}」的標籤`);
+    // Focusable so clicks on the menu's padding don't count as leaving it
+    this._menu.tabIndex = -1;
+    container.appendChild(this._menu);
+    this.render();
+
+    // Keep the menu inside the viewport
+    const rect = this._menu.getBoundingClientRect();
+    const left = Math.min(x, window.innerWidth - rect.width - MENU_VIEWPORT_MARGIN);
+    const top = Math.min(y, window.innerHeight - rect.height - MENU_VIEWPORT_MARGIN);
+    this._menu.style.left = `${Math.max(MENU_VIEWPORT_MARGIN, left)}px`;
+    this._menu.style.top = `${Math.max(MENU_VIEWPORT_MARGIN, top)}px`;
+
+    // Close when the user clicks or tabs elsewhere
+    document.addEventListener(
+      'pointerdown',
+      (e) => {
+        if (!this._menu?.contains(e.target as Node)) this.close();
+      },
+      { capture: true, signal }
+    );
+    this._menu.addEventListener(
+      'focusout',
+      (e) => {
+        if (!this._isRendering && !this._menu?.contains(e.relatedTarget as Node | null)) {
+          this.close();
+        }
+      },
+      { signal }
+    );
+    // Keep keys on the checkboxes away from YouTube's dropdown handlers
+    this._menu.addEventListener('keydown', (e) => e.stopPropagation(), { signal });
+
+    this._menu.querySelector<HTMLInputElement>('.ype-tag-input')?.focus();
+  }
+
+  /**
+   * Render the tag toggles and the new-tag input
+   */
+  private render(): void {
+    const menu = this._menu;
+    const options = this._options;
+    if (!menu || !options) return;
+    const signal = this._abortController?.signal;
+    this._isRendering = true;
+    menu.replaceChildren();
+
+    const title = document.createElement('div');
+    title.className = 'ype-tag-menu-title';
+    title.textContent = options.name;
+    menu.appendChild(title);
+
+    const allTags = Array.from(new Set([...options.knownTags, ...options.tags])).sort();
+    for (const tag of allTags) {
+      const label = document.createElement('label');
+      label.className = 'ype-tag-option';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = options.tags.includes(tag);
+      checkbox.addEventListener(
+        'change',
+        () =>
+          this.update(
+            checkbox.checked ? [...options.tags, tag] : options.tags.filter((t) => t !== tag)
+          ),
+        { signal }
+      );
+      label.append(checkbox, document.createTextNode(`#${tag}`));
+      menu.appendChild(label);
+    }
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'ype-tag-input';
+    input.placeholder = '新增標籤，按 Enter';
+    input.setAttribute('aria-label', '新增標籤');
+
+    // Keep typing away from YouTube's dropdown key handlers
+    input.addEventListener(
+      'keydown',
+      (e) => {
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        if (e.key !== 'Enter') return;
+        e.preventDefault();
+        const tag = normalizeTag(input.value);
+        if (tag && !options.tags.includes(tag)) {
+          this.update([...options.tags, tag]);
+        }
+      },
+      { capture: true, signal }
+    );
+    input.addEventListener('keyup', (e) => e.stopPropagation(), { capture: true, signal });
+    menu.appendChild(input);
+    this._isRendering = false;
+  }
+
+  /**
+   * Apply new tags to the playlist and re-render the menu
+   */
+  private update(tags: string[]): void {
+    if (!this._options) return;
+    this._options = {
+      ...this._options,
+      tags,
+      knownTags: Array.from(new Set([...this._options.knownTags, ...tags])),
+    };
+    this.render();
+    this._menu?.querySelector<HTMLInputElement>('.ype-tag-input')?.focus();
+    this._options.onChange(tags);
+  }
+
+  /**
+   * Close the menu if open
+   */
+  close(): void {
+    this._abortController?.abort();
+    this._abortController = null;
+    this._menu?.remove();
+    this._menu = null;
+    this._options = null;
+  }
+}
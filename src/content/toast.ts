@@ -4,7 +4,7 @@
  * Implements T021: Toast notification with success/error/info types
  */
 
-import type { ToastType } from '../types';
+import type { ToastAction, ToastType } from '../types';
 
 /** Currently visible toast element */
 let currentToast: HTMLElement | null = null;
@@ -17,8 +17,14 @@ let hideTimeout: ReturnType<typeof setTimeout> | null = null;
  * @param message Message to display
  * @param type Toast type (success, error, info)
  * @param duration Duration in ms before auto-hide (default: 3000)
+ * @param action Optional action button (e.g. "Undo") shown next to the message
  */
-export function showToast(message: string, type: ToastType = 'info', duration = 3000): void {
+export function showToast(
+  message: string,
+  type: ToastType = 'info',
+  duration = 3000,
+  action?: ToastAction
+): void {
   // Remove existing toast if any
   hideToast();
 
@@ -29,6 +35,17 @@ export function showToast(message: string, type: ToastType = 'info', duration =
   toast.setAttribute('role', 'alert');
   toast.setAttribute('aria-live', 'polite');
 
+  if (action) {
+    const button = document.createElement('button');
+    button.className = 'ype-toast-action';
+    button.textContent = action.label;
+    button.addEventListener('click', () => {
+      hideToast();
+      action.onClick();
+    });
+    toast.appendChild(button);
+  }
+
   // Add to document
   document.body.appendChild(toast);
   currentToast = toast;
@@ -46,6 +63,28 @@ export function showToast(message: string, type: ToastType = 'info', duration =
   }, duration);
 }
 
+/**
+ * Show or update a progress toast (e.g. "正在儲存 3/10")
+ * Updates the text in place while a progress toast is visible, so it doesn't re-animate
+ * @param message Progress message
+ * @param duration Duration in ms before auto-hide if no further update arrives (default: 10000)
+ */
+export function showProgressToast(message: string, duration = 10000): void {
+  if (!currentToast || !currentToast.classList.contains('ype-toast--progress')) {
+    showToast(message, 'info', duration);
+    currentToast?.classList.add('ype-toast--progress');
+    return;
+  }
+
+  currentToast.textContent = message;
+  if (hideTimeout) {
+    clearTimeout(hideTimeout);
+  }
+  hideTimeout = setTimeout(() => {
+    hideToast();
+  }, duration);
+}
+
 /**
  * Hide the current toast
  */
@@ -0,0 +1,63 @@
+/**
+ * Usage Module
+ *
+ * Records per-playlist usage after each successful save and ranks
+ * playlists for the pinned "Recent" group at the top of the sheet.
+ * Stats are kept in chrome.storage.local (per device).
+ */
+
+import type { PinnedSortMode, PlaylistRef, PlaylistUsage } from '../types';
+import { getRefKey } from './history';
+import { readStorage, writeStorage } from '../utils/storage';
+
+/** chrome.storage.local key holding usage stats keyed by playlist */
+const USAGE_STORAGE_KEY = 'playlistUsage';
+
+/**
+ * Load usage stats of all playlists
+ */
+export async function loadUsage(): Promise<PlaylistUsage[]> {
+  const usage = await readStorage<Record<string, PlaylistUsage>>('local', USAGE_STORAGE_KEY, {});
+  return Object.values(usage);
+}
+
+/**
+ * Record one use of each playlist
+ */
+export async function recordUsage(refs: PlaylistRef[]): Promise<void> {
+  if (refs.length === 0) return;
+
+  const usage = await readStorage<Record<string, PlaylistUsage>>('local', USAGE_STORAGE_KEY, {});
+  const now = Date.now();
+
+  for (const ref of refs) {
+    const key = getRefKey(ref);
+    const legacyKey = getRefKey({ name: ref.name });
+    // Fold stats recorded by name before the playlist's ID was known into the ID entry
+    const legacy = key !== legacyKey ? usage[legacyKey] : undefined;
+    if (legacy) {
+      delete usage[legacyKey];
+    }
+    usage[key] = {
+      ref,
+      count: (usage[key]?.count ?? 0) + (legacy?.count ?? 0) + 1,
+      lastUsed: now,
+    };
+  }
+
+  await writeStorage('local', USAGE_STORAGE_KEY, usage);
+}
+
+/**
+ * Rank playlists for pinning
+ * @param usage Usage stats of all playlists
+ * @param mode Most recent or most frequent first
+ * @returns Usage stats sorted by the chosen mode
+ */
+export function rankUsage(usage: PlaylistUsage[], mode: PinnedSortMode): PlaylistUsage[] {
+  return [...usage].sort((a, b) =>
+    mode === 'frequent'
+      ? b.count - a.count || b.lastUsed - a.lastUsed
+      : b.lastUsed - a.lastUsed || b.count - a.count
+  );
+}
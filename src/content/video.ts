@@ -0,0 +1,175 @@
+/**
+ * Video Context Module
+ *
+ * Tracks which video the save sheet belongs to and opens the save sheet
+ * for a given video on demand
+ * - On watch pages the video comes from the URL
+ * - On grid pages (home, results, channel) it comes from the video renderer
+ *   whose menu the user last interacted with
+ */
+
+import {
+  SELECTORS,
+  SAVE_MENU_ITEM_PATTERNS,
+  closestElement,
+  findElement,
+  findAllElements,
+  getSelectorCandidates,
+} from './selectors';
+import { getSiteProfile } from './profiles';
+import { logger } from '../utils/logger';
+import { delay, waitFor } from '../utils/debounce';
+
+/** Max time to wait for a video's three-dot menu to render its items (ms) */
+const MENU_OPEN_TIMEOUT_MS = 2000;
+
+/** Delay after opening a menu before interacting with it (ms) */
+const MENU_SETTLE_DELAY_MS = 100;
+
+/** Video whose menu or save button the user last interacted with */
+let contextVideoId: string | null = null;
+
+/** Whether the interaction tracker has been installed */
+let isTracking = false;
+
+/**
+ * Extract a video ID from a YouTube URL (watch or shorts)
+ * @param href Absolute or relative URL
+ * @returns Video ID or null if the URL doesn't point to a video
+ */
+export function extractVideoId(href: string): string | null {
+  try {
+    const url = new URL(href, window.location.origin);
+    if (url.pathname === '/watch') {
+      return url.searchParams.get('v');
+    }
+    const shorts = url.pathname.match(/^\/shorts\/([\w-]+)/);
+    return shorts ? shorts[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the video ID a renderer links to
+ */
+export function getRendererVideoId(renderer: Element): string | null {
+  // YouTube Music links are relative ("watch?v=…")
+  const links = renderer.querySelectorAll<HTMLAnchorElement>(
+    'a[href*="/watch?v="], a[href^="watch?v="], a[href*="/shorts/"]'
+  );
+  for (const link of links) {
+    const videoId = extractVideoId(link.getAttribute('href') || '');
+    if (videoId) return videoId;
+  }
+  return null;
+}
+
+/**
+ * Find the closest video renderer around an element
+ */
+function closestVideoRenderer(element: Element): Element | null {
+  return closestElement(element, SELECTORS.videoRenderer);
+}
+
+/**
+ * Install a capture listener that remembers which video the user is acting on
+ * Interactions inside popups (the save sheet itself, toasts) keep the current context
+ */
+export function trackVideoContext(): void {
+  if (isTracking) return;
+  isTracking = true;
+
+  document.addEventListener(
+    'pointerdown',
+    (e) => {
+      const target = e.target as Element | null;
+      if (!target || !(target instanceof Element)) return;
+      if (target.closest(`${getSiteProfile().popupSelector}, .ype-toast, .ype-footer`)) {
+        return;
+      }
+
+      const renderer = closestVideoRenderer(target);
+      contextVideoId = renderer ? getRendererVideoId(renderer) : null;
+    },
+    { capture: true }
+  );
+}
+
+/**
+ * Explicitly set the video the next save sheet belongs to
+ * Used before opening a save sheet programmatically
+ */
+export function setVideoContext(videoId: string | null): void {
+  contextVideoId = videoId;
+}
+
+/**
+ * Get the video the currently opening save sheet belongs to
+ * @returns Video ID or null if it can't be determined
+ */
+export function getCurrentVideoId(): string | null {
+  return contextVideoId ?? extractVideoId(window.location.href);
+}
+
+/**
+ * Open the save sheet from a renderer's three-dot menu
+ */
+async function openSaveSheetFromMenu(renderer: Element): Promise<boolean> {
+  const menuButton = findElement(renderer, SELECTORS.videoMenuButton) as HTMLElement | null;
+  if (!menuButton) {
+    logger.selectorFailed('videoMenuButton', getSelectorCandidates(SELECTORS.videoMenuButton));
+    return false;
+  }
+
+  menuButton.click();
+
+  let saveItem: HTMLElement | null = null;
+  const found = await waitFor(() => {
+    const items = findAllElements(document, SELECTORS.menuItem);
+    for (const item of items) {
+      const text = (item.textContent || '').toLowerCase().trim();
+      if (SAVE_MENU_ITEM_PATTERNS.some((pattern) => text.includes(pattern))) {
+        saveItem = item as HTMLElement;
+        return true;
+      }
+    }
+    return false;
+  }, MENU_OPEN_TIMEOUT_MS);
+
+  if (!found || !saveItem) {
+    logger.warn('Save entry not found in video menu');
+    return false;
+  }
+
+  await delay(MENU_SETTLE_DELAY_MS);
+  (saveItem as HTMLElement).click();
+  return true;
+}
+
+/**
+ * Open YouTube's save sheet for a video
+ * Uses the watch page's save button when the video is playing,
+ * otherwise the three-dot menu of a renderer linking to the video
+ * @returns Whether a way to open the sheet was found and clicked
+ */
+export async function openSaveSheet(videoId: string): Promise<boolean> {
+  setVideoContext(videoId);
+
+  if (extractVideoId(window.location.href) === videoId) {
+    const saveButton = findElement(document, SELECTORS.saveButton) as HTMLElement | null;
+    if (saveButton) {
+      saveButton.click();
+      return true;
+    }
+  }
+
+  for (const renderer of findAllElements(document, SELECTORS.videoRenderer)) {
+    if (getRendererVideoId(renderer) === videoId) {
+      return openSaveSheetFromMenu(renderer);
+    }
+  }
+
+  logger.warn('No way to open save sheet for video', { videoId });
+  return false;
+}
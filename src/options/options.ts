@@ -0,0 +1,320 @@
+/**
+ * YouTube Playlist Enhancer - Options Page
+ *
+ * Edits the user settings that have no control inside the save sheet
+ * - Batch click throttling (min/max wait, back-off factor)
+ * - Selector overrides: extra selectors per site and selector name, and extra sheet titles
+ */
+
+import type {
+  SelectorName,
+  SelectorOverride,
+  SelectorOverrides,
+  SiteId,
+  SiteSelectorOverrides,
+  UserSettings,
+} from '../types';
+import { DEFAULT_SETTINGS, loadSettings, updateSettings } from '../utils/settings';
+import { normalizeThrottleConfig } from '../utils/throttle';
+import { PLAYLIST_TITLE_PATTERNS, SELECTOR_LABELS, SITE_SELECTORS } from '../content/selectors';
+import {
+  EMPTY_SITE_SELECTOR_OVERRIDES,
+  isValidSelector,
+  loadSelectorOverrides,
+  resetSelectorOverrides,
+  sanitizeSelectorOverrides,
+  saveSelectorOverrides,
+} from '../utils/selector-overrides';
+
+/** How long the status message stays visible (ms) */
+const STATUS_DURATION_MS = 2000;
+
+/** How long a validation error stays visible (ms) */
+const ERROR_STATUS_DURATION_MS = 8000;
+
+/** Which list of a selector override a textarea edits */
+type OverrideField = keyof SelectorOverride;
+
+const OVERRIDE_FIELD_LABELS: Record<OverrideField, string> = {
+  primary: '優先',
+  fallback: '備援',
+};
+
+/** Sites whose selectors can be overridden, each with its own overrides */
+const SITE_LABELS: Record<SiteId, string> = {
+  youtube: 'YouTube',
+  music: 'YouTube Music',
+};
+
+const SITE_IDS = Object.keys(SITE_LABELS) as SiteId[];
+
+/**
+ * Get a required element of the options page
+ */
+function getElement<T extends HTMLElement>(id: string): T {
+  const element = document.getElementById(id);
+  if (!element) {
+    throw new Error(`Options page element #${id} not found`);
+  }
+  return element as T;
+}
+
+const form = getElement<HTMLFormElement>('options-form');
+const minInput = getElement<HTMLInputElement>('click-delay-min');
+const maxInput = getElement<HTMLInputElement>('click-delay-max');
+const factorInput = getElement<HTMLInputElement>('click-backoff-factor');
+const resetButton = getElement<HTMLButtonElement>('reset');
+const status = getElement<HTMLElement>('status');
+const selectorForm = getElement<HTMLFormElement>('selector-form');
+const selectorFields = getElement<HTMLElement>('selector-fields');
+const resetSelectorsButton = getElement<HTMLButtonElement>('reset-selectors');
+const selectorStatus = getElement<HTMLElement>('selector-status');
+
+const SELECTOR_NAMES = Object.keys(SITE_SELECTORS.youtube) as SelectorName[];
+
+const statusTimeouts = new Map<HTMLElement, ReturnType<typeof setTimeout>>();
+
+/**
+ * Show a short status message next to the buttons
+ * @param target Status element of the form
+ */
+function showStatus(message: string, target = status, duration = STATUS_DURATION_MS): void {
+  target.textContent = message;
+  const timeout = statusTimeouts.get(target);
+  if (timeout) {
+    clearTimeout(timeout);
+  }
+  statusTimeouts.set(
+    target,
+    setTimeout(() => {
+      target.textContent = '';
+    }, duration)
+  );
+}
+
+/**
+ * Fill the form from settings
+ */
+function render(settings: UserSettings): void {
+  minInput.value = String(settings.clickDelayMinMs);
+  maxInput.value = String(settings.clickDelayMaxMs);
+  factorInput.value = String(settings.clickBackoffFactor);
+}
+
+/**
+ * Save the form, correcting inconsistent values (e.g. max below min)
+ */
+async function save(): Promise<void> {
+  const throttle = normalizeThrottleConfig({
+    minDelayMs: minInput.valueAsNumber,
+    maxDelayMs: maxInput.valueAsNumber,
+    backoffFactor: factorInput.valueAsNumber,
+  });
+
+  const settings = await updateSettings({
+    clickDelayMinMs: throttle.minDelayMs,
+    clickDelayMaxMs: throttle.maxDelayMs,
+    clickBackoffFactor: throttle.backoffFactor,
+  });
+  render(settings);
+  showStatus('已儲存');
+}
+
+/**
+ * Restore the defaults of the settings shown on this page
+ */
+async function reset(): Promise<void> {
+  const settings = await updateSettings({
+    clickDelayMinMs: DEFAULT_SETTINGS.clickDelayMinMs,
+    clickDelayMaxMs: DEFAULT_SETTINGS.clickDelayMaxMs,
+    clickBackoffFactor: DEFAULT_SETTINGS.clickBackoffFactor,
+  });
+  render(settings);
+  showStatus('已還原預設值');
+}
+
+/**
+ * Get the textarea editing one list of a selector's overrides on a site
+ */
+function getOverrideInput(
+  site: SiteId,
+  name: SelectorName,
+  field: OverrideField
+): HTMLTextAreaElement {
+  return getElement<HTMLTextAreaElement>(`selector-${site}-${name}-${field}`);
+}
+
+/**
+ * Get the textarea editing the extra sheet titles of a site
+ */
+function getTitlePatternsInput(site: SiteId): HTMLTextAreaElement {
+  return getElement<HTMLTextAreaElement>(`title-patterns-${site}`);
+}
+
+/**
+ * Describe the built-in selectors of a selector list on a site
+ */
+function describeBuiltIn(site: SiteId, name: SelectorName, field: OverrideField): string {
+  const config = SITE_SELECTORS[site][name];
+  const selectors = field === 'primary' ? [config.primary] : config.fallback;
+  return `內建：\n${selectors.join('\n') || '（無）'}`;
+}
+
+/**
+ * Create a group per site with a textarea per selector and list, and one for extra titles,
+ * showing the site's built-in selectors as placeholder
+ */
+function buildSelectorFields(): void {
+  for (const site of SITE_IDS) {
+    const group = document.createElement('fieldset');
+    const legend = document.createElement('legend');
+    legend.textContent = SITE_LABELS[site];
+    group.appendChild(legend);
+
+    for (const name of SELECTOR_NAMES) {
+      const details = document.createElement('details');
+      const summary = document.createElement('summary');
+      summary.textContent = `${SELECTOR_LABELS[name]}（${name}）`;
+      details.appendChild(summary);
+
+      for (const field of ['primary', 'fallback'] as OverrideField[]) {
+        const label = document.createElement('label');
+        label.className = 'selector-field';
+        const textarea = document.createElement('textarea');
+        textarea.id = `selector-${site}-${name}-${field}`;
+        textarea.rows = 4;
+        textarea.placeholder = describeBuiltIn(site, name, field);
+        label.append(`${OVERRIDE_FIELD_LABELS[field]}選擇器`, textarea);
+        details.appendChild(label);
+      }
+      group.appendChild(details);
+    }
+
+    const titleLabel = document.createElement('label');
+    titleLabel.className = 'selector-field';
+    const titleInput = document.createElement('textarea');
+    titleInput.id = `title-patterns-${site}`;
+    titleInput.rows = 3;
+    titleInput.placeholder = `內建：\n${PLAYLIST_TITLE_PATTERNS.join('\n')}`;
+    titleLabel.append('額外的儲存選單標題（每行一個，不分大小寫）', titleInput);
+    group.appendChild(titleLabel);
+
+    selectorFields.appendChild(group);
+  }
+}
+
+/**
+ * Split a textarea into its non-empty lines
+ */
+function readLines(textarea: HTMLTextAreaElement): string[] {
+  return textarea.value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Fill the selector form from the overrides of each site, opening the selectors that have some
+ */
+function renderOverrides(overrides: SiteSelectorOverrides): void {
+  for (const site of SITE_IDS) {
+    for (const name of SELECTOR_NAMES) {
+      const override = overrides[site].selectors[name];
+      for (const field of ['primary', 'fallback'] as OverrideField[]) {
+        const textarea = getOverrideInput(site, name, field);
+        textarea.value = (override?.[field] ?? []).join('\n');
+        textarea.removeAttribute('aria-invalid');
+      }
+      const details = getOverrideInput(site, name, 'primary').closest('details');
+      if (details && override) details.open = true;
+    }
+    getTitlePatternsInput(site).value = overrides[site].titlePatterns.join('\n');
+  }
+}
+
+/**
+ * Read the overrides of a site from the form
+ * @param errors Collects a description of each invalid selector
+ */
+function readSiteOverrides(site: SiteId, errors: string[]): SelectorOverrides {
+  const selectors: Partial<Record<SelectorName, SelectorOverride>> = {};
+
+  for (const name of SELECTOR_NAMES) {
+    const override: SelectorOverride = { primary: [], fallback: [] };
+    for (const field of ['primary', 'fallback'] as OverrideField[]) {
+      const textarea = getOverrideInput(site, name, field);
+      const lines = readLines(textarea);
+      const invalid = lines.filter((line) => !isValidSelector(line));
+      textarea.setAttribute('aria-invalid', String(invalid.length > 0));
+      invalid.forEach((line) =>
+        errors.push(
+          `${SITE_LABELS[site]} ${SELECTOR_LABELS[name]}（${OVERRIDE_FIELD_LABELS[field]}）：${line}`
+        )
+      );
+      override[field] = lines;
+    }
+    selectors[name] = override;
+  }
+
+  return sanitizeSelectorOverrides({
+    selectors,
+    titlePatterns: readLines(getTitlePatternsInput(site)),
+  });
+}
+
+/**
+ * Validate and save the selector overrides of every site
+ * Nothing is saved while any selector is invalid; the first problems are listed instead
+ */
+async function saveOverrides(): Promise<void> {
+  const errors: string[] = [];
+  const overrides: SiteSelectorOverrides = {
+    youtube: readSiteOverrides('youtube', errors),
+    music: readSiteOverrides('music', errors),
+  };
+
+  if (errors.length > 0) {
+    showStatus(
+      `無效的選擇器，未儲存：${errors.slice(0, 3).join('；')}`,
+      selectorStatus,
+      ERROR_STATUS_DURATION_MS
+    );
+    return;
+  }
+
+  if (await saveSelectorOverrides(overrides)) {
+    renderOverrides(overrides);
+    showStatus('已儲存，已開啟的 YouTube 與 YouTube Music 分頁會立即套用', selectorStatus);
+  } else {
+    showStatus('儲存失敗', selectorStatus);
+  }
+}
+
+/**
+ * Clear all selector overrides, going back to the built-in selectors
+ */
+async function resetOverrides(): Promise<void> {
+  if (await resetSelectorOverrides()) {
+    renderOverrides(EMPTY_SITE_SELECTOR_OVERRIDES);
+    showStatus('已清除自訂選擇器', selectorStatus);
+  } else {
+    showStatus('清除失敗', selectorStatus);
+  }
+}
+
+form.addEventListener('submit', (e) => {
+  e.preventDefault();
+  void save();
+});
+resetButton.addEventListener('click', () => void reset());
+
+selectorForm.addEventListener('submit', (e) => {
+  e.preventDefault();
+  void saveOverrides();
+});
+resetSelectorsButton.addEventListener('click', () => void resetOverrides());
+
+void loadSettings().then(render);
+
+buildSelectorFields();
+void loadSelectorOverrides().then(renderOverrides);
@@ -20,8 +20,150 @@ export interface PlaylistItem {
   isSelected: boolean;
   /** Whether video was already in this playlist when menu opened */
   wasOriginallySelected: boolean;
+  /** Visibility parsed from the item's secondary text or icon (if shown) */
+  privacy?: PlaylistPrivacy;
+  /** Number of videos parsed from the item's secondary text (if shown) */
+  videoCount?: number;
+  /** User tags of the playlist (e.g. "work"), without "#" */
+  tags?: string[];
 }
 
+/**
+ * Reference to a playlist that outlives the DOM element it was read from
+ */
+export interface PlaylistRef {
+  /** Playlist ID (if available) */
+  id?: string;
+  /** Playlist name displayed to user */
+  name: string;
+}
+
+/**
+ * Visibility of a playlist on YouTube
+ */
+export type PlaylistPrivacy = 'private' | 'unlisted' | 'public';
+
+/**
+ * Named set of playlists applied to the selection with one click
+ */
+export interface PlaylistPreset {
+  /** Name shown on the preset chip */
+  name: string;
+  /** Playlists selected by the preset */
+  playlists: PlaylistRef[];
+}
+
+/**
+ * How often and how recently the user saved videos to a playlist
+ */
+export interface PlaylistUsage {
+  /** Playlist the stats belong to */
+  ref: PlaylistRef;
+  /** Number of saves to this playlist */
+  count: number;
+  /** Timestamp of the last save (ms since epoch) */
+  lastUsed: number;
+}
+
+/**
+ * Ordering of the pinned "Recent" group
+ * - 'recent': most recently used first
+ * - 'frequent': most frequently used first
+ */
+export type PinnedSortMode = 'recent' | 'frequent';
+
+/**
+ * Ordering of the unpinned playlists in the sheet
+ * - 'default': YouTube's original order
+ * - 'size': most videos first
+ * - 'name': alphabetical
+ */
+export type PlaylistSortMode = 'default' | 'size' | 'name';
+
+/**
+ * How the sheet applies selection changes
+ * - 'batch': toggles only mark changes; Save applies them all
+ * - 'instant': each toggle is applied right away, like YouTube's own sheet
+ */
+export type ApplyMode = 'batch' | 'instant';
+
+/**
+ * User settings stored in chrome.storage.sync
+ */
+export interface UserSettings {
+  /** Ordering of the pinned group at the top of the sheet */
+  pinnedSortMode: PinnedSortMode;
+  /** Number of playlists pinned to the top (0 disables pinning) */
+  pinnedCount: number;
+  /** Show the review panel listing pending changes before every save */
+  reviewBeforeSave: boolean;
+  /** Whether toggles wait for Save or are applied right away */
+  applyMode: ApplyMode;
+  /** Shortest wait between batch clicks (ms) */
+  clickDelayMinMs: number;
+  /** Longest wait between batch clicks (ms) */
+  clickDelayMaxMs: number;
+  /** Factor the wait grows by when YouTube is slow or reports an error */
+  clickBackoffFactor: number;
+}
+
+/**
+ * Limits of the adaptive wait between batch clicks
+ */
+export interface ThrottleConfig {
+  /** Shortest wait between clicks (ms) */
+  minDelayMs: number;
+  /** Longest wait between clicks (ms) */
+  maxDelayMs: number;
+  /** Factor the wait is multiplied by on slow confirmations and errors (>= 1) */
+  backoffFactor: number;
+}
+
+/**
+ * Add/remove changes applied to one video's playlists
+ */
+export interface SaveDiff {
+  /** Playlists the video was added to */
+  added: PlaylistRef[];
+  /** Playlists the video was removed from */
+  removed: PlaylistRef[];
+}
+
+/**
+ * Batch save persisted while it runs, so it can be resumed after the page is torn down
+ */
+export interface PendingSave {
+  /** Video being saved */
+  videoId: string;
+  /** Playlists the video is being added to */
+  toAdd: PlaylistRef[];
+  /** Playlists the video is being removed from */
+  toRemove: PlaylistRef[];
+  /** Playlists YouTube confirmed (failed ones stay queued for a resume) */
+  done: PlaylistRef[];
+  /** Timestamp the save started (ms since epoch) */
+  startedAt: number;
+}
+
+/**
+ * Outcome of a batch save, grouped by what actually happened on YouTube
+ */
+export interface BatchSaveResult {
+  /** Playlists the video was confirmed added to */
+  added: PlaylistItem[];
+  /** Playlists the video was confirmed removed from */
+  removed: PlaylistItem[];
+  /** Playlists whose state YouTube did not confirm after all retries */
+  failed: PlaylistItem[];
+}
+
+/**
+ * Site the content script runs on, chosen by hostname at startup
+ * - 'youtube': www.youtube.com (and m./other subdomains)
+ * - 'music': music.youtube.com
+ */
+export type SiteId = 'youtube' | 'music';
+
 /**
  * DOM selector with fallback strategy
  */
@@ -46,12 +188,108 @@ export interface Selectors {
   title: SelectorConfig;
   /** Create new playlist button */
   createButton: SelectorConfig;
+  /** Dialog of YouTube's "New playlist" flow */
+  createDialog: SelectorConfig;
+  /** Playlist name field in the create dialog */
+  createNameInput: SelectorConfig;
+  /** Privacy dropdown trigger in the create dialog */
+  createPrivacyButton: SelectorConfig;
+  /** Option in the opened privacy dropdown */
+  createPrivacyOption: SelectorConfig;
+  /** Save button below the player on watch pages */
+  saveButton: SelectorConfig;
+  /** Video renderer on grid/list pages (home, results, channel, playlist) */
+  videoRenderer: SelectorConfig;
+  /** Three-dot action menu button inside a video renderer */
+  videoMenuButton: SelectorConfig;
+  /** Item inside a video's three-dot action menu */
+  menuItem: SelectorConfig;
+  /** YouTube's own snackbar/toast (e.g. "Saved to …", "Something went wrong") */
+  snackbar: SelectorConfig;
+}
+
+/**
+ * Name of a selector in Selectors
+ */
+export type SelectorName = keyof Selectors;
+
+/**
+ * User-supplied selectors added to one built-in SelectorConfig
+ */
+export interface SelectorOverride {
+  /** Tried before the built-in primary selector */
+  primary: string[];
+  /** Tried after the built-in fallback selectors */
+  fallback: string[];
+}
+
+/**
+ * Selector overrides of one site, edited on the options page,
+ * so a YouTube DOM change can be worked around without waiting for a release
+ */
+export interface SelectorOverrides {
+  /** Extra selectors per selector name */
+  selectors: Partial<Record<SelectorName, SelectorOverride>>;
+  /** Extra sheet title phrases, matched like the built-in title patterns */
+  titlePatterns: string[];
+}
+
+/**
+ * Selector overrides of each site, stored in chrome.storage.local
+ * YouTube and YouTube Music have different DOMs, so a selector only applies to its own site
+ */
+export type SiteSelectorOverrides = Record<SiteId, SelectorOverrides>;
+
+/**
+ * Where a selector lookup found its element
+ * - 'override': one of the user's selectors (primary or fallback)
+ * - 'primary': the built-in primary selector
+ * - 'fallback': one of the built-in fallback selectors
+ * - 'none': no candidate matched
+ */
+export type SelectorMatchSource = 'override' | 'primary' | 'fallback' | 'none';
+
+/**
+ * Outcome of one selector lookup
+ */
+export interface SelectorMatch {
+  source: SelectorMatchSource;
+  /** Index in the fallback list, or in the user's primary + fallback list for overrides */
+  index: number;
+}
+
+/**
+ * How the lookups of one selector went during this page session (diagnostics panel)
+ */
+export interface SelectorHealth {
+  /** Number of findElement/findAllElements calls */
+  lookups: number;
+  /** Lookups satisfied by the built-in primary selector */
+  primary: number;
+  /** Lookups satisfied by each built-in fallback, by index */
+  fallback: number[];
+  /** Lookups satisfied by a user override */
+  override: number;
+  /** Lookups where nothing matched */
+  none: number;
+  /** The most recent lookup */
+  last: SelectorMatch;
 }
 
 /**
  * Toast notification types
  */
-export type ToastType = 'success' | 'error' | 'info';
+export type ToastType = 'success' | 'error' | 'warning' | 'info';
+
+/**
+ * Action button shown inside a toast
+ */
+export interface ToastAction {
+  /** Button label */
+  label: string;
+  /** Called when the button is clicked (the toast is hidden first) */
+  onClick: () => void;
+}
 
 /**
  * Callback for when playlist sheet is detected
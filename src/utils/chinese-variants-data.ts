@@ -0,0 +1,144 @@
+/**
+ * Traditional → Simplified Chinese character data
+ *
+ * Characters of the Big5 set whose Simplified form differs, from ICU's
+ * Traditional-Simplified transliteration. TRADITIONAL_CHARS[i] maps to SIMPLIFIED_CHARS[i]
+ */
+
+export const TRADITIONAL_CHARS = [
+  '丟並乾亂亙亞佇佈佔併來侖侶侷俁係俔俠俬俱倀倆倉個們倖倣倫偉側偵偽傑傖傘備傢傭傯傳',
+  '傴債傷傾僂僅僇僉僑僕僥僨僱價儀儂億儈儉儐儔儕儘償優儲儷儸儺儻儼兇兌兒兗內兩冊冪凈',
+  '凍凜凱別刪剄則剋剎剛剝剮剴創剷劃劇劉劊劌劍劑勁動勗務勛勝勞勢勩勱勳勵勸勻匭匯匱區',
+  '協卹卻厙厭厲厴參叢吒吳吶呂咷咼員唄唚唸問啞啟啢喎喚喨喪喫喬單喲嗆嗇嗊嗎嗚嗩嗶嘆嘍',
+  '嘔嘖嘗嘜嘩嘮嘯嘰嘵嘸嘽噓噚噠噥噦噯噲噴噸噹嚀嚇嚌嚐嚕嚙嚥嚦嚨嚮嚲嚳嚴嚶囀囁囂囅囈',
+  '囉囍囑囓囪圇國圍園圓圖團垵埡埰執堅堊堝堯報場塊塋塏塒塗塚塢塤塵塹墊墜墮墳墾壇壎壓',
+  '壘壙壚壞壟壢壩壯壺壼壽夠夢夥夾奐奧奩奪奮奼妝姊姍姦姪娛婁婦婭媧媯媼媽嫋嫗嫵嫻嫿嬈',
+  '嬋嬌嬙嬝嬡嬤嬪嬰嬸孃孌孫學孿宮寢實寧審寫寬寵寶將專尋對導尷屆屍屜屢層屨屬岡峴島峽',
+  '崍崑崗崙崢嵐嶁嶄嶇嶔嶗嶠嶢嶧嶮嶴嶸嶺嶼巋巒巔巖巰帥師帳帶幀幃幗幘幟幣幫幬幹幾庫廁',
+  '廂廄廈廚廝廟廠廡廢廣廩廬廳弒弔弳張強彆彈彌彎彙彥彿後徑從徠復徬徵徹恆恥悅悵悶悽惡',
+  '惱惲惻愛愜愨愴愷愾慄慇態慍慘慚慟慣慪慫慮慳慶慼慾憂憊憐憑憒憚憤憫憮憲憶懃懇應懌懍',
+  '懞懟懣懨懮懲懶懷懸懺懼懾戀戇戔戧戩戰戲戶拋挩挾捨捫捲掃掄掗掙掛採揀揚換揮搆損搖搗',
+  '搥搧搨搵搶搾摀摑摜摟摯摳摶摺摻撈撏撐撓撚撝撟撢撣撥撫撲撳撻撾撿擁擄擇擊擋擔據擠擣',
+  '擬擯擰擱擲擴擷擺擻擼擾攄攆攏攔攖攙攛攜攝攢攣攤攪攬敗敘敵數斂斃斕斬斷於昇時晉晝暈',
+  '暉暘暢暫暱曄曆曇曉曏曖曠曨曬書會朧東枒柵桿梔條梟梲棄棖棗棟棧棲棶椏楊楓楨業極榖榪',
+  '榮榿構槍槓槤槧槨槳樁樂樅樑樓標樞樣樸樹樺橈橋機橢橫檁檉檔檜檟檢檣檮檯檳檸檻櫃櫓櫚',
+  '櫛櫝櫞櫟櫥櫧櫨櫪櫫櫬櫱櫳櫸櫺櫻欄權欏欒欖欞欽歎歐歛歟歡歲歷歸歿殘殞殤殫殮殯殰殲殺',
+  '殼毀毆毬毿氂氈氌氣氫氬氳氾汎汙決沍沒沖況洩洶浹涇涼淒淚淥淨淪淵淶淺渙減渦測渾湊湞',
+  '湧湯溈準溝溫溼滄滅滌滎滬滯滲滷滸滻滾滿漁漚漢漣漬漲漵漸漿潁潑潔潛潤潯潰潷潿澀澆澇',
+  '澗澠澤澦澩澮澱濁濃濕濘濟濤濫濬濰濱濺濼濾瀅瀆瀇瀉瀋瀏瀕瀘瀝瀟瀠瀦瀧瀨瀰瀲瀾灃灄灑',
+  '灕灘灝灠灣灤災為烏烴無煉煒煙煢煥煩煬熅熒熗熱熲熾燁燄燈燉燐燒燙燜營燦燬燭燴燻燼燾',
+  '燿爍爐爛爭爺爾牆牋牘牽犖犢犧狀狹狽猙猶猻獃獄獅獎獨獪獫獮獰獲獵獷獸獺獻獼玀現琺琿',
+  '瑋瑒瑣瑤瑩瑪瑯瑲璉璣璦璫環璽瓊瓏瓔瓚甌甕產畝畢畫異當疇疊痀痙痠痾瘋瘍瘓瘞瘡瘧瘲瘺',
+  '療癆癇癉癒癘癟癡癢癤癥癩癬癭癮癰癱癲發皁皚皰皸皺盃盜盞盡監盤盧盪眥眾睏睜睞睪瞇瞜',
+  '瞞瞭瞶瞼矓矚矯砲硜硤硨硯碩碭確碼磑磚磣磧磯磽礎礙礡礦礪礫礬礱祕祿禍禎禕禡禦禪禮禰',
+  '禱禿秈稅稈稜稟種稱穀穌積穎穠穡穢穩穫穭窩窪窮窯窵窶窺竄竅竇竊競筆筍筧筴箇箋箎箏箝',
+  '節範築篋篔篤篩篳簀簆簍簞簡簣簫簷簹簽簾籃籌籐籙籜籟籠籤籩籪籬籮籲粵糝糞糧糰糲糴糶',
+  '糾紀紂約紅紆紇紈紉紋納紐紓純紕紖紗紘紙級紛紜紝紡紬紮細紱紲紳紵紹紺紼紿絀終絃組絅',
+  '絆絎結絕絛絞絡絢給絨絰統絲絳絹綁綃綆綈綌綏綑經綜綞綠綢綣綬維綯綰綱網綴綵綸綹綺綻',
+  '綽綾綿緄緇緊緋緒緗緘緙線緝緞締緡緣緦編緩緬緯緱緲練緶緹緻縈縉縊縋縐縑縕縗縛縝縞縟',
+  '縣縫縭縮縱縲縳縴縵縶縷縹總績繃繅繆繒織繕繚繞繡繢繩繪繫繭繯繰繳繸繹繼繽繾纈纊續纍',
+  '纏纓纔纖纘纜缽罈罌罣罰罵罷羅羆羈羋羥羨義羶習翫翹耬聖聞聯聰聲聳聵聶職聹聽聾肅脅脈',
+  '脛脣脫脹腎腡腦腫腳腸膃膚膠膩膽膾膿臉臍臏臘臚臟臠臢臥臨臺與興舉舊舖艙艤艦艫艱艷芻',
+  '苎苧茲荊荳莊莖莢莧華菸萇萊萬萵葉葒著葦葯葷蒐蒔蒞蒼蓀蓆蓋蓮蓯蓽蔔蔞蔣蔥蔦蔭蕁蕆蕎',
+  '蕓蕕蕘蕢蕩蕪蕭蕷薀薈薊薌薑薔薘薟薦薩薳薴薺藉藍藎藝藥藪藶藷藹藺蘄蘆蘇蘊蘋蘚蘞蘢蘭',
+  '蘺蘿虆處虛虜號虧虯蛺蛻蜆蝕蝟蝦蝨蝸螄螞螢螮螻螿蟄蟈蟣蟬蟯蟲蟶蟻蠅蠆蠍蠐蠑蠔蠟蠣蠨',
+  '蠱蠶蠻衊術衚衛衝袞裊補裝裡製複褌褘褲褳褸褻襏襖襝襠襤襪襬襯襲覈見規覓視覘覡覦親覬',
+  '覯覲覷覺覽覿觀觴觶觸訂訃計訊訌討訐訒訓訕訖託記訛訝訟訢訣訥訪設許訴訶診註証詁詆詎',
+  '詐詒詔評詖詗詘詛詞詠詡詢詣試詩詫詬詭詮詰話該詳詵詼詿誄誅誆誇誌認誑誒誕誘誚語誠誡',
+  '誣誤誥誦誨說誰課誶誹誼誾調諂諄談諉請諍諏諑諒論諗諛諜諝諞諡諢諤諦諧諫諭諮諱諳諶諷',
+  '諸諺諼諾謀謁謂謄謅謊謎謐謔謖謗謙謚講謝謠謨謫謬謳謹謾譁譅證譎譏譖識譙譚譜譟譫譯議',
+  '譴護譸譽譾讀變讌讎讒讓讕讖讚讜讞豈豎豐豔豬豶貍貓貙貝貞負財貢貧貨販貪貫責貯貰貲貳',
+  '貴貶買貸貺費貼貽貿賀賁賂賃賄賅資賈賊賑賒賓賕賙賚賜賞賠賡賢賣賤賦賧質賬賭賰賴賵賸',
+  '賺賻購賽賾贄贅贇贈贊贍贏贐贓贔贖贗贛赬趕趙趨趲跡跤跼踐踡踰踴蹌蹕蹟蹣蹤蹧蹺躂躉躊',
+  '躋躍躑躒躓躕躚躡躥躦躪軀車軋軌軍軑軒軔軛軟軫軸軹軺軻軼軾較輅輇輈載輊輒輓輔輕輛輜',
+  '輝輞輟輥輦輩輪輬輯輳輸輻輾輿轀轂轄轅轆轉轍轎轔轝轟轡轢轤辦辭辮辯農迴逕這連週進遊',
+  '運過達違遙遜遞遠適遯遲遷選遺遼邁還邇邊邏邐郟郵鄆鄉鄒鄔鄖鄧鄭鄰鄲鄴鄶鄺酇酈醃醜醞',
+  '醫醬醱醼釀釁釃釅釋釐釓釔釕釗釘釙針釣釤釦釧釩釵釷釹鈀鈁鈃鈄鈉鈍鈐鈑鈒鈔鈕鈞鈣鈥鈦',
+  '鈧鈮鈰鈳鈴鈷鈸鈹鈺鈽鈾鈿鉀鉅鉈鉉鉋鉍鉑鉗鉚鉛鉞鉤鉦鉬鉭鉶鉸鉺鉻鉿銀銃銅銍銑銓銖銘',
+  '銚銛銜銠銣銥銦銨銩銪銫銬銲銳銷銻銼鋁鋃鋅鋇鋌鋏鋒鋙鋝鋟鋤鋦鋨鋩鋪鋮鋯鋰鋱鋸鋼錁錄',
+  '錆錈錏錐錒錕錘錙錚錛錟錠錡錢錦錨錩錫錮錯錳錶錸鍆鍇鍊鍋鍍鍔鍘鍚鍛鍠鍤鍥鍬鍰鍵鍶鍺',
+  '鍾鎂鎊鎔鎖鎗鎘鎚鎛鎡鎢鎣鎦鎧鎩鎪鎬鎮鎰鎲鎳鎵鏃鏇鏈鏌鏍鏐鏑鏗鏘鏜鏝鏞鏟鏡鏢鏤鏨鏵',
+  '鏷鏹鏽鐃鐋鐐鐒鐓鐔鐘鐙鐠鐨鐫鐮鐲鐳鐵鐶鐸鐺鐿鑄鑊鑌鑑鑒鑕鑞鑠鑣鑭鑰鑱鑲鑷鑼鑽鑾鑿',
+  '钁長門閂閃閆閈閉開閌閎閏閑閒間閔閘閡閣閥閨閩閫閬閭閱閶閹閻閼閽閾閿闃闆闇闈闊闋闌',
+  '闍闐闒闓闔闕闖關闞闠闡闢闤闥阨阪陘陝陞陣陰陳陸陽隄隉隊階隕際隨險隱隴隸隻雋雖雙雛',
+  '雜雞離難雲電霑霢霧霽靂靄靈靚靜靦靨靷鞀鞏鞝韁韃韉韋韌韍韓韙韜韞韻響頁頂頃項順頇須',
+  '頊頌頎頏預頑頒頓頗領頜頡頤頦頭頰頲頷頸頹頻顆題額顎顏顒顓願顙顛類顢顥顧顫顯顰顱顳',
+  '顴風颭颮颯颱颳颶颸颺颻颼飀飄飆飛飢飣飥飩飪飫飭飯飲飴飼飽飾餃餅餉養餌餑餒餓餕餖餘',
+  '餚餛餞餡館餬餱餳餵餺餼餽餾餿饁饃饅饈饉饋饌饑饒饗饜饞馬馭馮馱馳馴馹駁駐駑駒駔駕駘',
+  '駙駛駝駟駢駭駰駱駸駿騁騂騅騍騎騏騖騙騤騧騫騭騮騰騶騷騸騾驀驁驂驃驄驅驊驌驍驏驕驗',
+  '驚驛驟驢驤驥驦驪驫骯髏髒體髕髖髮鬆鬍鬚鬢鬥鬧鬨鬩鬮鬱魎魘魚魛魨魯魴魷魺鮐鮑鮒鮓鮚',
+  '鮞鮦鮪鮫鮭鮮鮶鯀鯁鯇鯉鯊鯔鯕鯖鯛鯡鯢鯤鯧鯨鯪鯫鯰鯷鯽鰈鰉鰍鰒鰓鰜鰣鰥鰨鰩鰭鰱鰲鰳',
+  '鰷鰹鰻鰼鰾鱈鱉鱒鱔鱖鱗鱘鱟鱠鱣鱧鱨鱭鱷鱸鱺鳥鳧鳩鳲鳳鳴鳶鴆鴇鴉鴒鴕鴛鴝鴞鴟鴣鴦鴨',
+  '鴯鴰鴷鴻鴿鵁鵂鵃鵑鵒鵓鵜鵝鵠鵡鵪鵬鵯鵲鵷鶄鶇鶉鶊鶖鶘鶚鶡鶩鶪鶬鶯鶲鶴鶹鶺鶻鶼鷁鷂',
+  '鷈鷊鷓鷖鷗鷙鷚鷥鷦鷫鷯鷲鷳鷸鷹鷺鷽鷿鸂鸇鸏鸕鸚鸛鸝鸞鹵鹹鹺鹼鹽麗麤麥麩麵麼麽黃黌',
+  '點黨黲黴黶黷黽黿鼇鼉鼕鼴齊齋齎齏齒齔齕齗齙齜齟齠齡齣齦齧齪齬齲齶齷龍龐龔龕龜',
+].join('');
+
+export const SIMPLIFIED_CHARS = [
+  '丢并干乱亘亚伫布占并来仑侣局俣系伣侠私具伥俩仓个们幸仿伦伟侧侦伪杰伧伞备家佣偬传',
+  '伛债伤倾偻仅戮佥侨仆侥偾雇价仪侬亿侩俭傧俦侪尽偿优储俪㑩傩傥俨凶兑儿兖内两册幂净',
+  '冻凛凯别删刭则克刹刚剥剐剀创铲划剧刘刽刿剑剂劲动勖务勋胜劳势勚劢勋励劝匀匦汇匮区',
+  '协恤却厍厌厉厣参丛咤吴呐吕啕呙员呗吣念问哑启唡㖞唤亮丧吃乔单哟呛啬唝吗呜唢哔叹喽',
+  '呕啧尝唛哗唠啸叽哓呒啴嘘㖊哒哝哕嗳哙喷吨当咛吓哜尝噜啮咽呖咙向亸喾严嘤啭嗫嚣冁呓',
+  '啰禧嘱啮囱囵国围园圆图团埯垭采执坚垩埚尧报场块茔垲埘涂冢坞埙尘堑垫坠堕坟垦坛埙压',
+  '垒圹垆坏垄坜坝壮壶壸寿够梦伙夹奂奥奁夺奋姹妆姐姗奸侄娱娄妇娅娲妫媪妈袅妪妩娴婳娆',
+  '婵娇嫱袅嫒嬷嫔婴婶娘娈孙学孪宫寝实宁审写宽宠宝将专寻对导尴届尸屉屡层屦属冈岘岛峡',
+  '崃昆岗仑峥岚嵝崭岖嵚崂峤峣峄崄岙嵘岭屿岿峦巅岩巯帅师帐带帧帏帼帻帜币帮帱干几库厕',
+  '厢厩厦厨厮庙厂庑废广廪庐厅弑吊弪张强别弹弥弯汇彦佛后径从徕复彷征彻恒耻悦怅闷凄恶',
+  '恼恽恻爱惬悫怆恺忾栗殷态愠惨惭恸惯怄怂虑悭庆戚欲忧惫怜凭愦惮愤悯怃宪忆勤恳应怿懔',
+  '蒙怼懑恹忧惩懒怀悬忏惧慑恋戆戋戗戬战戏户抛捝挟舍扪卷扫抡挜挣挂采拣扬换挥构损摇捣',
+  '捶扇拓揾抢榨捂掴掼搂挚抠抟折掺捞挦撑挠捻㧑挢掸掸拨抚扑揿挞挝捡拥掳择击挡担据挤捣',
+  '拟摈拧搁掷扩撷摆擞撸扰摅撵拢拦撄搀撺携摄攒挛摊搅揽败叙敌数敛毙斓斩断于升时晋昼晕',
+  '晖旸畅暂昵晔历昙晓向暧旷昽晒书会胧东丫栅杆栀条枭棁弃枨枣栋栈栖梾桠杨枫桢业极谷杩',
+  '荣桤构枪杠梿椠椁桨桩乐枞梁楼标枢样朴树桦桡桥机椭横檩柽档桧槚检樯梼台槟柠槛柜橹榈',
+  '栉椟橼栎橱槠栌枥橥榇蘖栊榉棂樱栏权椤栾榄棂钦叹欧敛欤欢岁历归殁残殒殇殚殓殡㱩歼杀',
+  '壳毁殴球毵牦毡氇气氢氩氲泛泛污决冱没冲况泄汹浃泾凉凄泪渌净沦渊涞浅涣减涡测浑凑浈',
+  '涌汤沩准沟温湿沧灭涤荥沪滞渗卤浒浐滚满渔沤汉涟渍涨溆渐浆颍泼洁潜润浔溃滗涠涩浇涝',
+  '涧渑泽滪泶浍淀浊浓湿泞济涛滥浚潍滨溅泺滤滢渎㲿泻沈浏濒泸沥潇潆潴泷濑弥潋澜沣滠洒',
+  '漓滩灏漤湾滦灾为乌烃无炼炜烟茕焕烦炀煴荧炝热颎炽烨焰灯炖磷烧烫焖营灿毁烛烩熏烬焘',
+  '耀烁炉烂争爷尔墙笺牍牵荦犊牺状狭狈狰犹狲呆狱狮奖独狯猃狝狞获猎犷兽獭献猕猡现珐珲',
+  '玮玚琐瑶莹玛琅玱琏玑瑷珰环玺琼珑璎瓒瓯瓮产亩毕画异当畴叠佝痉酸疴疯疡痪瘗疮疟疭瘘',
+  '疗痨痫瘅愈疠瘪痴痒疖症癞癣瘿瘾痈瘫癫发皂皑疱皲皱杯盗盏尽监盘卢荡眦众困睁睐睾眯䁖',
+  '瞒了瞆睑眬瞩矫炮硁硖砗砚硕砀确码硙砖碜碛矶硗础碍礴矿砺砾矾砻秘禄祸祯祎祃御禅礼祢',
+  '祷秃籼税秆棱禀种称谷稣积颖秾穑秽稳获稆窝洼穷窑窎窭窥窜窍窦窃竞笔笋笕䇲个笺篪筝钳',
+  '节范筑箧筼笃筛筚箦筘篓箪简篑箫檐筜签帘篮筹藤箓箨籁笼签笾簖篱箩吁粤糁粪粮团粝籴粜',
+  '纠纪纣约红纡纥纨纫纹纳纽纾纯纰纼纱纮纸级纷纭纴纺䌷扎细绂绁绅纻绍绀绋绐绌终弦组䌹',
+  '绊绗结绝绦绞络绚给绒绖统丝绛绢绑绡绠绨绤绥捆经综缍绿绸绻绶维绹绾纲网缀彩纶绺绮绽',
+  '绰绫绵绲缁紧绯绪缃缄缂线缉缎缔缗缘缌编缓缅纬缑缈练缏缇致萦缙缢缒绉缣缊缞缚缜缟缛',
+  '县缝缡缩纵缧䌸纤缦絷缕缥总绩绷缫缪缯织缮缭绕绣缋绳绘系茧缳缲缴䍁绎继缤缱缬纩续累',
+  '缠缨才纤缵缆钵坛罂挂罚骂罢罗罴羁芈羟羡义膻习玩翘耧圣闻联聪声耸聩聂职聍听聋肃胁脉',
+  '胫唇脱胀肾脶脑肿脚肠腽肤胶腻胆脍脓脸脐膑腊胪脏脔臜卧临台与兴举旧铺舱舣舰舻艰艳刍',
+  '苧苎兹荆豆庄茎荚苋华烟苌莱万莴叶荭着苇药荤搜莳莅苍荪席盖莲苁荜卜蒌蒋葱茑荫荨蒇荞',
+  '芸莸荛蒉荡芜萧蓣蕰荟蓟芗姜蔷荙莶荐萨䓕苧荠借蓝荩艺药薮苈薯蔼蔺蕲芦苏蕴苹藓蔹茏兰',
+  '蓠萝蔂处虚虏号亏虬蛱蜕蚬蚀猬虾虱蜗蛳蚂萤䗖蝼螀蛰蝈虮蝉蛲虫蛏蚁蝇虿蝎蛴蝾蚝蜡蛎蟏',
+  '蛊蚕蛮蔑术胡卫冲衮袅补装里制复裈袆裤裢褛亵袯袄裣裆褴袜䙓衬袭核见规觅视觇觋觎亲觊',
+  '觏觐觑觉览觌观觞觯触订讣计讯讧讨讦讱训讪讫托记讹讶讼䜣诀讷访设许诉诃诊注证诂诋讵',
+  '诈诒诏评诐诇诎诅词咏诩询诣试诗诧诟诡诠诘话该详诜诙诖诔诛诓夸志认诳诶诞诱诮语诚诫',
+  '诬误诰诵诲说谁课谇诽谊訚调谄谆谈诿请诤诹诼谅论谂谀谍谞谝谥诨谔谛谐谏谕谘讳谙谌讽',
+  '诸谚谖诺谋谒谓誊诌谎谜谧谑谡谤谦谥讲谢谣谟谪谬讴谨谩哗䜧证谲讥谮识谯谭谱噪谵译议',
+  '谴护诪誉谫读变䜩雠谗让谰谶赞谠谳岂竖丰艳猪豮狸猫䝙贝贞负财贡贫货贩贪贯责贮贳赀贰',
+  '贵贬买贷贶费贴贻贸贺贲赂赁贿赅资贾贼赈赊宾赇赒赉赐赏赔赓贤卖贱赋赕质账赌䞐赖赗剩',
+  '赚赙购赛赜贽赘赟赠赞赡赢赆赃赑赎赝赣赪赶赵趋趱迹交局践蜷逾踊跄跸迹蹒踪糟跷跶趸踌',
+  '跻跃踯跞踬蹰跹蹑蹿躜躏躯车轧轨军轪轩轫轭软轸轴轵轺轲轶轼较辂辁辀载轾辄挽辅轻辆辎',
+  '辉辋辍辊辇辈轮辌辑辏输辐辗舆辒毂辖辕辘转辙轿辚舆轰辔轹轳办辞辫辩农回迳这连周进游',
+  '运过达违遥逊递远适遁迟迁选遗辽迈还迩边逻逦郏邮郓乡邹邬郧邓郑邻郸邺郐邝酂郦腌丑酝',
+  '医酱酦宴酿衅酾酽释厘钆钇钌钊钉钋针钓钐扣钏钒钗钍钕钯钫钘钭钠钝钤钣钑钞钮钧钙钬钛',
+  '钪铌铈钶铃钴钹铍钰钸铀钿钾钜铊铉铇铋铂钳铆铅钺钩钲钼钽铏铰铒铬铪银铳铜铚铣铨铢铭',
+  '铫铦衔铑铷铱铟铵铥铕铯铐焊锐销锑锉铝锒锌钡铤铗锋铻锊锓锄锔锇铓铺铖锆锂铽锯钢锞录',
+  '锖锩铔锥锕锟锤锱铮锛锬锭锜钱锦锚锠锡锢错锰表铼钔锴炼锅镀锷铡钖锻锽锸锲锹锾键锶锗',
+  '钟镁镑镕锁枪镉锤镈镃钨蓥镏铠铩锼镐镇镒镋镍镓镞镟链镆镙镠镝铿锵镗镘镛铲镜镖镂錾铧',
+  '镤镪锈铙铴镣铹镦镡钟镫镨镄镌镰镯镭铁镮铎铛镱铸镬镔鉴鉴锧镴铄镳镧钥镵镶镊锣钻銮凿',
+  '䦆长门闩闪闫闬闭开闶闳闰闲闲间闵闸阂阁阀闺闽阃阆闾阅阊阉阎阏阍阈阌阒板暗闱阔阕阑',
+  '阇阗阘闿阖阙闯关阚阓阐辟阛闼厄坂陉陕升阵阴陈陆阳堤陧队阶陨际随险隐陇隶只隽虽双雏',
+  '杂鸡离难云电沾霡雾霁雳霭灵靓静腼靥纼鼗巩绱缰鞑鞯韦韧韨韩韪韬韫韵响页顶顷项顺顸须',
+  '顼颂颀颃预顽颁顿颇领颌颉颐颏头颊颋颔颈颓频颗题额颚颜颙颛愿颡颠类颟颢顾颤显颦颅颞',
+  '颧风飐飑飒台刮飓飔飏飖飕飗飘飙飞饥饤饦饨饪饫饬饭饮饴饲饱饰饺饼饷养饵饽馁饿馂饾余',
+  '肴馄饯馅馆糊糇饧喂馎饩馈馏馊馌馍馒馐馑馈馔饥饶飨餍馋马驭冯驮驰驯驲驳驻驽驹驵驾骀',
+  '驸驶驼驷骈骇骃骆骎骏骋骍骓骒骑骐骛骗骙䯄骞骘骝腾驺骚骟骡蓦骜骖骠骢驱骅骕骁骣骄验',
+  '惊驿骤驴骧骥骦骊骉肮髅脏体髌髋发松胡须鬓斗闹哄阋阄郁魉魇鱼鱽鲀鲁鲂鱿鲄鲐鲍鲋鲊鲒',
+  '鲕鲖鲔鲛鲑鲜鲪鲧鲠鲩鲤鲨鲻鲯鲭鲷鲱鲵鲲鲳鲸鲮鲰鲶鳀鲫鲽鳇鳅鳆鳃鳒鲥鳏鳎鳐鳍鲢鳌鳓',
+  '鲦鲣鳗鳛鳔鳕鳖鳟鳝鳜鳞鲟鲎鲙鳣鳢鲿鲚鳄鲈鲡鸟凫鸠鸤凤鸣鸢鸩鸨鸦鸰鸵鸳鸲鸮鸱鸪鸯鸭',
+  '鸸鸹䴕鸿鸽䴔鸺鸼鹃鹆鹁鹈鹅鹄鹉鹌鹏鹎鹊鹓䴖鸫鹑鹒鹙鹕鹗鹖鹜䴗鸧莺鹟鹤鹠鹡鹘鹣鹢鹞',
+  '䴘鹝鹧鹥鸥鸷鹨鸶鹪鹔鹩鹫鹇鹬鹰鹭鸴䴙㶉鹯鹲鸬鹦鹳鹂鸾卤咸鹾碱盐丽粗麦麸面么么黄黉',
+  '点党黪霉黡黩黾鼋鳌鼍冬鼹齐斋赍齑齿龀龁龂龅龇龃龆龄出龈啮龊龉龋腭龌龙庞龚龛龟',
+].join('');
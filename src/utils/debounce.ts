@@ -67,3 +67,23 @@ export function throttle<T extends (...args: unknown[]) => void>(func: T, limit
 export function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/**
+ * Polls a condition until it holds or the timeout expires
+ * @param predicate Condition to check
+ * @param timeout Maximum time to wait in milliseconds
+ * @param interval Polling interval in milliseconds (default: 50ms)
+ * @returns Promise resolving to true if the condition was met in time
+ */
+export async function waitFor(
+  predicate: () => boolean,
+  timeout: number,
+  interval = 50
+): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (!predicate()) {
+    if (Date.now() >= deadline) return false;
+    await delay(interval);
+  }
+  return true;
+}
@@ -0,0 +1,189 @@
+/**
+ * Fuzzy matching utilities
+ *
+ * Scores how well a query matches a text, for ranking search results
+ * - Every whitespace-separated query term must match
+ * - A term matches as a substring, as a subsequence ("mscvd" → "Music Videos")
+ *   or, failing both, as a word with a small typo ("musci" → "Music")
+ * - Matches at word starts and runs of consecutive characters score higher
+ */
+
+/**
+ * Result of matching a query against a text
+ */
+export interface FuzzyMatch {
+  /** Relevance; higher is better */
+  score: number;
+  /** Sorted, unique indices of the matched characters in the text */
+  indices: number[];
+}
+
+/** Base scores of each kind of term match, so substrings outrank subsequences outrank typos */
+const SUBSTRING_BASE_SCORE = 100;
+const SUBSEQUENCE_BASE_SCORE = 50;
+const TYPO_BASE_SCORE = 20;
+
+/** Bonus for a match at the start of the text or of a word */
+const TEXT_START_BONUS = 30;
+const WORD_START_BONUS = 15;
+
+/** Per-character scores of subsequence matches */
+const MATCHED_CHAR_SCORE = 10;
+const CONSECUTIVE_CHAR_BONUS = 5;
+const GAP_PENALTY = 2;
+
+/** Shortest term that may match with a typo */
+const MIN_TYPO_TERM_LENGTH = 4;
+
+/** Terms at least this long may match with two typos instead of one */
+const TWO_TYPO_TERM_LENGTH = 8;
+
+/** Words (letters and digits) for typo matching */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Check whether a character starts a word (first character or after a non-word character)
+ */
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+/**
+ * Indices from start (inclusive) to end (exclusive)
+ */
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+/**
+ * Match a term as a substring, preferring an occurrence at a word start
+ */
+function matchSubstring(term: string, text: string): FuzzyMatch | null {
+  let best: FuzzyMatch | null = null;
+
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + 1)) {
+    let score = SUBSTRING_BASE_SCORE + term.length * MATCHED_CHAR_SCORE;
+    if (index === 0) {
+      score += TEXT_START_BONUS;
+    } else if (isWordStart(text, index)) {
+      score += WORD_START_BONUS;
+    }
+
+    if (!best || score > best.score) {
+      best = { score, indices: range(index, index + term.length) };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Match a term as a subsequence, trying every start position and keeping the best
+ */
+function matchSubsequence(term: string, text: string): FuzzyMatch | null {
+  let best: FuzzyMatch | null = null;
+
+  for (let start = text.indexOf(term[0]); start !== -1; start = text.indexOf(term[0], start + 1)) {
+    const indices: number[] = [];
+    let score = SUBSEQUENCE_BASE_SCORE;
+    let position = start;
+
+    for (const char of term) {
+      const index = text.indexOf(char, position);
+      if (index === -1) break;
+
+      const previous = indices[indices.length - 1];
+      score += MATCHED_CHAR_SCORE;
+      if (previous !== undefined) {
+        score +=
+          index === previous + 1 ? CONSECUTIVE_CHAR_BONUS : -GAP_PENALTY * (index - previous - 1);
+      }
+      if (isWordStart(text, index)) score += WORD_START_BONUS;
+
+      indices.push(index);
+      position = index + 1;
+    }
+
+    // Later starts only leave fewer characters to match
+    if (indices.length < term.length) break;
+    if (!best || score > best.score) {
+      best = { score, indices };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Match a term against the start of each word, allowing a small number of typos
+ * Word prefixes are compared so a misspelled, half-typed word still matches
+ */
+function matchWithTypos(term: string, text: string): FuzzyMatch | null {
+  if (term.length < MIN_TYPO_TERM_LENGTH) return null;
+  const maxTypos = term.length >= TWO_TYPO_TERM_LENGTH ? 2 : 1;
+  let best: FuzzyMatch | null = null;
+
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const start = word.index ?? 0;
+    for (let length = term.length - maxTypos; length <= term.length + maxTypos; length++) {
+      if (length <= 0 || length > word[0].length) continue;
+
+      const distance = editDistance(term, word[0].slice(0, length));
+      if (distance > maxTypos) continue;
+
+      const score = TYPO_BASE_SCORE + length * MATCHED_CHAR_SCORE - distance * MATCHED_CHAR_SCORE;
+      if (!best || score > best.score) {
+        best = { score, indices: range(start, start + length) };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Match a query against a text
+ * Both are expected to be normalized (e.g. lowercased) by the caller
+ * @returns The match, or null if any query term doesn't match
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const terms = query.split(/\s+/).filter((term) => term);
+  if (terms.length === 0) return { score: 0, indices: [] };
+
+  let score = 0;
+  const indices = new Set<number>();
+  for (const term of terms) {
+    const match =
+      matchSubstring(term, text) ?? matchSubsequence(term, text) ?? matchWithTypos(term, text);
+    if (!match) return null;
+
+    score += match.score;
+    match.indices.forEach((index) => indices.add(index));
+  }
+
+  // Shorter texts covered by the same match are the closer hits
+  score -= text.length - indices.size;
+
+  return { score, indices: Array.from(indices).sort((a, b) => a - b) };
+}
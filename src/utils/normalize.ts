@@ -0,0 +1,122 @@
+/**
+ * Text normalization for search
+ *
+ * Folds away differences that shouldn't affect matching, for both queries and names:
+ * 1. NFKC: full-width Latin ("ｍｕｓｉｃ"), half-width katakana ("ｶﾞ"), compatibility forms
+ * 2. Case: lowercase
+ * 3. Diacritics: "café" → "cafe" (Latin, Greek and Cyrillic accents only; kana voicing is kept)
+ * 4. Variation selectors: emoji and ideographic variants ("❤️" → "❤")
+ * 5. Chinese script: Traditional → Simplified ("音樂" → "音乐"), from bundled offline data
+ */
+
+import { SIMPLIFIED_CHARS, TRADITIONAL_CHARS } from './chinese-variants-data';
+
+/** Combining diacritical marks (U+0300–U+036F) */
+const DIACRITIC_PATTERN = /[\u0300-\u036f]/g;
+
+/** Variation selectors, including the ideographic supplement */
+const VARIATION_SELECTOR_PATTERN = /[\ufe00-\ufe0f]|\udb40[\udd00-\uddef]/g;
+
+/** Marks that belong to the preceding character (incl. half-width kana voicing marks) */
+const CLUSTER_MARK_PATTERN = /[\p{M}\uff9e\uff9f]/u;
+
+/** Simplified form by Traditional character, built on first use */
+let simplifiedIndex: Map<string, string> | null = null;
+
+/**
+ * Normalized text with the position of each character in the original text
+ */
+export interface NormalizedText {
+  text: string;
+  /** For each UTF-16 unit of the normalized text, the start of its source in the original */
+  starts: number[];
+  /** For each UTF-16 unit of the normalized text, the end (exclusive) of its source */
+  ends: number[];
+}
+
+/**
+ * Map Traditional Chinese characters to Simplified
+ */
+function toSimplified(text: string): string {
+  if (!simplifiedIndex) {
+    const simplified = Array.from(SIMPLIFIED_CHARS);
+    simplifiedIndex = new Map(
+      Array.from(TRADITIONAL_CHARS, (char, index) => [char, simplified[index]])
+    );
+  }
+  const index = simplifiedIndex;
+  return Array.from(text, (char) => index.get(char) ?? char).join('');
+}
+
+/**
+ * Normalize one character together with its combining marks
+ */
+function normalizeCluster(cluster: string): string {
+  const folded = cluster
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(DIACRITIC_PATTERN, '')
+    .replace(VARIATION_SELECTOR_PATTERN, '')
+    .normalize('NFC');
+  return toSimplified(folded);
+}
+
+/**
+ * Split text into clusters: a character followed by any marks attached to it
+ * @returns Start index and text of each cluster
+ */
+function splitClusters(text: string): Array<[number, string]> {
+  const clusters: Array<[number, string]> = [];
+  let index = 0;
+  for (const char of text) {
+    const last = clusters[clusters.length - 1];
+    if (last && CLUSTER_MARK_PATTERN.test(char)) {
+      last[1] += char;
+    } else {
+      clusters.push([index, char]);
+    }
+    index += char.length;
+  }
+  return clusters;
+}
+
+/**
+ * Normalize text for search, keeping track of where each character came from
+ */
+export function normalizeForSearch(text: string): NormalizedText {
+  const result: NormalizedText = { text: '', starts: [], ends: [] };
+
+  for (const [start, cluster] of splitClusters(text)) {
+    const normalized = normalizeCluster(cluster);
+    result.text += normalized;
+    for (let i = 0; i < normalized.length; i++) {
+      result.starts.push(start);
+      result.ends.push(start + cluster.length);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Normalize text for search (e.g. a query), without position tracking
+ */
+export function normalizeText(text: string): string {
+  return normalizeForSearch(text).text;
+}
+
+/**
+ * Map indices in normalized text back to indices in the original text
+ * @returns Sorted, unique original indices
+ */
+export function toOriginalIndices(normalized: NormalizedText, indices: number[]): number[] {
+  const original = new Set<number>();
+  for (const index of indices) {
+    const start = normalized.starts[index];
+    const end = normalized.ends[index];
+    if (start === undefined || end === undefined) continue;
+    for (let i = start; i < end; i++) original.add(i);
+  }
+  return Array.from(original).sort((a, b) => a - b);
+}
@@ -0,0 +1,156 @@
+/**
+ * Phonetic search utilities
+ *
+ * Lets CJK names be found by how they're read rather than how they're written
+ * - Han characters: pinyin, full spelling or initials ("yinyue", "yy" → 音樂), or zhuyin ("ㄧㄣㄩㄝ")
+ * - Kana: romaji ("anime" → アニメ)
+ * Readings come from bundled offline data; see pinyin.ts and romaji.ts
+ */
+
+import type { FuzzyMatch } from './fuzzy';
+import { getPinyinReadings, pinyinToZhuyin } from './pinyin';
+import { readKanaMora } from './romaji';
+
+/** Base score of a phonetic match; below literal substring matches */
+const PHONETIC_BASE_SCORE = 60;
+
+/** Score per query character matched */
+const MATCHED_CHAR_SCORE = 5;
+
+/** Bonus for a match at the start of the name */
+const TEXT_START_BONUS = 30;
+
+/** Zhuyin symbols (bopomofo block) */
+const ZHUYIN_PATTERN = /[ㄅ-ㄯ]/;
+
+/** Zhuyin tone marks, ignored in queries */
+const ZHUYIN_TONE_PATTERN = /[ˊˇˋ˙]/g;
+
+/**
+ * Ways of reading one character (or kana mora) of a name
+ */
+interface PhoneticSegment {
+  /** Start index of the segment in the name */
+  start: number;
+  /** End index (exclusive) of the segment in the name */
+  end: number;
+  /** Latin spellings: pinyin, romaji, or the character itself */
+  latin: string[];
+  /** Zhuyin spellings, or the character itself */
+  zhuyin: string[];
+}
+
+/**
+ * Phonetic search index of one name
+ */
+export interface PhoneticIndex {
+  segments: PhoneticSegment[];
+  /** Whether any segment has a reading (Han or kana); otherwise literal search suffices */
+  hasReadings: boolean;
+}
+
+/**
+ * Build the phonetic index of a name
+ * Whitespace is left out, so queries match across words without typing spaces
+ */
+export function buildPhoneticIndex(name: string): PhoneticIndex {
+  const text = name.toLowerCase();
+  const segments: PhoneticSegment[] = [];
+  let hasReadings = false;
+
+  for (let index = 0; index < text.length; ) {
+    const char = String.fromCodePoint(text.codePointAt(index) ?? 0);
+    const end = index + char.length;
+
+    const pinyin = getPinyinReadings(char);
+    const mora = pinyin.length === 0 ? readKanaMora(text, index) : null;
+
+    if (pinyin.length > 0) {
+      const zhuyin = pinyin.map(pinyinToZhuyin).filter((reading): reading is string => !!reading);
+      segments.push({ start: index, end, latin: pinyin, zhuyin });
+      hasReadings = true;
+    } else if (mora) {
+      const moraText = text.slice(index, index + mora.length);
+      segments.push({
+        start: index,
+        end: index + mora.length,
+        latin: mora.readings,
+        zhuyin: [moraText],
+      });
+      hasReadings = true;
+      index += mora.length;
+      continue;
+    } else if (!/\s/.test(char)) {
+      segments.push({ start: index, end, latin: [char], zhuyin: [char] });
+    }
+
+    index = end;
+  }
+
+  return { segments, hasReadings };
+}
+
+/**
+ * Match a query against a name's phonetic index
+ * Each segment consumes its full reading or a prefix of it (e.g. the pinyin initial),
+ * and the matched segments must be consecutive
+ * @param query Lowercased query
+ * @returns The match with the indices of the matched characters, or null
+ */
+export function matchPhonetic(query: string, index: PhoneticIndex): FuzzyMatch | null {
+  if (!index.hasReadings) return null;
+
+  const compact = query.replace(/\s+/g, '').replace(ZHUYIN_TONE_PATTERN, '');
+  if (!compact) return null;
+
+  const { segments } = index;
+  const useZhuyin = ZHUYIN_PATTERN.test(compact);
+  // End segment reached from (segment, query position), or -1; memoized
+  const memo = new Map<number, number>();
+
+  const matchFrom = (segment: number, position: number): number => {
+    if (position === compact.length) return segment;
+    if (segment >= segments.length) return -1;
+
+    const key = segment * (compact.length + 1) + position;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let result = -1;
+    const readings = useZhuyin ? segments[segment].zhuyin : segments[segment].latin;
+    for (const reading of readings) {
+      if (reading === '') {
+        result = matchFrom(segment + 1, position);
+        if (result !== -1) break;
+        continue;
+      }
+      // Longest consumption first: the full reading, then shorter prefixes of it
+      for (let length = Math.min(reading.length, compact.length - position); length > 0; length--) {
+        if (!reading.startsWith(compact.slice(position, position + length))) continue;
+        result = matchFrom(segment + 1, position + length);
+        if (result !== -1) break;
+      }
+      if (result !== -1) break;
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  for (let start = 0; start < segments.length; start++) {
+    const end = matchFrom(start, 0);
+    if (end === -1) continue;
+
+    const from = segments[start].start;
+    const to = segments[end - 1].end;
+    return {
+      score:
+        PHONETIC_BASE_SCORE +
+        compact.length * MATCHED_CHAR_SCORE +
+        (start === 0 ? TEXT_START_BONUS : 0),
+      indices: Array.from({ length: to - from }, (_, i) => from + i),
+    };
+  }
+
+  return null;
+}
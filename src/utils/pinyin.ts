@@ -0,0 +1,172 @@
+/**
+ * Pinyin and Zhuyin utilities
+ *
+ * Looks up the Mandarin readings of Han characters from the bundled data
+ * and converts pinyin syllables to zhuyin (bopomofo)
+ */
+
+import { PINYIN_DATA } from './pinyin-data';
+
+/** Readings by character, parsed from the data on first use */
+let readingIndex: Map<string, string[]> | null = null;
+
+/**
+ * Zhuyin of each pinyin initial
+ */
+const ZHUYIN_INITIALS: Record<string, string> = {
+  b: 'ㄅ',
+  p: 'ㄆ',
+  m: 'ㄇ',
+  f: 'ㄈ',
+  d: 'ㄉ',
+  t: 'ㄊ',
+  n: 'ㄋ',
+  l: 'ㄌ',
+  g: 'ㄍ',
+  k: 'ㄎ',
+  h: 'ㄏ',
+  j: 'ㄐ',
+  q: 'ㄑ',
+  x: 'ㄒ',
+  zh: 'ㄓ',
+  ch: 'ㄔ',
+  sh: 'ㄕ',
+  r: 'ㄖ',
+  z: 'ㄗ',
+  c: 'ㄘ',
+  s: 'ㄙ',
+};
+
+/**
+ * Zhuyin of each pinyin final (in its written form after an initial)
+ */
+const ZHUYIN_FINALS: Record<string, string> = {
+  a: 'ㄚ',
+  o: 'ㄛ',
+  e: 'ㄜ',
+  ai: 'ㄞ',
+  ei: 'ㄟ',
+  ao: 'ㄠ',
+  ou: 'ㄡ',
+  an: 'ㄢ',
+  en: 'ㄣ',
+  ang: 'ㄤ',
+  eng: 'ㄥ',
+  er: 'ㄦ',
+  i: 'ㄧ',
+  ia: 'ㄧㄚ',
+  ie: 'ㄧㄝ',
+  iao: 'ㄧㄠ',
+  iu: 'ㄧㄡ',
+  ian: 'ㄧㄢ',
+  in: 'ㄧㄣ',
+  iang: 'ㄧㄤ',
+  ing: 'ㄧㄥ',
+  iong: 'ㄩㄥ',
+  u: 'ㄨ',
+  ua: 'ㄨㄚ',
+  uo: 'ㄨㄛ',
+  uai: 'ㄨㄞ',
+  ui: 'ㄨㄟ',
+  uan: 'ㄨㄢ',
+  un: 'ㄨㄣ',
+  uang: 'ㄨㄤ',
+  ong: 'ㄨㄥ',
+  ueng: 'ㄨㄥ',
+  v: 'ㄩ',
+  ve: 'ㄩㄝ',
+  van: 'ㄩㄢ',
+  vn: 'ㄩㄣ',
+};
+
+/**
+ * Syllables starting with "y"/"w" rewritten to their final ("you" → "iu")
+ */
+const SEMIVOWEL_SYLLABLES: Record<string, string> = {
+  yi: 'i',
+  ya: 'ia',
+  yo: 'o',
+  ye: 'ie',
+  yao: 'iao',
+  you: 'iu',
+  yan: 'ian',
+  yin: 'in',
+  yang: 'iang',
+  ying: 'ing',
+  yong: 'iong',
+  yu: 'v',
+  yue: 've',
+  yuan: 'van',
+  yun: 'vn',
+  wu: 'u',
+  wa: 'ua',
+  wo: 'uo',
+  wai: 'uai',
+  wei: 'ui',
+  wan: 'uan',
+  wen: 'un',
+  wang: 'uang',
+  weng: 'ueng',
+};
+
+/** Syllables whose "i" is silent (e.g. "zhi" → "ㄓ") */
+const SILENT_I_INITIALS = ['zh', 'ch', 'sh', 'r', 'z', 'c', 's'];
+
+/**
+ * Build the character → readings index from the bundled data
+ */
+function getReadingIndex(): Map<string, string[]> {
+  if (!readingIndex) {
+    readingIndex = new Map();
+    for (const entry of PINYIN_DATA) {
+      const [syllable, chars] = entry.split(' ');
+      for (const char of chars) {
+        const readings = readingIndex.get(char) ?? [];
+        readings.push(syllable);
+        readingIndex.set(char, readings);
+      }
+    }
+  }
+  return readingIndex;
+}
+
+/**
+ * Get the pinyin readings of a Han character
+ * Syllables with "ü" are also returned with "u", the way it's often typed ("lv" and "lu")
+ * @returns Toneless readings, or an empty array if the character isn't in the data
+ */
+export function getPinyinReadings(char: string): string[] {
+  const readings = getReadingIndex().get(char);
+  if (!readings) return [];
+
+  const spellings = new Set(readings);
+  for (const reading of readings) {
+    if (reading.includes('v')) spellings.add(reading.replace('v', 'u'));
+  }
+  return Array.from(spellings);
+}
+
+/**
+ * Convert a toneless pinyin syllable to zhuyin
+ * @returns The zhuyin, or null for syllables without a standard spelling
+ */
+export function pinyinToZhuyin(syllable: string): string | null {
+  const semivowel = SEMIVOWEL_SYLLABLES[syllable];
+  if (semivowel) return ZHUYIN_FINALS[semivowel] ?? null;
+
+  const initial = ['zh', 'ch', 'sh'].find((prefix) => syllable.startsWith(prefix)) ?? syllable[0];
+  const initialZhuyin = ZHUYIN_INITIALS[initial];
+  if (!initialZhuyin) {
+    return ZHUYIN_FINALS[syllable] ?? null;
+  }
+
+  let final = syllable.slice(initial.length);
+  if (final === 'i' && SILENT_I_INITIALS.includes(initial)) return initialZhuyin;
+  // "u" after j/q/x is "ü"
+  if (['j', 'q', 'x'].includes(initial) && final.startsWith('u')) {
+    final = 'v' + final.slice(1);
+  }
+
+  const finalZhuyin = ZHUYIN_FINALS[final];
+  return finalZhuyin ? initialZhuyin + finalZhuyin : null;
+}
@@ -0,0 +1,116 @@
+/**
+ * Romaji utilities
+ *
+ * Converts kana (hiragana and katakana) to romaji, one mora at a time,
+ * so names can be searched by typing their Hepburn or Kunrei-shiki spelling
+ */
+
+/**
+ * Romaji of each hiragana; alternative spellings separated by "|" (Hepburn first)
+ */
+// prettier-ignore
+const KANA_ROMAJI: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi|si', す: 'su', せ: 'se', そ: 'so',
+  ざ: 'za', じ: 'ji|zi', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi|ti', つ: 'tsu|tu', て: 'te', と: 'to',
+  だ: 'da', ぢ: 'ji|di', づ: 'zu|du', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu|hu', へ: 'he', ほ: 'ho',
+  ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', ゐ: 'i|wi', ゑ: 'e|we', を: 'o|wo', ん: 'n|nn',
+  ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o', ゃ: 'ya', ゅ: 'yu', ょ: 'yo', ゎ: 'wa',
+};
+
+/**
+ * Romaji of kana followed by a small ya/yu/yo or small vowel, where it differs
+ * from simply joining the two ("しゃ" → "sha", not "shiya")
+ */
+// prettier-ignore
+const DIGRAPH_ROMAJI: Record<string, string> = {
+  しゃ: 'sha|sya', しゅ: 'shu|syu', しょ: 'sho|syo', しぇ: 'she',
+  じゃ: 'ja|zya', じゅ: 'ju|zyu', じょ: 'jo|zyo', じぇ: 'je',
+  ちゃ: 'cha|tya', ちゅ: 'chu|tyu', ちょ: 'cho|tyo', ちぇ: 'che',
+  ぢゃ: 'ja|dya', ぢゅ: 'ju|dyu', ぢょ: 'jo|dyo',
+  ふぁ: 'fa', ふぃ: 'fi', ふぇ: 'fe', ふぉ: 'fo',
+  てぃ: 'ti', でぃ: 'di', とぅ: 'tu', どぅ: 'du',
+  うぃ: 'wi', うぇ: 'we', うぉ: 'wo',
+  ゔぁ: 'va', ゔぃ: 'vi', ゔぇ: 've', ゔぉ: 'vo',
+};
+
+/** Small kana that combine with the preceding kana */
+const SMALL_KANA = 'ぁぃぅぇぉゃゅょゎ';
+
+/** Small "tsu" doubling the next consonant */
+const SOKUON = 'っ';
+
+/** Katakana long vowel mark, repeating the previous vowel */
+const LONG_VOWEL_MARK = 'ー';
+
+/** Offset between a katakana and its hiragana */
+const KATAKANA_OFFSET = 0x60;
+
+/**
+ * One mora of kana and its romaji spellings
+ */
+export interface KanaMora {
+  /** Number of characters the mora spans */
+  length: number;
+  /** Romaji spellings, Hepburn first; may include "" for a mora that can go unwritten */
+  readings: string[];
+}
+
+/**
+ * Convert a katakana character to hiragana (other characters are returned unchanged)
+ */
+function toHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - KATAKANA_OFFSET) : char;
+}
+
+/**
+ * Read the mora starting at an index of a text
+ * @returns The mora, or null if the character there isn't kana
+ */
+export function readKanaMora(text: string, index: number): KanaMora | null {
+  const char = toHiragana(text[index] ?? '');
+
+  if (char === SOKUON) {
+    // Double the consonant of the next mora ("っか" → "kka", "っち" → "tchi")
+    const next = readKanaMora(text, index + 1);
+    const consonants = next?.readings
+      .map((reading) => (reading.startsWith('ch') ? 't' : reading[0]))
+      .filter((consonant) => consonant && !'aiueon'.includes(consonant));
+    return { length: 1, readings: consonants?.length ? Array.from(new Set(consonants)) : ['tsu'] };
+  }
+
+  if (text[index] === LONG_VOWEL_MARK) {
+    const previous = index > 0 ? readKanaMora(text, index - 1) : null;
+    const vowel = previous?.readings[0].slice(-1);
+    // Long vowels are often not written in romaji ("ラーメン" → "raamen" or "ramen")
+    return { length: 1, readings: vowel && 'aiueo'.includes(vowel) ? [vowel, ''] : ['-', ''] };
+  }
+
+  const romaji = KANA_ROMAJI[char];
+  if (!romaji) return null;
+
+  const next = toHiragana(text[index + 1] ?? '');
+  if (next && SMALL_KANA.includes(next) && !SMALL_KANA.includes(char)) {
+    const digraph = DIGRAPH_ROMAJI[char + next];
+    if (digraph) return { length: 2, readings: digraph.split('|') };
+    if ('ゃゅょ'.includes(next)) {
+      // "きゃ" → "kya": drop the "i" and join with the small kana's "ya"
+      const stem = romaji.split('|')[0].slice(0, -1);
+      return { length: 2, readings: [stem + KANA_ROMAJI[next]] };
+    }
+  }
+
+  return { length: 1, readings: romaji.split('|') };
+}
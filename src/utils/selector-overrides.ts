@@ -0,0 +1,147 @@
+/**
+ * Selector Overrides Utility
+ *
+ * Extra selectors and sheet title phrases supplied by the user on the options page.
+ * They are stored per site in chrome.storage.local and merged into the built-in selectors
+ * of that site at lookup time, so a YouTube DOM change can be worked around without a release.
+ * Stored values are validated again when loaded; invalid entries are dropped.
+ */
+
+import type { SelectorOverride, SelectorOverrides, SiteId, SiteSelectorOverrides } from '../types';
+import { readStorage, watchStorage, writeStorage } from './storage';
+import { logger } from './logger';
+
+/** chrome.storage.local key holding the selector overrides */
+const SELECTOR_OVERRIDES_STORAGE_KEY = 'selectorOverrides';
+
+/**
+ * No overrides: only the built-in selectors are used
+ */
+export const EMPTY_SELECTOR_OVERRIDES: SelectorOverrides = { selectors: {}, titlePatterns: [] };
+
+/**
+ * No overrides on any site
+ */
+export const EMPTY_SITE_SELECTOR_OVERRIDES: SiteSelectorOverrides = {
+  youtube: EMPTY_SELECTOR_OVERRIDES,
+  music: EMPTY_SELECTOR_OVERRIDES,
+};
+
+/**
+ * Check whether a string is a valid CSS selector
+ */
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep the unique, non-empty strings of a list
+ */
+function toStringList(value: unknown, transform: (text: string) => string): string[] {
+  if (!Array.isArray(value)) return [];
+  const strings = value
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => transform(entry.trim()))
+    .filter((entry) => entry.length > 0);
+  return Array.from(new Set(strings));
+}
+
+/**
+ * Keep the valid selectors of a list, logging the ones dropped
+ */
+function toSelectorList(value: unknown, name: string): string[] {
+  return toStringList(value, (text) => text).filter((selector) => {
+    if (isValidSelector(selector)) return true;
+    logger.warn('Ignoring invalid selector override', { selector: name, value: selector });
+    return false;
+  });
+}
+
+/**
+ * Turn stored (or user-entered) data into well-formed overrides
+ * Unknown shapes, invalid selectors and empty entries are dropped
+ */
+export function sanitizeSelectorOverrides(value: unknown): SelectorOverrides {
+  if (!value || typeof value !== 'object') return EMPTY_SELECTOR_OVERRIDES;
+  const raw = value as Partial<Record<keyof SelectorOverrides, unknown>>;
+
+  const selectors: Record<string, SelectorOverride> = {};
+  if (raw.selectors && typeof raw.selectors === 'object') {
+    for (const [name, entry] of Object.entries(raw.selectors as Record<string, unknown>)) {
+      if (!entry || typeof entry !== 'object') continue;
+      const { primary, fallback } = entry as Partial<Record<keyof SelectorOverride, unknown>>;
+      const override: SelectorOverride = {
+        primary: toSelectorList(primary, name),
+        fallback: toSelectorList(fallback, name),
+      };
+      if (override.primary.length > 0 || override.fallback.length > 0) {
+        selectors[name] = override;
+      }
+    }
+  }
+
+  return {
+    selectors,
+    titlePatterns: toStringList(raw.titlePatterns, (text) => text.toLowerCase()),
+  };
+}
+
+/**
+ * Turn stored data into well-formed overrides of each site
+ * Overrides stored before they were kept per site were written against YouTube's
+ * selectors, so they become YouTube's
+ */
+export function sanitizeSiteSelectorOverrides(value: unknown): SiteSelectorOverrides {
+  if (!value || typeof value !== 'object') return EMPTY_SITE_SELECTOR_OVERRIDES;
+  if ('selectors' in value || 'titlePatterns' in value) {
+    return { ...EMPTY_SITE_SELECTOR_OVERRIDES, youtube: sanitizeSelectorOverrides(value) };
+  }
+
+  const raw = value as Partial<Record<SiteId, unknown>>;
+  return {
+    youtube: sanitizeSelectorOverrides(raw.youtube),
+    music: sanitizeSelectorOverrides(raw.music),
+  };
+}
+
+/**
+ * Load the selector overrides of each site
+ */
+export async function loadSelectorOverrides(): Promise<SiteSelectorOverrides> {
+  const stored = await readStorage<unknown>(
+    'local',
+    SELECTOR_OVERRIDES_STORAGE_KEY,
+    EMPTY_SITE_SELECTOR_OVERRIDES
+  );
+  return sanitizeSiteSelectorOverrides(stored);
+}
+
+/**
+ * Persist the selector overrides of each site
+ * @returns Whether the overrides were written
+ */
+export async function saveSelectorOverrides(overrides: SiteSelectorOverrides): Promise<boolean> {
+  return writeStorage('local', SELECTOR_OVERRIDES_STORAGE_KEY, overrides);
+}
+
+/**
+ * Drop all overrides of every site, going back to the built-in selectors
+ * @returns Whether the overrides were cleared
+ */
+export async function resetSelectorOverrides(): Promise<boolean> {
+  return saveSelectorOverrides(EMPTY_SITE_SELECTOR_OVERRIDES);
+}
+
+/**
+ * Call back with the new overrides whenever they are edited
+ */
+export function watchSelectorOverrides(callback: (overrides: SiteSelectorOverrides) => void): void {
+  watchStorage<unknown>('local', SELECTOR_OVERRIDES_STORAGE_KEY, (value) =>
+    callback(sanitizeSiteSelectorOverrides(value))
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * User Settings Utility
+ *
+ * Settings are stored in chrome.storage.sync and merged over defaults,
+ * so settings added in newer versions get sensible values automatically
+ */
+
+import type { UserSettings } from '../types';
+import { readStorage, writeStorage } from './storage';
+import { DEFAULT_THROTTLE_CONFIG } from './throttle';
+
+/** chrome.storage.sync key holding the settings object */
+const SETTINGS_STORAGE_KEY = 'settings';
+
+/**
+ * Default settings
+ */
+export const DEFAULT_SETTINGS: UserSettings = {
+  pinnedSortMode: 'recent',
+  pinnedCount: 5,
+  reviewBeforeSave: false,
+  applyMode: 'batch',
+  clickDelayMinMs: DEFAULT_THROTTLE_CONFIG.minDelayMs,
+  clickDelayMaxMs: DEFAULT_THROTTLE_CONFIG.maxDelayMs,
+  clickBackoffFactor: DEFAULT_THROTTLE_CONFIG.backoffFactor,
+};
+
+/**
+ * Load settings merged over defaults
+ */
+export async function loadSettings(): Promise<UserSettings> {
+  const stored = await readStorage<Partial<UserSettings>>('sync', SETTINGS_STORAGE_KEY, {});
+  return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+/**
+ * Update some settings, keeping the others
+ * @returns The full updated settings
+ */
+export async function updateSettings(changes: Partial<UserSettings>): Promise<UserSettings> {
+  const settings = { ...(await loadSettings()), ...changes };
+  await writeStorage('sync', SETTINGS_STORAGE_KEY, settings);
+  return settings;
+}
@@ -0,0 +1,164 @@
+/**
+ * Extension Storage Utility
+ *
+ * Following Constitution Principle V (Defensive Error Handling):
+ * - Promise wrappers around chrome.storage
+ * - Failures are logged and fall back to defaults so the UI keeps working
+ *   (e.g. when the extension context was invalidated by an update)
+ */
+
+import { logger } from './logger';
+
+/**
+ * Storage area: "sync" follows the user across browsers, "local" stays on this device
+ */
+export type StorageAreaName = 'sync' | 'local';
+
+/**
+ * Outcome of a write that callers report differently
+ * - 'quota-exceeded': the area's size limits were hit (e.g. sync's 8 KB per item or 100 KB total)
+ * - 'failed': any other error, or storage is unavailable
+ */
+export type StorageWriteResult = 'written' | 'quota-exceeded' | 'failed';
+
+/** Errors chrome.storage reports when a size or item-count limit is hit */
+const QUOTA_ERROR_PATTERN = /QUOTA_BYTES|MAX_ITEMS/;
+
+/**
+ * Get the chrome.storage area if the extension context is still valid
+ */
+function getArea(area: StorageAreaName): chrome.storage.StorageArea | null {
+  if (typeof chrome === 'undefined' || !chrome.storage || !chrome.runtime?.id) {
+    return null;
+  }
+  return chrome.storage[area];
+}
+
+/**
+ * Read a value from extension storage
+ * @param area Storage area
+ * @param key Storage key
+ * @param fallback Value returned when the key is missing or storage is unavailable
+ */
+export async function readStorage<T>(area: StorageAreaName, key: string, fallback: T): Promise<T> {
+  const storage = getArea(area);
+  if (!storage) return fallback;
+
+  try {
+    const result = await storage.get(key);
+    return key in result ? (result[key] as T) : fallback;
+  } catch (error) {
+    logger.warn('Storage read failed', {
+      area,
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return fallback;
+  }
+}
+
+/**
+ * Write a value to extension storage
+ * @param area Storage area
+ * @param key Storage key
+ * @param value Value to store (must be JSON-serializable)
+ * @returns Whether the value was written
+ */
+export async function writeStorage<T>(
+  area: StorageAreaName,
+  key: string,
+  value: T
+): Promise<boolean> {
+  const storage = getArea(area);
+  if (!storage) return false;
+
+  try {
+    await storage.set({ [key]: value });
+    return true;
+  } catch (error) {
+    logger.error('Storage write failed', {
+      area,
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Read every value whose key starts with a prefix
+ * @returns Values by key; empty when storage is unavailable
+ */
+export async function readStorageEntries(
+  area: StorageAreaName,
+  keyPrefix: string
+): Promise<Record<string, unknown>> {
+  const storage = getArea(area);
+  if (!storage) return {};
+
+  try {
+    const all = await storage.get(null);
+    return Object.fromEntries(Object.entries(all).filter(([key]) => key.startsWith(keyPrefix)));
+  } catch (error) {
+    logger.warn('Storage read failed', {
+      area,
+      keyPrefix,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
+
+/**
+ * Replace every value whose key starts with a prefix: the entries are written,
+ * then keys with the prefix that aren't among them are removed
+ * @param entries Values by key; every key must start with the prefix
+ */
+export async function replaceStorageEntries(
+  area: StorageAreaName,
+  keyPrefix: string,
+  entries: Record<string, unknown>
+): Promise<StorageWriteResult> {
+  const storage = getArea(area);
+  if (!storage) return 'failed';
+
+  try {
+    const stale = Object.keys(await readStorageEntries(area, keyPrefix)).filter(
+      (key) => !(key in entries)
+    );
+    await storage.set(entries);
+    if (stale.length > 0) {
+      await storage.remove(stale);
+    }
+    return 'written';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const quotaExceeded = QUOTA_ERROR_PATTERN.test(message);
+    logger.error(quotaExceeded ? 'Storage quota exceeded' : 'Storage write failed', {
+      area,
+      keyPrefix,
+      error: message,
+    });
+    return quotaExceeded ? 'quota-exceeded' : 'failed';
+  }
+}
+
+/**
+ * Call back whenever a value in extension storage changes (e.g. edited on the options page)
+ * @param area Storage area
+ * @param key Storage key
+ * @param callback Receives the new value, or undefined if the key was removed
+ */
+export function watchStorage<T>(
+  area: StorageAreaName,
+  key: string,
+  callback: (value: T | undefined) => void
+): void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) return;
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === area && key in changes) {
+      callback(changes[key].newValue as T | undefined);
+    }
+  });
+}
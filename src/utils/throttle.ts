@@ -0,0 +1,109 @@
+/**
+ * Adaptive Throttle Utility
+ *
+ * Paces batch clicks by how quickly YouTube confirms them:
+ * - Fast confirmations shorten the wait between clicks
+ * - Slow confirmations, unconfirmed clicks and error snackbars back off exponentially
+ * - The wait always stays within the configured min/max
+ *
+ * Timing only goes through delay()/setTimeout, so the controller works with fake timers.
+ */
+
+import type { ThrottleConfig } from '../types';
+import { delay } from './debounce';
+
+/** Wait used before anything is known about YouTube's response time (ms) */
+const INITIAL_DELAY_MS = 200;
+
+/** Smallest wait a back-off starts from, so a min of 0 can still grow (ms) */
+const BACKOFF_FLOOR_MS = 100;
+
+/** Confirmations faster than this speed the batch up (ms) */
+const FAST_CONFIRM_MS = 400;
+
+/** Confirmations slower than this slow the batch down (ms) */
+const SLOW_CONFIRM_MS = 1200;
+
+/** Factor the wait is multiplied by after a fast confirmation */
+const SPEED_UP_FACTOR = 0.7;
+
+/**
+ * Default throttle limits
+ */
+export const DEFAULT_THROTTLE_CONFIG: ThrottleConfig = {
+  minDelayMs: 50,
+  maxDelayMs: 3000,
+  backoffFactor: 2,
+};
+
+/**
+ * Turn user-provided limits into a consistent config
+ * Invalid numbers fall back to the defaults, max is never below min and the factor never below 1
+ */
+export function normalizeThrottleConfig(config: Partial<ThrottleConfig>): ThrottleConfig {
+  const valid = (value: number | undefined, fallback: number, min: number): number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+
+  const minDelayMs = valid(config.minDelayMs, DEFAULT_THROTTLE_CONFIG.minDelayMs, 0);
+  const maxDelayMs = Math.max(
+    minDelayMs,
+    valid(config.maxDelayMs, DEFAULT_THROTTLE_CONFIG.maxDelayMs, 0)
+  );
+  const backoffFactor = valid(config.backoffFactor, DEFAULT_THROTTLE_CONFIG.backoffFactor, 1);
+
+  return { minDelayMs, maxDelayMs, backoffFactor };
+}
+
+/**
+ * Controller for the wait between batch clicks
+ */
+export class AdaptiveThrottle {
+  private readonly _config: ThrottleConfig;
+  private _delay: number;
+
+  constructor(config: Partial<ThrottleConfig> = DEFAULT_THROTTLE_CONFIG) {
+    this._config = normalizeThrottleConfig(config);
+    this._delay = this.clamp(INITIAL_DELAY_MS);
+  }
+
+  /**
+   * Current wait between clicks (ms)
+   */
+  get currentDelay(): number {
+    return this._delay;
+  }
+
+  /**
+   * Record a click YouTube confirmed
+   * @param confirmMs Time from the click to the confirmed state (ms)
+   */
+  recordConfirmed(confirmMs: number): void {
+    if (confirmMs >= SLOW_CONFIRM_MS) {
+      this.backOff();
+    } else if (confirmMs <= FAST_CONFIRM_MS) {
+      this._delay = this.clamp(this._delay * SPEED_UP_FACTOR);
+    }
+  }
+
+  /**
+   * Record an unconfirmed click or an error reported by YouTube
+   */
+  recordFailure(): void {
+    this.backOff();
+  }
+
+  /**
+   * Wait the current delay before the next click
+   */
+  wait(): Promise<void> {
+    return delay(this._delay);
+  }
+
+  private backOff(): void {
+    this._delay = this.clamp(Math.max(this._delay, BACKOFF_FLOOR_MS) * this._config.backoffFactor);
+  }
+
+  private clamp(value: number): number {
+    return Math.round(Math.min(this._config.maxDelayMs, Math.max(this._config.minDelayMs, value)));
+  }
+}
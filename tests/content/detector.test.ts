@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  detectPlaylistSheet,
+  fingerprintSheet,
+  scoreFingerprint,
+  type SheetFingerprint,
+} from '../../src/content/detector';
+import {
+  LOADING_SAVE_SHEET,
+  SAVE_SHEET_LOCALES,
+  THREE_DOT_MENUS,
+  saveSheet,
+} from '../fixtures/sheets';
+
+/**
+ * Render a fixture and return its root element
+ */
+function render(html: string): Element {
+  document.body.innerHTML = html;
+  const sheet = document.body.firstElementChild;
+  if (!sheet) throw new Error('Fixture has no root element');
+  return sheet;
+}
+
+/**
+ * Fingerprint of a fully rendered save sheet, overridden per test
+ */
+function fingerprint(overrides: Partial<SheetFingerprint> = {}): SheetFingerprint {
+  return {
+    hasMenuItems: false,
+    hasList: true,
+    itemCount: 3,
+    indicatorCount: 3,
+    hasCreateFooter: true,
+    titleText: null,
+    titleMatches: false,
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('detectPlaylistSheet', () => {
+  describe.each(Object.entries(SAVE_SHEET_LOCALES))('save sheet (%s)', (_name, locale) => {
+    it('is detected from its structure', () => {
+      const detection = detectPlaylistSheet(render(saveSheet(locale)));
+
+      expect(detection.verdict).toBe('playlist');
+      expect(detection.reason).toBe('structure');
+      expect(detection.fingerprint).toMatchObject({
+        hasMenuItems: false,
+        itemCount: locale.playlists.length,
+        indicatorCount: locale.playlists.length,
+        hasCreateFooter: true,
+      });
+    });
+
+    it('is still detected with the footer not rendered yet', () => {
+      const sheet = render(saveSheet(locale));
+      sheet.querySelector('yt-panel-footer-view-model')?.remove();
+
+      expect(detectPlaylistSheet(sheet).verdict).toBe('playlist');
+    });
+  });
+
+  it.each(Object.entries(THREE_DOT_MENUS))('rejects the three-dot menu (%s)', (_name, html) => {
+    const detection = detectPlaylistSheet(render(html));
+
+    expect(detection.verdict).toBe('not-playlist');
+  });
+
+  it('rejects a legacy menu as a context menu whatever it contains', () => {
+    const detection = detectPlaylistSheet(render(THREE_DOT_MENUS['en (legacy menu)']));
+
+    expect(detection.reason).toBe('context-menu');
+  });
+
+  it('treats a sheet without its list yet as uncertain', () => {
+    const detection = detectPlaylistSheet(render(LOADING_SAVE_SHEET));
+
+    expect(detection.verdict).toBe('uncertain');
+    expect(detection.reason).toBe('no-list');
+  });
+
+  it('uses a known title to settle a sheet without toggle indicators', () => {
+    const sheet = render(saveSheet(SAVE_SHEET_LOCALES['zh-TW']));
+    sheet.querySelectorAll('.yt-list-item-view-model__trailing').forEach((el) => el.remove());
+    sheet.querySelector('yt-panel-footer-view-model')?.remove();
+
+    const detection = detectPlaylistSheet(sheet);
+
+    expect(detection.verdict).toBe('playlist');
+    expect(detection.reason).toBe('title');
+  });
+
+  it('rejects a sheet without toggle indicators and an unknown title', () => {
+    const sheet = render(saveSheet(SAVE_SHEET_LOCALES.tr));
+    sheet.querySelectorAll('.yt-list-item-view-model__trailing').forEach((el) => el.remove());
+    sheet.querySelector('yt-panel-footer-view-model')?.remove();
+
+    const detection = detectPlaylistSheet(sheet);
+
+    expect(detection.verdict).toBe('not-playlist');
+    expect(detection.reason).toBe('no-playlist-features');
+  });
+});
+
+describe('scoreFingerprint', () => {
+  it('scores a fully rendered save sheet', () => {
+    expect(scoreFingerprint(fingerprint())).toBe(7);
+  });
+
+  it('scores the rendered fixtures like their fingerprints', () => {
+    const sheet = render(saveSheet(SAVE_SHEET_LOCALES.vi));
+
+    expect(scoreFingerprint(fingerprintSheet(sheet))).toBe(7);
+  });
+
+  it('counts toggle indicators only when at least half of the items carry one', () => {
+    expect(scoreFingerprint(fingerprint({ itemCount: 4, indicatorCount: 2 }))).toBe(7);
+    expect(scoreFingerprint(fingerprint({ itemCount: 4, indicatorCount: 1 }))).toBe(4);
+  });
+
+  it('gives no indicator points to an empty list', () => {
+    expect(scoreFingerprint(fingerprint({ itemCount: 0, indicatorCount: 0 }))).toBe(4);
+  });
+
+  it('scores a sheet without a list or footer as zero', () => {
+    expect(
+      scoreFingerprint(
+        fingerprint({ hasList: false, itemCount: 0, indicatorCount: 0, hasCreateFooter: false })
+      )
+    ).toBe(0);
+  });
+
+  it('ignores the title', () => {
+    expect(scoreFingerprint(fingerprint({ titleText: '儲存至...', titleMatches: true }))).toBe(7);
+  });
+
+  it('scores a three-dot menu below the uncertain threshold', () => {
+    const sheet = render(THREE_DOT_MENUS['en (new UI)']);
+
+    expect(scoreFingerprint(fingerprintSheet(sheet))).toBe(2);
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { parsePlaylistMetadata } from '../../src/content/metadata';
+
+/**
+ * Render a save sheet item with a name and optional secondary text
+ */
+function item(name: string, subtitle?: string): Element {
+  document.body.innerHTML = `
+    <yt-list-item-view-model>
+      <div class="yt-list-item-view-model__label">
+        <span class="yt-list-item-view-model__title">${name}</span>
+        ${subtitle === undefined ? '' : `<span class="yt-list-item-view-model__subtitle">${subtitle}</span>`}
+      </div>
+    </yt-list-item-view-model>`;
+  const element = document.body.firstElementChild;
+  if (!element) throw new Error('Fixture has no root element');
+  return element;
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('parsePlaylistMetadata', () => {
+  it('reads privacy and video count from the secondary text', () => {
+    expect(parsePlaylistMetadata(item('Cooking', 'Private • 12 videos'))).toEqual({
+      privacy: 'private',
+      videoCount: 12,
+    });
+  });
+
+  it('reads localized counts with thousands separators', () => {
+    expect(parsePlaylistMetadata(item('料理', '私人 · 1,234 部影片'))).toEqual({
+      privacy: 'private',
+      videoCount: 1234,
+    });
+  });
+
+  it('never reads the playlist name', () => {
+    expect(parsePlaylistMetadata(item('Mix • 2024'))).toEqual({});
+    expect(parsePlaylistMetadata(item('Private • 12 videos'))).toEqual({});
+  });
+
+  it('ignores a bare number in the secondary text', () => {
+    expect(parsePlaylistMetadata(item('Mix', 'Public • 2024'))).toEqual({ privacy: 'public' });
+  });
+
+  it('ignores our own injected UI', () => {
+    const element = item('Cooking', 'Unlisted');
+    element
+      .querySelector('.yt-list-item-view-model__subtitle')
+      ?.insertAdjacentHTML('beforeend', '<span class="ype-playlist-meta">🔒 99 videos</span>');
+
+    expect(parsePlaylistMetadata(element)).toEqual({ privacy: 'unlisted' });
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectMusicSheet } from '../../src/content/detector';
+import { setupMultiSelect, type SelectionManager } from '../../src/content/multiselect';
+import { recordUsage } from '../../src/content/usage';
+import {
+  LOADING_MUSIC_SAVE_DIALOG,
+  MUSIC_ACTION_MENU,
+  MUSIC_PLAYLISTS,
+  musicSaveDialog,
+} from '../fixtures/music';
+
+vi.mock('../../src/content/site', () => ({
+  CURRENT_SITE: 'music',
+  detectSite: () => 'music',
+}));
+
+vi.mock('../../src/content/usage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/content/usage')>()),
+  recordUsage: vi.fn(async () => {}),
+}));
+
+/**
+ * Render a fixture and return the element matching selector
+ */
+function render(html: string, selector: string): Element {
+  document.body.innerHTML = html;
+  const element = document.querySelector(selector);
+  if (!element) throw new Error(`Fixture has no ${selector}`);
+  return element;
+}
+
+/**
+ * Enhance the default save dialog
+ */
+function enhanceDialog(): { sheet: Element; manager: SelectionManager } {
+  const sheet = render(musicSaveDialog(MUSIC_PLAYLISTS), 'ytmusic-add-to-playlist-renderer');
+  return { sheet, manager: setupMultiSelect(sheet) };
+}
+
+/**
+ * Button of an option, with a click counter standing in for the site's handler
+ */
+function optionButton(
+  sheet: Element,
+  index: number
+): { button: HTMLElement; clicks: () => number } {
+  const button = sheet.querySelectorAll<HTMLElement>(
+    'ytmusic-playlist-add-to-option-renderer #button'
+  )[index];
+  let count = 0;
+  button.addEventListener('click', () => count++);
+  return { button, clicks: () => count };
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.mocked(recordUsage).mockClear();
+});
+
+describe('detectMusicSheet', () => {
+  it('detects the save dialog', () => {
+    const sheet = render(musicSaveDialog(MUSIC_PLAYLISTS), 'ytmusic-add-to-playlist-renderer');
+
+    expect(detectMusicSheet(sheet).verdict).toBe('playlist');
+  });
+
+  it('treats the dialog without its playlists yet as uncertain', () => {
+    const sheet = render(LOADING_MUSIC_SAVE_DIALOG, 'ytmusic-add-to-playlist-renderer');
+
+    expect(detectMusicSheet(sheet).verdict).toBe('uncertain');
+  });
+
+  it('rejects the action menu even though it offers "Save to playlist"', () => {
+    const menu = render(MUSIC_ACTION_MENU, 'ytmusic-menu-popup-renderer');
+
+    expect(detectMusicSheet(menu).verdict).toBe('not-playlist');
+  });
+});
+
+describe('SelectionManager on YouTube Music', () => {
+  it('manages every option without checkboxes or a save footer', () => {
+    const { sheet, manager } = enhanceDialog();
+
+    expect(manager.isMultiSelect).toBe(false);
+    expect(Array.from(manager.items.values()).map((item) => item.name)).toEqual(MUSIC_PLAYLISTS);
+    expect(sheet.querySelector('.ype-checkbox')).toBeNull();
+    expect(document.querySelector('.ype-footer')).toBeNull();
+  });
+
+  it('never reads an option as already holding the track, so nothing can be removed', () => {
+    const { manager } = enhanceDialog();
+
+    expect(manager.getSelectedItems()).toEqual([]);
+    expect(manager.getItemsToRemove()).toEqual([]);
+  });
+
+  it('lets a click on an option through to the site and records the pick', () => {
+    const { sheet, manager } = enhanceDialog();
+    const { button, clicks } = optionButton(sheet, 1);
+
+    button.click();
+
+    expect(clicks()).toBe(1);
+    expect(manager.hasChanges).toBe(false);
+    expect(recordUsage).toHaveBeenCalledWith([expect.objectContaining({ name: 'Road trip' })]);
+  });
+
+  it('picks an option toggled from the keyboard with a single click', () => {
+    const { sheet, manager } = enhanceDialog();
+    const { clicks } = optionButton(sheet, 2);
+    const option = sheet.querySelectorAll('ytmusic-playlist-add-to-option-renderer')[2];
+
+    manager.toggle(option);
+
+    expect(clicks()).toBe(1);
+    expect(manager.hasChanges).toBe(false);
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+  });
+});
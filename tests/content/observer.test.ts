@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkExistingSheet } from '../../src/content/observer';
+import { LOADING_SAVE_SHEET, SAVE_SHEET_LOCALES, saveSheet } from '../fixtures/sheets';
+
+describe('checkExistingSheet', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('enhances a sheet whose list arrives after the first check', async () => {
+    document.body.innerHTML = LOADING_SAVE_SHEET;
+    const sheet = document.querySelector('yt-sheet-view-model');
+    const callback = vi.fn();
+
+    checkExistingSheet(callback);
+    expect(callback).not.toHaveBeenCalled();
+
+    // The list streams into the open sheet, under a title outside the known patterns
+    const template = document.createElement('template');
+    template.innerHTML = saveSheet(SAVE_SHEET_LOCALES.nl);
+    const loaded = template.content.querySelector('yt-sheet-view-model');
+    sheet?.replaceChildren(...Array.from(loaded?.childNodes ?? []));
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(callback).toHaveBeenCalledWith(sheet);
+  });
+
+  it('gives up on a sheet that stays uncertain', async () => {
+    document.body.innerHTML = LOADING_SAVE_SHEET;
+    const callback = vi.fn();
+
+    checkExistingSheet(callback);
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
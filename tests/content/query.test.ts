@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateQuery,
+  parseQuery,
+  type QueryMatchers,
+  type QueryNode,
+} from '../../src/content/query';
+import type { PlaylistItem } from '../../src/types';
+import { normalizeText } from '../../src/utils/normalize';
+
+/** Match of a term that matched */
+const MATCH = { score: 1, indices: [] };
+
+/**
+ * Literal matchers on normalized names; SearchManager adds fuzzy and phonetic matching
+ */
+const MATCHERS: QueryMatchers = {
+  word: (word, item) => (normalizeText(item.name).includes(normalizeText(word)) ? MATCH : null),
+  phrase: (phrase, item) =>
+    normalizeText(item.name).includes(normalizeText(phrase)) ? MATCH : null,
+};
+
+/**
+ * Parse a query that must be valid
+ */
+function parse(input: string): QueryNode | null {
+  const parsed = parseQuery(input);
+  if (!parsed.ok) throw new Error(`Unexpected parse error: ${parsed.error}`);
+  return parsed.query;
+}
+
+/**
+ * Names of the playlists a query keeps
+ */
+function filter(input: string, items: PlaylistItem[]): string[] {
+  const query = parse(input);
+  return items
+    .filter((item) => !query || evaluateQuery(query, item, MATCHERS))
+    .map((item) => item.name);
+}
+
+/**
+ * Build an item, unselected unless overridden
+ */
+function item(name: string, overrides: Partial<PlaylistItem> = {}): PlaylistItem {
+  return {
+    element: document.createElement('div'),
+    name,
+    isSelected: false,
+    wasOriginallySelected: false,
+    ...overrides,
+  };
+}
+
+const ITEMS = [
+  item('Road trip mix', { privacy: 'public', tags: ['car'] }),
+  item('Trip hop', { isSelected: true, privacy: 'private' }),
+  item('Café music', { privacy: 'unlisted', wasOriginallySelected: true, isSelected: true }),
+  item('音樂收藏', { tags: ['car', 'zh'] }),
+];
+
+describe('parseQuery', () => {
+  it('parses an empty input to no query', () => {
+    expect(parseQuery('   ')).toEqual({ ok: true, query: null });
+  });
+
+  it('joins terms with AND and splits alternatives on OR', () => {
+    expect(parse('road mix OR hop')).toEqual({
+      type: 'or',
+      operands: [
+        {
+          type: 'and',
+          operands: [
+            { type: 'word', text: 'road' },
+            { type: 'word', text: 'mix' },
+          ],
+        },
+        { type: 'word', text: 'hop' },
+      ],
+    });
+  });
+
+  it('reads an excluded phrase', () => {
+    expect(parse('-"a b"')).toEqual({ type: 'not', operand: { type: 'phrase', text: 'a b' } });
+  });
+
+  it('only treats uppercase OR on its own as the keyword', () => {
+    expect(parse('or')).toEqual({ type: 'word', text: 'or' });
+    expect(parse('ORANGE')).toEqual({ type: 'word', text: 'orange' });
+  });
+
+  it('accepts full-width syntax typed with a CJK input method', () => {
+    expect(parse('ｒｏａｄ　ＯＲ　－＂ｔｒｉｐ　ｈｏｐ＂')).toEqual(parse('road OR -"trip hop"'));
+    expect(parse('ｉｓ：ｐｒｉｖａｔｅ ＃ｃａｒ')).toEqual(parse('is:private #car'));
+  });
+
+  it.each([
+    ['OR at the start', 'OR road'],
+    ['OR at the end', 'road OR'],
+    ['OR twice', 'road OR OR hop'],
+    ['an unclosed phrase', '"road trip'],
+    ['an empty phrase', '""'],
+    ['a lone "-"', 'road -'],
+    ['an unknown condition', 'is:liked'],
+    ['a lone "#"', '# road'],
+  ])('reports %s as an error', (_name, input) => {
+    const parsed = parseQuery(input);
+
+    expect(parsed.ok).toBe(false);
+    expect(parsed.ok ? null : parsed.error).toBeTruthy();
+  });
+});
+
+describe('evaluateQuery', () => {
+  it('requires every word', () => {
+    expect(filter('trip mix', ITEMS)).toEqual(['Road trip mix']);
+  });
+
+  it('keeps items matching either side of OR', () => {
+    expect(filter('mix OR hop', ITEMS)).toEqual(['Road trip mix', 'Trip hop']);
+  });
+
+  it('excludes a phrase', () => {
+    expect(filter('trip -"trip hop"', ITEMS)).toEqual(['Road trip mix']);
+  });
+
+  it('matches names without their diacritics', () => {
+    expect(filter('cafe', ITEMS)).toEqual(['Café music']);
+  });
+
+  it('matches Traditional names from a Simplified query and back', () => {
+    expect(filter('音乐', ITEMS)).toEqual(['音樂收藏']);
+    expect(filter('"音樂收藏"', [item('音乐收藏')])).toEqual(['音乐收藏']);
+  });
+
+  it('filters by selection state and privacy', () => {
+    expect(filter('is:selected', ITEMS)).toEqual(['Trip hop', 'Café music']);
+    expect(filter('is:changed', ITEMS)).toEqual(['Trip hop']);
+    expect(filter('is:private OR is:unlisted', ITEMS)).toEqual(['Trip hop', 'Café music']);
+  });
+
+  it('filters by tag', () => {
+    expect(filter('#car -#zh', ITEMS)).toEqual(['Road trip mix']);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { PlaylistIdResolver, resetInitialDataIndex } from '../../src/content/resolver';
+import type { PlaylistItem } from '../../src/types';
+
+/**
+ * Put an inline ytInitialData script listing the given playlists on the page
+ */
+function setInitialData(playlists: Record<string, string>): void {
+  const data = {
+    items: Object.entries(playlists).map(([title, playlistId]) => ({
+      playlistRenderer: { playlistId, title: { simpleText: title } },
+    })),
+  };
+  document.head.innerHTML = `<script type="application/json">var ytInitialData = ${JSON.stringify(data)};</script>`;
+}
+
+/**
+ * Resolve the ID of a sheet item named name with a fresh resolver (one per sheet)
+ */
+function resolveId(name: string): string | undefined {
+  const item: PlaylistItem = {
+    element: document.createElement('yt-list-item-view-model'),
+    name,
+    isSelected: false,
+    wasOriginallySelected: false,
+  };
+  new PlaylistIdResolver().resolveItemIds([item]);
+  return item.id;
+}
+
+afterEach(() => {
+  document.head.innerHTML = '';
+  resetInitialDataIndex();
+});
+
+describe('PlaylistIdResolver', () => {
+  it('matches a unique name against the page data', () => {
+    setInitialData({ Cooking: 'PLcooking' });
+
+    expect(resolveId('cooking')).toBe('PLcooking');
+  });
+
+  it('resolves the built-in Watch later by its localized name', () => {
+    expect(resolveId('稍後觀看')).toBe('WL');
+  });
+
+  it('leaves a name listed with several IDs unresolved', () => {
+    setInitialData({ Cooking: 'PLold', 'cooking ': 'PLnew' });
+
+    expect(resolveId('Cooking')).toBeUndefined();
+  });
+
+  it('keeps the page data index until navigation resets it', () => {
+    setInitialData({ Cooking: 'PLold' });
+    expect(resolveId('Cooking')).toBe('PLold');
+
+    setInitialData({ Cooking: 'PLnew' });
+    expect(resolveId('Cooking')).toBe('PLold');
+
+    resetInitialDataIndex();
+    expect(resolveId('Cooking')).toBe('PLnew');
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadTags, saveTags, splitTagStore, type TagStore } from '../../src/content/tags';
+
+/** chrome.storage.sync's limit per item (bytes of key and JSON) */
+const QUOTA_BYTES_PER_ITEM = 8192;
+
+/**
+ * Tag store of many playlists, like a user with hundreds of them
+ */
+function largeTagStore(count: number): TagStore {
+  const store: TagStore = {};
+  for (let i = 0; i < count; i++) {
+    store[`id:PL${String(i).padStart(32, '0')}`] = ['work', `topic-${i % 7}`];
+  }
+  return store;
+}
+
+/**
+ * Install a chrome.storage.sync stand-in holding data
+ * @param setError Message of the error every write fails with
+ */
+function stubSyncStorage(data: Record<string, unknown>, setError?: string): void {
+  vi.stubGlobal('chrome', {
+    runtime: { id: 'test-extension' },
+    storage: {
+      sync: {
+        get: async (keys: string | null) =>
+          keys === null ? { ...data } : keys in data ? { [keys]: data[keys] } : {},
+        set: async (items: Record<string, unknown>) => {
+          if (setError) throw new Error(setError);
+          Object.assign(data, items);
+        },
+        remove: async (keys: string[]) => {
+          keys.forEach((key) => delete data[key]);
+        },
+      },
+    },
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('splitTagStore', () => {
+  it('keeps every shard within chrome.storage.sync item limit', () => {
+    const shards = splitTagStore(largeTagStore(600));
+
+    expect(shards.length).toBeGreaterThan(1);
+    shards.forEach((shard, index) => {
+      const bytes = new TextEncoder().encode(`playlistTags.${index}${JSON.stringify(shard)}`);
+      expect(bytes.length).toBeLessThan(QUOTA_BYTES_PER_ITEM);
+    });
+  });
+
+  it('keeps every playlist exactly once', () => {
+    const store = largeTagStore(600);
+
+    expect(Object.assign({}, ...splitTagStore(store))).toEqual(store);
+  });
+
+  it('stores nothing for an empty store', () => {
+    expect(splitTagStore({})).toEqual([]);
+  });
+});
+
+describe('saveTags / loadTags', () => {
+  it('round-trips the tags of hundreds of playlists', async () => {
+    const data: Record<string, unknown> = {};
+    stubSyncStorage(data);
+    const store = largeTagStore(600);
+
+    expect(await saveTags(store)).toBe('written');
+    expect(await loadTags()).toEqual(store);
+  });
+
+  it('removes shards no longer needed', async () => {
+    const data: Record<string, unknown> = {};
+    stubSyncStorage(data);
+
+    await saveTags(largeTagStore(600));
+    await saveTags(largeTagStore(2));
+
+    expect(Object.keys(data)).toEqual(['playlistTags.0']);
+  });
+
+  it('reads the single-item store of older versions and replaces it on save', async () => {
+    const legacy: TagStore = { 'name:music': ['fun'] };
+    const data: Record<string, unknown> = { playlistTags: legacy, settings: {} };
+    stubSyncStorage(data);
+
+    expect(await loadTags()).toEqual(legacy);
+
+    await saveTags({ ...legacy, 'id:PL1': ['work'] });
+    expect(data).toEqual({
+      'playlistTags.0': { 'name:music': ['fun'], 'id:PL1': ['work'] },
+      settings: {},
+    });
+  });
+
+  it('reports a full sync storage as a quota error', async () => {
+    stubSyncStorage({}, 'QUOTA_BYTES quota exceeded');
+
+    expect(await saveTags(largeTagStore(10))).toBe('quota-exceeded');
+  });
+
+  it('reports other write errors as failures', async () => {
+    stubSyncStorage({}, 'Extension context invalidated.');
+
+    expect(await saveTags(largeTagStore(10))).toBe('failed');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * YouTube Music Fixtures
+ *
+ * Markup of YouTube Music's "Save to playlist" dialog and of a track's action menu.
+ * Options are plain buttons: the dialog shows no per-playlist state, and clicking one
+ * adds the track and closes the dialog. Trimmed to what the extension looks at.
+ */
+
+/**
+ * Build the save dialog listing the given playlists
+ */
+export function musicSaveDialog(playlists: string[]): string {
+  const options = playlists
+    .map(
+      (name, index) => `
+        <ytmusic-playlist-add-to-option-renderer>
+          <button id="button" aria-label="${name}">
+            <yt-formatted-string class="title">${name}</yt-formatted-string>
+            <yt-formatted-string class="subtitle">${index + 3} songs</yt-formatted-string>
+          </button>
+        </ytmusic-playlist-add-to-option-renderer>`
+    )
+    .join('');
+
+  return `
+    <tp-yt-paper-dialog>
+      <ytmusic-add-to-playlist-renderer>
+        <div class="top-bar">
+          <yt-formatted-string class="title">Save to playlist</yt-formatted-string>
+          <yt-button-renderer><button aria-label="New playlist">New playlist</button></yt-button-renderer>
+        </div>
+        <div id="playlists">${options}</div>
+      </ytmusic-add-to-playlist-renderer>
+    </tp-yt-paper-dialog>`;
+}
+
+/** Playlists of the default save dialog */
+export const MUSIC_PLAYLISTS = ['Liked music', 'Road trip', 'Focus'];
+
+/**
+ * Save dialog whose playlists haven't loaded yet
+ */
+export const LOADING_MUSIC_SAVE_DIALOG = `
+  <tp-yt-paper-dialog>
+    <ytmusic-add-to-playlist-renderer>
+      <div class="top-bar">
+        <yt-formatted-string class="title">Save to playlist</yt-formatted-string>
+      </div>
+      <div id="playlists"></div>
+    </ytmusic-add-to-playlist-renderer>
+  </tp-yt-paper-dialog>`;
+
+/**
+ * A track's action menu, which must not be taken for the save dialog
+ */
+export const MUSIC_ACTION_MENU = `
+  <tp-yt-iron-dropdown>
+    <ytmusic-menu-popup-renderer>
+      <tp-yt-paper-listbox id="items">
+        <ytmusic-menu-navigation-item-renderer><yt-formatted-string>Start radio</yt-formatted-string></ytmusic-menu-navigation-item-renderer>
+        <ytmusic-menu-service-item-renderer><yt-formatted-string>Play next</yt-formatted-string></ytmusic-menu-service-item-renderer>
+        <ytmusic-menu-navigation-item-renderer><yt-formatted-string>Save to playlist</yt-formatted-string></ytmusic-menu-navigation-item-renderer>
+        <ytmusic-menu-navigation-item-renderer><yt-formatted-string>Share</yt-formatted-string></ytmusic-menu-navigation-item-renderer>
+      </tp-yt-paper-listbox>
+    </ytmusic-menu-popup-renderer>
+  </tp-yt-iron-dropdown>`;
@@ -0,0 +1,161 @@
+/**
+ * Sheet Fixtures
+ *
+ * Markup of YouTube's save sheet in several locales, and of video three-dot menus
+ * that must not be taken for it. Trimmed to what the detector looks at.
+ */
+
+/** Path of the outline bookmark (video not in the playlist) */
+const OUTLINE_BOOKMARK_PATH =
+  'M19 2H5a2 2 0 00-2 2v16.887c0 1.266 1.382 2.048 2.469 1.399L12 18.366l6.531 3.919c1.087.652 2.469-.131 2.469-1.397V4a2 2 0 00-2-2ZM5 20.233V4h14v16.233l-6.485-3.89-.515-.309-.515.309L5 20.233Z';
+
+/** Path of the filled bookmark (video in the playlist) */
+const FILLED_BOOKMARK_PATH =
+  'M19 2H5a2 2 0 00-2 2v16.887c0 1.266 1.382 2.048 2.469 1.399L12 18.366l6.531 3.919c1.087.652 2.469-.131 2.469-1.397V4a2 2 0 00-2-2Z';
+
+/**
+ * Words of the save sheet in one locale
+ */
+interface SheetLocale {
+  title: string;
+  playlists: string[];
+  createButton: string;
+}
+
+/**
+ * Save sheet words per locale; only some titles are in PLAYLIST_TITLE_PATTERNS
+ */
+export const SAVE_SHEET_LOCALES: Record<string, SheetLocale> = {
+  en: {
+    title: 'Save video to...',
+    playlists: ['Watch later', 'Music', 'Cooking'],
+    createButton: 'New playlist',
+  },
+  'zh-TW': {
+    title: '儲存至...',
+    playlists: ['稍後觀看', '音樂', '料理'],
+    createButton: '新增播放清單',
+  },
+  pt: {
+    title: 'Salvar vídeo em...',
+    playlists: ['Assistir mais tarde', 'Música', 'Receitas'],
+    createButton: 'Nova playlist',
+  },
+  nl: {
+    title: 'Video opslaan in...',
+    playlists: ['Later bekijken', 'Muziek', 'Koken'],
+    createButton: 'Nieuwe playlist',
+  },
+  th: {
+    title: 'บันทึกวิดีโอลงใน...',
+    playlists: ['ดูภายหลัง', 'เพลง', 'ทำอาหาร'],
+    createButton: 'เพลย์ลิสต์ใหม่',
+  },
+  vi: {
+    title: 'Lưu video vào...',
+    playlists: ['Xem sau', 'Âm nhạc', 'Nấu ăn'],
+    createButton: 'Danh sách phát mới',
+  },
+  tr: {
+    title: 'Videoyu şuraya kaydet...',
+    playlists: ['Daha sonra izle', 'Müzik', 'Yemek'],
+    createButton: 'Yeni oynatma listesi',
+  },
+};
+
+/**
+ * Build the save sheet of a locale; the first playlist already holds the video
+ */
+export function saveSheet(locale: SheetLocale): string {
+  const items = locale.playlists
+    .map(
+      (name, index) => `
+      <yt-list-item-view-model>
+        <div class="yt-list-item-view-model__label">
+          <span class="yt-list-item-view-model__title">${name}</span>
+        </div>
+        <div class="yt-list-item-view-model__trailing">
+          <svg viewBox="0 0 24 24"><path d="${index === 0 ? FILLED_BOOKMARK_PATH : OUTLINE_BOOKMARK_PATH}"></path></svg>
+        </div>
+      </yt-list-item-view-model>`
+    )
+    .join('');
+
+  return `
+    <yt-sheet-view-model>
+      <yt-panel-header-view-model><h2>${locale.title}</h2></yt-panel-header-view-model>
+      <yt-list-view-model>${items}</yt-list-view-model>
+      <yt-panel-footer-view-model>
+        <yt-button-view-model><button aria-label="${locale.createButton}">${locale.createButton}</button></yt-button-view-model>
+      </yt-panel-footer-view-model>
+    </yt-sheet-view-model>`;
+}
+
+/**
+ * Save sheet whose list hasn't rendered yet
+ */
+export const LOADING_SAVE_SHEET = `
+  <yt-sheet-view-model>
+    <yt-panel-header-view-model><h2>Video opslaan in...</h2></yt-panel-header-view-model>
+  </yt-sheet-view-model>`;
+
+/**
+ * Build a video's three-dot menu in the new sheet UI: the same list elements as the
+ * save sheet, but icons in the leading slot, no title and no footer
+ */
+function newMenuSheet(labels: string[]): string {
+  const items = labels
+    .map(
+      (label) => `
+      <yt-list-item-view-model>
+        <div class="yt-list-item-view-model__leading">
+          <svg viewBox="0 0 24 24"><path d="M12 2a10 10 0 100 20 10 10 0 000-20Z"></path></svg>
+        </div>
+        <div class="yt-list-item-view-model__label">
+          <span class="yt-list-item-view-model__title">${label}</span>
+        </div>
+      </yt-list-item-view-model>`
+    )
+    .join('');
+
+  return `
+    <yt-sheet-view-model>
+      <yt-list-view-model>${items}</yt-list-view-model>
+    </yt-sheet-view-model>`;
+}
+
+/**
+ * Three-dot menus that must never be detected as the save sheet,
+ * including ones whose items mention saving to a playlist
+ */
+export const THREE_DOT_MENUS: Record<string, string> = {
+  'en (new UI)': newMenuSheet([
+    'Add to queue',
+    'Save to Watch later',
+    'Save to playlist',
+    'Download',
+    'Share',
+  ]),
+  'zh-TW (new UI)': newMenuSheet([
+    '加入佇列',
+    '儲存至「稍後觀看」',
+    '儲存至播放清單',
+    '下載',
+    '分享',
+  ]),
+  'pt (new UI)': newMenuSheet([
+    'Adicionar à fila',
+    'Salvar em "Assistir mais tarde"',
+    'Salvar na playlist',
+    'Compartilhar',
+  ]),
+  'en (legacy menu)': `
+    <ytd-menu-popup-renderer>
+      <tp-yt-paper-listbox id="items">
+        <ytd-menu-service-item-renderer><yt-formatted-string>Add to queue</yt-formatted-string></ytd-menu-service-item-renderer>
+        <ytd-menu-service-item-renderer><yt-formatted-string>Save to Watch later</yt-formatted-string></ytd-menu-service-item-renderer>
+        <ytd-menu-service-item-renderer><yt-formatted-string>Save to playlist</yt-formatted-string></ytd-menu-service-item-renderer>
+        <ytd-menu-service-item-renderer><yt-formatted-string>Share</yt-formatted-string></ytd-menu-service-item-renderer>
+      </tp-yt-paper-listbox>
+    </ytd-menu-popup-renderer>`,
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeForSearch, normalizeText, toOriginalIndices } from '../../src/utils/normalize';
+
+describe('normalizeText', () => {
+  it('folds full-width Latin and half-width katakana', () => {
+    expect(normalizeText('ＭＵＳＩＣ　２０２４')).toBe('music 2024');
+    expect(normalizeText('ｶﾞｲﾄﾞ')).toBe('ガイド');
+  });
+
+  it('lowercases and strips Latin, Greek and Cyrillic diacritics', () => {
+    expect(normalizeText('Café Crème')).toBe('cafe creme');
+    expect(normalizeText('Ἀθήνα')).toBe('αθηνα');
+    expect(normalizeText('Ёлка')).toBe('елка');
+  });
+
+  it('keeps kana voicing marks', () => {
+    expect(normalizeText('ガイド')).toBe('ガイド');
+    expect(normalizeText('がいど')).not.toBe(normalizeText('かいと'));
+  });
+
+  it('drops variation selectors', () => {
+    expect(normalizeText('❤️ Love')).toBe('❤ love');
+  });
+
+  it('maps Traditional Chinese to Simplified', () => {
+    expect(normalizeText('音樂')).toBe('音乐');
+    expect(normalizeText('稍後觀看')).toBe(normalizeText('稍后观看'));
+  });
+
+  it('leaves Simplified Chinese and other text unchanged', () => {
+    expect(normalizeText('音乐 mix')).toBe('音乐 mix');
+  });
+});
+
+describe('normalizeForSearch', () => {
+  it('maps each normalized character back to its source', () => {
+    const normalized = normalizeForSearch('Ｍúsica');
+
+    expect(normalized.text).toBe('musica');
+    expect(normalized.starts).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(normalized.ends).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('keeps a decomposed accent with the letter it belongs to', () => {
+    const normalized = normalizeForSearch('Cafe\u0301!');
+
+    expect(normalized.text).toBe('cafe!');
+    expect(normalized.starts[3]).toBe(3);
+    expect(normalized.ends[3]).toBe(5);
+  });
+
+  it('maps a compatibility character that expands back to one source character', () => {
+    const normalized = normalizeForSearch('㍿x');
+
+    expect(normalized.text).toBe('株式会社x');
+    expect(normalized.starts).toEqual([0, 0, 0, 0, 1]);
+  });
+});
+
+describe('toOriginalIndices', () => {
+  it('covers every original unit of the matched characters', () => {
+    const normalized = normalizeForSearch('Cafe\u0301 bar');
+
+    expect(toOriginalIndices(normalized, [2, 3])).toEqual([2, 3, 4]);
+  });
+
+  it('ignores indices outside the text', () => {
+    const normalized = normalizeForSearch('ab');
+
+    expect(toOriginalIndices(normalized, [1, 5])).toEqual([1]);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  SELECTORS,
+  getPlaylistTitlePatterns,
+  getSelectorCandidates,
+  setSelectorOverrides,
+} from '../../src/content/selectors';
+import {
+  EMPTY_SELECTOR_OVERRIDES,
+  EMPTY_SITE_SELECTOR_OVERRIDES,
+  sanitizeSiteSelectorOverrides,
+} from '../../src/utils/selector-overrides';
+
+afterEach(() => {
+  setSelectorOverrides(EMPTY_SITE_SELECTOR_OVERRIDES);
+});
+
+describe('sanitizeSiteSelectorOverrides', () => {
+  it('keeps the overrides of each site apart', () => {
+    const overrides = sanitizeSiteSelectorOverrides({
+      youtube: { selectors: { sheet: { primary: ['yt-new-sheet'] } }, titlePatterns: [] },
+      music: { selectors: {}, titlePatterns: ['Save To Library'] },
+    });
+
+    expect(overrides).toEqual({
+      youtube: {
+        selectors: { sheet: { primary: ['yt-new-sheet'], fallback: [] } },
+        titlePatterns: [],
+      },
+      music: { selectors: {}, titlePatterns: ['save to library'] },
+    });
+  });
+
+  it("turns overrides stored before they were kept per site into YouTube's", () => {
+    const overrides = sanitizeSiteSelectorOverrides({
+      selectors: { listItem: { fallback: ['yt-new-item'] } },
+      titlePatterns: ['Opslaan in'],
+    });
+
+    expect(overrides.youtube).toEqual({
+      selectors: { listItem: { primary: [], fallback: ['yt-new-item'] } },
+      titlePatterns: ['opslaan in'],
+    });
+    expect(overrides.music).toEqual(EMPTY_SELECTOR_OVERRIDES);
+  });
+
+  it('drops invalid selectors and unknown shapes', () => {
+    expect(sanitizeSiteSelectorOverrides(null)).toEqual(EMPTY_SITE_SELECTOR_OVERRIDES);
+    expect(
+      sanitizeSiteSelectorOverrides({
+        youtube: { selectors: { sheet: { primary: ['div[', ' '] } } },
+        music: 'broken',
+      })
+    ).toEqual(EMPTY_SITE_SELECTOR_OVERRIDES);
+  });
+});
+
+describe('getSelectorCandidates', () => {
+  it("only merges in the current site's overrides", () => {
+    setSelectorOverrides({
+      youtube: {
+        selectors: { sheet: { primary: ['yt-new-sheet'], fallback: [] } },
+        titlePatterns: ['opslaan in'],
+      },
+      music: {
+        selectors: { sheet: { primary: ['ytmusic-new-dialog'], fallback: [] } },
+        titlePatterns: ['bewaar'],
+      },
+    });
+
+    const candidates = getSelectorCandidates(SELECTORS.sheet);
+    expect(candidates[0]).toBe('yt-new-sheet');
+    expect(candidates).not.toContain('ytmusic-new-dialog');
+    expect(getPlaylistTitlePatterns()).toContain('opslaan in');
+    expect(getPlaylistTitlePatterns()).not.toContain('bewaar');
+  });
+});
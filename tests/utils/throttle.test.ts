@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AdaptiveThrottle,
+  DEFAULT_THROTTLE_CONFIG,
+  normalizeThrottleConfig,
+} from '../../src/utils/throttle';
+
+describe('AdaptiveThrottle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Start a wait and return whether it has finished
+   */
+  function startWait(throttle: AdaptiveThrottle): () => boolean {
+    let done = false;
+    void throttle.wait().then(() => {
+      done = true;
+    });
+    return () => done;
+  }
+
+  it('starts from the initial delay', () => {
+    expect(new AdaptiveThrottle().currentDelay).toBe(200);
+  });
+
+  it('waits the current delay', async () => {
+    const isDone = startWait(new AdaptiveThrottle());
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(isDone()).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(isDone()).toBe(true);
+  });
+
+  it('speeds up after fast confirmations', () => {
+    const throttle = new AdaptiveThrottle();
+
+    throttle.recordConfirmed(100);
+    expect(throttle.currentDelay).toBe(140);
+    throttle.recordConfirmed(400);
+    expect(throttle.currentDelay).toBe(98);
+  });
+
+  it('keeps the delay after confirmations of ordinary speed', () => {
+    const throttle = new AdaptiveThrottle();
+
+    throttle.recordConfirmed(800);
+    expect(throttle.currentDelay).toBe(200);
+  });
+
+  it('backs off after slow confirmations and failures', async () => {
+    const throttle = new AdaptiveThrottle();
+
+    throttle.recordConfirmed(1200);
+    expect(throttle.currentDelay).toBe(400);
+    throttle.recordFailure();
+    expect(throttle.currentDelay).toBe(800);
+
+    const isDone = startWait(throttle);
+    await vi.advanceTimersByTimeAsync(799);
+    expect(isDone()).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(isDone()).toBe(true);
+  });
+
+  it('backs off by the configured factor', () => {
+    const throttle = new AdaptiveThrottle({ minDelayMs: 0, maxDelayMs: 5000, backoffFactor: 3 });
+
+    throttle.recordFailure();
+    expect(throttle.currentDelay).toBe(600);
+  });
+
+  it('grows from the back-off floor when the delay is below it', () => {
+    const throttle = new AdaptiveThrottle({ minDelayMs: 0, maxDelayMs: 5000, backoffFactor: 2 });
+    for (let i = 0; i < 20; i++) throttle.recordConfirmed(0);
+    expect(throttle.currentDelay).toBeLessThan(100);
+
+    throttle.recordFailure();
+    expect(throttle.currentDelay).toBe(200);
+  });
+
+  it('never waits less than the minimum', () => {
+    const throttle = new AdaptiveThrottle({ minDelayMs: 150, maxDelayMs: 3000, backoffFactor: 2 });
+
+    for (let i = 0; i < 10; i++) throttle.recordConfirmed(0);
+    expect(throttle.currentDelay).toBe(150);
+  });
+
+  it('never waits more than the maximum', () => {
+    const throttle = new AdaptiveThrottle({ minDelayMs: 50, maxDelayMs: 1000, backoffFactor: 2 });
+
+    for (let i = 0; i < 10; i++) throttle.recordFailure();
+    expect(throttle.currentDelay).toBe(1000);
+  });
+
+  it('clamps the initial delay into the configured range', () => {
+    expect(
+      new AdaptiveThrottle({ minDelayMs: 500, maxDelayMs: 1000, backoffFactor: 2 }).currentDelay
+    ).toBe(500);
+    expect(
+      new AdaptiveThrottle({ minDelayMs: 0, maxDelayMs: 100, backoffFactor: 2 }).currentDelay
+    ).toBe(100);
+  });
+});
+
+describe('normalizeThrottleConfig', () => {
+  it('keeps a valid config', () => {
+    expect(normalizeThrottleConfig({ minDelayMs: 0, maxDelayMs: 500, backoffFactor: 1 })).toEqual({
+      minDelayMs: 0,
+      maxDelayMs: 500,
+      backoffFactor: 1,
+    });
+  });
+
+  it('fills in missing values from the defaults', () => {
+    expect(normalizeThrottleConfig({})).toEqual(DEFAULT_THROTTLE_CONFIG);
+  });
+
+  it('replaces invalid numbers with the defaults', () => {
+    expect(
+      normalizeThrottleConfig({ minDelayMs: -1, maxDelayMs: Number.NaN, backoffFactor: 0.5 })
+    ).toEqual(DEFAULT_THROTTLE_CONFIG);
+    expect(normalizeThrottleConfig({ maxDelayMs: Number.POSITIVE_INFINITY }).maxDelayMs).toBe(
+      DEFAULT_THROTTLE_CONFIG.maxDelayMs
+    );
+  });
+
+  it('raises the maximum to the minimum', () => {
+    expect(normalizeThrottleConfig({ minDelayMs: 800, maxDelayMs: 300 })).toMatchObject({
+      minDelayMs: 800,
+      maxDelayMs: 800,
+    });
+  });
+});
@@ -8,6 +8,7 @@ module.exports = (env, argv) => ({
   entry: {
     'content/index': './src/content/index.ts',
     'background/service-worker': './src/background/service-worker.ts',
+    'options/options': './src/options/options.ts',
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -42,6 +43,7 @@ module.exports = (env, argv) => ({
       patterns: [
         { from: 'manifest.json', to: 'manifest.json' },
         { from: 'icons', to: 'icons' },
+        { from: 'src/options/options.html', to: 'options/options.html' },
       ],
     }),
   ],